@@ -5,29 +5,29 @@
  * (in-memory, Redis, filesystem, etc.)
  */
 
-// Types
-export interface CacheConfig {
-	driver: 'memory' | 'redis' | 'filesystem';
-	prefix?: string;
-	ttl?: number; // Default TTL in seconds
-	redis?: {
-		host: string;
-		port: number;
-		password?: string;
-		db?: number;
-	};
-	filesystem?: {
-		path: string;
-	};
-}
+import { createHash, randomUUID } from 'node:crypto';
+import { MemoryStore } from './stores/memory.js';
+import { FilesystemStore } from './stores/filesystem.js';
+import { RedisStore } from './stores/redis.js';
+import type { CacheConfig, CacheStore, CacheStoreFactory } from './types.js';
 
-export interface CacheEntry<T = any> {
-	value: T;
-	expiresAt: number | null; // Unix timestamp or null for no expiry
-}
+// Types
+export type { CacheConfig, CacheEntry, CacheStore, CacheStoreFactory } from './types.js';
+export { MemoryStore } from './stores/memory.js';
+export { FilesystemStore } from './stores/filesystem.js';
+export { RedisStore } from './stores/redis.js';
+export { RedisClient, RedisError, type RedisConnectionOptions } from './redis-client.js';
 
-// In-memory cache store
-const memoryStore = new Map<string, CacheEntry>();
+// Store registry
+const storeFactories = new Map<string, CacheStoreFactory>([
+	['memory', () => new MemoryStore()],
+	['filesystem', (config) => new FilesystemStore(config.filesystem?.path || '.omni/cache')],
+	[
+		'redis',
+		(config) =>
+			new RedisStore(config.redis || { host: '127.0.0.1', port: 6379 }, config.prefix || '')
+	]
+]);
 
 let cacheConfig: CacheConfig = {
 	driver: 'memory',
@@ -35,71 +35,91 @@ let cacheConfig: CacheConfig = {
 	ttl: 3600 // 1 hour default
 };
 
+let activeStore: CacheStore | null = null;
+
 /**
  * Configure the cache system
  */
 export function configureCache(config: CacheConfig): void {
 	cacheConfig = { ...cacheConfig, ...config };
+	releaseStore();
 }
 
-function prefixKey(key: string): string {
-	return `${cacheConfig.prefix || ''}${key}`;
+/**
+ * Whether other processes see this cache. The `memory` store lives in this
+ * process only, so locks and counters kept there are not shared with workers.
+ */
+export function isCacheShared(): boolean {
+	return cacheConfig.driver !== 'memory';
 }
 
 /**
- * Get a value from cache
+ * Register a custom cache store that can be selected with `driver: name`
  */
-export async function get<T = any>(key: string): Promise<T | null> {
-	const prefixed = prefixKey(key);
-
-	if (cacheConfig.driver === 'memory') {
-		const entry = memoryStore.get(prefixed);
-		if (!entry) return null;
+export function registerCacheStore(name: string, factory: CacheStoreFactory): void {
+	storeFactories.set(name, factory);
+	if (cacheConfig.driver === name) releaseStore();
+}
 
-		// Check expiry
-		if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
-			memoryStore.delete(prefixed);
-			return null;
-		}
+/**
+ * Get the store for the configured driver (created on first use)
+ */
+export function getCacheStore(): CacheStore {
+	if (activeStore) return activeStore;
 
-		return entry.value as T;
+	const factory = storeFactories.get(cacheConfig.driver);
+	if (!factory) {
+		throw new Error(
+			`🗄️ [Cache] Driver '${cacheConfig.driver}' is not registered. Use registerCacheStore() to add it.`
+		);
 	}
 
-	// TODO: Implement Redis/filesystem drivers
-	console.warn(`🗄️ [Cache] Driver '${cacheConfig.driver}' not yet implemented.`);
-	return null;
+	activeStore = factory(cacheConfig);
+	return activeStore;
 }
 
 /**
- * Set a value in cache
+ * Close connections held by the active store (e.g. before process exit)
  */
-export async function set<T = any>(key: string, value: T, ttl?: number): Promise<void> {
-	const prefixed = prefixKey(key);
-	const seconds = ttl ?? cacheConfig.ttl ?? 3600;
+export async function disconnectCache(): Promise<void> {
+	const store = activeStore;
+	activeStore = null;
+	await store?.close?.();
+}
 
-	if (cacheConfig.driver === 'memory') {
-		memoryStore.set(prefixed, {
-			value,
-			expiresAt: seconds > 0 ? Date.now() + seconds * 1000 : null
-		});
-		return;
-	}
+function releaseStore() {
+	disconnectCache().catch((error) =>
+		console.error('🗄️ [Cache] Failed to close previous store:', error)
+	);
+}
 
-	console.warn(`🗄️ [Cache] Driver '${cacheConfig.driver}' not yet implemented.`);
+function prefixKey(key: string): string {
+	return `${cacheConfig.prefix || ''}${key}`;
+}
+
+function resolveTtl(ttl?: number): number {
+	return ttl ?? cacheConfig.ttl ?? 3600;
 }
 
 /**
- * Remove a value from cache
+ * Get a value from cache
  */
-export async function forget(key: string): Promise<boolean> {
-	const prefixed = prefixKey(key);
+export async function get<T = any>(key: string): Promise<T | null> {
+	return getCacheStore().get<T>(prefixKey(key));
+}
 
-	if (cacheConfig.driver === 'memory') {
-		return memoryStore.delete(prefixed);
-	}
+/**
+ * Set a value in cache
+ */
+export async function set<T = any>(key: string, value: T, ttl?: number): Promise<void> {
+	await getCacheStore().set(prefixKey(key), value, resolveTtl(ttl));
+}
 
-	console.warn(`🗄️ [Cache] Driver '${cacheConfig.driver}' not yet implemented.`);
-	return false;
+/**
+ * Remove a value from cache
+ */
+export async function forget(key: string): Promise<boolean> {
+	return getCacheStore().forget(prefixKey(key));
 }
 
 /**
@@ -111,29 +131,426 @@ export async function has(key: string): Promise<boolean> {
 }
 
 /**
- * Get a value from cache, or set it if it doesn't exist
+ * Store a value only if the key doesn't exist yet. Returns whether it was stored.
+ */
+export async function add<T = any>(key: string, value: T, ttl?: number): Promise<boolean> {
+	const store = getCacheStore();
+	const storeKey = prefixKey(key);
+	if (store.add) return store.add(storeKey, value, resolveTtl(ttl));
+
+	// Best effort for custom stores without set-if-absent
+	if ((await store.get(storeKey)) !== null) return false;
+	await store.set(storeKey, value, resolveTtl(ttl));
+	return true;
+}
+
+/**
+ * Get a value from cache and remove it
+ */
+export async function pull<T = any>(key: string): Promise<T | null> {
+	const value = await get<T>(key);
+	if (value !== null) await forget(key);
+	return value;
+}
+
+/**
+ * Get several values at once. Missing keys map to null.
+ */
+export async function many<T = any>(keys: string[]): Promise<Record<string, T | null>> {
+	const values = await Promise.all(keys.map((key) => get<T>(key)));
+	return Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+}
+
+/**
+ * Set several values at once with the same TTL
+ */
+export async function putMany<T = any>(values: Record<string, T>, ttl?: number): Promise<void> {
+	await Promise.all(Object.entries(values).map(([key, value]) => set(key, value, ttl)));
+}
+
+/**
+ * Atomically increment a numeric value. Missing keys start at 0 and are
+ * stored without expiry; an existing expiry is kept.
+ */
+export async function increment(key: string, by = 1): Promise<number> {
+	const store = getCacheStore();
+	const storeKey = prefixKey(key);
+	if (store.increment) return store.increment(storeKey, by);
+
+	// Not atomic: custom stores should implement `increment` for concurrent use
+	const current = (await store.get<number>(storeKey)) ?? 0;
+	await store.set(storeKey, current + by, 0);
+	return current + by;
+}
+
+/**
+ * Atomically decrement a numeric value
+ */
+export async function decrement(key: string, by = 1): Promise<number> {
+	return increment(key, -by);
+}
+
+/**
+ * Get a value from cache, or set it if it doesn't exist.
+ *
+ * Concurrent misses for the same key in this process share one callback
+ * run. Pass `{ lock: true }` to also make other processes sharing the store
+ * wait for that result instead of computing it themselves.
  */
 export async function remember<T = any>(
 	key: string,
 	ttl: number,
-	callback: () => T | Promise<T>
+	callback: () => T | Promise<T>,
+	options: RememberOptions = {}
 ): Promise<T> {
-	const cached = await get<T>(key);
-	if (cached !== null) return cached;
+	return rememberKey(prefixKey(key), ttl, callback, options);
+}
 
-	const value = await callback();
-	await set(key, value, ttl);
-	return value;
+/**
+ * Like `remember()`, but once `ttl` has passed the old value keeps being
+ * served for up to `staleTtl` more seconds while a single background
+ * refresh replaces it.
+ */
+export async function rememberStale<T = any>(
+	key: string,
+	ttl: number,
+	staleTtl: number,
+	callback: () => T | Promise<T>,
+	options: RememberOptions = {}
+): Promise<T> {
+	return rememberStaleKey(prefixKey(key), ttl, staleTtl, callback, options);
 }
 
 /**
  * Clear all cache entries
  */
 export async function flush(): Promise<void> {
-	if (cacheConfig.driver === 'memory') {
-		memoryStore.clear();
-		return;
+	await getCacheStore().flush();
+}
+
+/**
+ * Remove expired entries from stores that don't expire them on their own
+ */
+export async function gc(): Promise<number> {
+	return (await getCacheStore().gc?.()) ?? 0;
+}
+
+// ─── Locks ───────────────────────────────────────────────────────────────────
+
+const LOCK_POLL_INTERVAL = 50; // ms
+
+export class LockTimeoutError extends Error {
+	constructor(name: string, seconds: number) {
+		super(`🗄️ [Cache] Could not acquire lock '${name}' within ${seconds}s`);
+		this.name = 'LockTimeoutError';
+	}
+}
+
+/**
+ * A named lock kept in the cache store, so it is shared by every process
+ * using the same driver. The lock expires after `seconds` in case its holder
+ * dies, and can only be released by the owner that acquired it.
+ */
+export class Lock {
+	readonly owner: string;
+
+	constructor(
+		private key: string,
+		readonly name: string,
+		private seconds: number,
+		owner?: string
+	) {
+		this.owner = owner ?? randomUUID();
 	}
 
-	console.warn(`🗄️ [Cache] Driver '${cacheConfig.driver}' not yet implemented.`);
+	/**
+	 * Try to acquire the lock without waiting
+	 */
+	async acquire(): Promise<boolean> {
+		const store = getCacheStore();
+		if (store.add) return store.add(this.key, this.owner, this.seconds);
+
+		// Best effort for custom stores without set-if-absent
+		if ((await store.get(this.key)) !== null) return false;
+		await store.set(this.key, this.owner, this.seconds);
+		return true;
+	}
+
+	/**
+	 * Release the lock if this owner still holds it
+	 */
+	async release(): Promise<boolean> {
+		const store = getCacheStore();
+		if (store.forgetIf) return store.forgetIf(this.key, this.owner);
+
+		if ((await store.get(this.key)) !== this.owner) return false;
+		return store.forget(this.key);
+	}
+
+	/**
+	 * Release the lock regardless of who holds it
+	 */
+	async forceRelease(): Promise<void> {
+		await getCacheStore().forget(this.key);
+	}
+
+	/**
+	 * Acquire the lock without waiting. With a callback, runs it and releases
+	 * the lock afterwards; returns false if the lock is held elsewhere.
+	 */
+	get(): Promise<boolean>;
+	get<T>(callback: () => T | Promise<T>): Promise<T | false>;
+	async get<T>(callback?: () => T | Promise<T>): Promise<T | boolean> {
+		if (!(await this.acquire())) return false;
+		if (!callback) return true;
+		return this.runAndRelease(callback);
+	}
+
+	/**
+	 * Wait up to `waitSeconds` for the lock, throwing LockTimeoutError if it
+	 * can't be acquired. With a callback, runs it and releases the lock afterwards.
+	 */
+	block(waitSeconds: number): Promise<true>;
+	block<T>(waitSeconds: number, callback: () => T | Promise<T>): Promise<T>;
+	async block<T>(waitSeconds: number, callback?: () => T | Promise<T>): Promise<T | true> {
+		const deadline = Date.now() + waitSeconds * 1000;
+
+		while (!(await this.acquire())) {
+			if (Date.now() >= deadline) throw new LockTimeoutError(this.name, waitSeconds);
+			await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL));
+		}
+
+		if (!callback) return true;
+		return this.runAndRelease(callback);
+	}
+
+	private async runAndRelease<T>(callback: () => T | Promise<T>): Promise<T> {
+		try {
+			return await callback();
+		} finally {
+			await this.release();
+		}
+	}
+}
+
+/**
+ * Create a named lock that expires after `seconds`
+ *
+ * @example
+ * await cache.lock('reports:nightly', 120).block(5, () => buildNightlyReport());
+ */
+export function lock(name: string, seconds = 10, owner?: string): Lock {
+	return new Lock(prefixKey(`lock:${name}`), name, seconds, owner);
+}
+
+/**
+ * Recreate a lock held by a known owner, e.g. to release it from another process
+ */
+export function restoreLock(name: string, owner: string): Lock {
+	return lock(name, 0, owner);
+}
+
+// ─── Stampede protection ─────────────────────────────────────────────────────
+
+export interface RememberOptions {
+	/** Hold a cache lock while the callback runs */
+	lock?: boolean;
+	/** Seconds before an abandoned lock expires (default 10) */
+	lockTimeout?: number;
+	/** Milliseconds to wait for another lock holder before computing anyway (default: lockTimeout) */
+	wait?: number;
+}
+
+interface StaleEnvelope<T = any> {
+	value: T;
+	freshUntil: number | null; // Unix timestamp or null if it never goes stale
+}
+
+// Callbacks currently running in this process, keyed by full store key
+const inFlight = new Map<string, Promise<any>>();
+
+function coalesce<T>(storeKey: string, compute: () => Promise<T>): Promise<T> {
+	const running = inFlight.get(storeKey);
+	if (running) return running;
+
+	const promise = compute().finally(() => inFlight.delete(storeKey));
+	inFlight.set(storeKey, promise);
+	return promise;
+}
+
+/**
+ * Run `compute`, optionally under a store-level lock. Callers that lose the
+ * race poll `read` until the lock holder's result lands.
+ */
+async function fill<T>(
+	storeKey: string,
+	options: RememberOptions,
+	read: () => Promise<T | null>,
+	compute: () => Promise<T>
+): Promise<T> {
+	if (!options.lock) return compute();
+
+	const lockSeconds = options.lockTimeout ?? 10;
+	const lock = new Lock(`${storeKey}:lock`, storeKey, lockSeconds);
+	const deadline = Date.now() + (options.wait ?? lockSeconds * 1000);
+
+	while (!(await lock.acquire())) {
+		const value = await read();
+		if (value !== null) return value;
+		if (Date.now() >= deadline) return compute();
+		await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL));
+	}
+
+	try {
+		// The previous holder may have filled the key before we acquired the lock
+		const value = await read();
+		if (value !== null) return value;
+		return await compute();
+	} finally {
+		await lock.release();
+	}
+}
+
+async function rememberKey<T>(
+	storeKey: string,
+	ttl: number,
+	callback: () => T | Promise<T>,
+	options: RememberOptions
+): Promise<T> {
+	const store = getCacheStore();
+	const cached = await store.get<T>(storeKey);
+	if (cached !== null) return cached;
+
+	const read = () => store.get<T>(storeKey);
+	return coalesce(storeKey, () =>
+		fill(storeKey, options, read, async () => {
+			const value = await callback();
+			await store.set(storeKey, value, ttl);
+			return value;
+		})
+	);
+}
+
+async function rememberStaleKey<T>(
+	storeKey: string,
+	ttl: number,
+	staleTtl: number,
+	callback: () => T | Promise<T>,
+	options: RememberOptions
+): Promise<T> {
+	const store = getCacheStore();
+	const isFresh = (envelope: StaleEnvelope<T>) =>
+		envelope.freshUntil === null || Date.now() < envelope.freshUntil;
+
+	const readFresh = async () => {
+		const envelope = await store.get<StaleEnvelope<T>>(storeKey);
+		return envelope && isFresh(envelope) ? envelope.value : null;
+	};
+	const refresh = () =>
+		coalesce(storeKey, () =>
+			fill(storeKey, options, readFresh, async () => {
+				const value = await callback();
+				const envelope: StaleEnvelope<T> = {
+					value,
+					freshUntil: ttl > 0 ? Date.now() + ttl * 1000 : null
+				};
+				await store.set(storeKey, envelope, ttl > 0 ? ttl + staleTtl : 0);
+				return value;
+			})
+		);
+
+	const envelope = await store.get<StaleEnvelope<T>>(storeKey);
+	if (!envelope) return refresh();
+
+	if (!isFresh(envelope)) {
+		refresh().catch((error) =>
+			console.error(`🗄️ [Cache] Background refresh of '${storeKey}' failed:`, error)
+		);
+	}
+	return envelope.value;
+}
+
+/**
+ * Cache operations scoped to a set of tags.
+ *
+ * Each tag has a version id stored in the cache itself; tagged keys are
+ * namespaced by the hash of their tags' versions. Flushing a tag swaps its
+ * version, so every entry written under it becomes unreachable on any driver
+ * and is later reclaimed through normal expiry.
+ */
+export class TaggedCache {
+	readonly names: string[];
+
+	constructor(names: string[]) {
+		this.names = [...new Set(names)].sort();
+	}
+
+	async get<T = any>(key: string): Promise<T | null> {
+		return getCacheStore().get<T>(await this.taggedKey(key));
+	}
+
+	async set<T = any>(key: string, value: T, ttl?: number): Promise<void> {
+		await getCacheStore().set(await this.taggedKey(key), value, resolveTtl(ttl));
+	}
+
+	async forget(key: string): Promise<boolean> {
+		return getCacheStore().forget(await this.taggedKey(key));
+	}
+
+	async has(key: string): Promise<boolean> {
+		return (await this.get(key)) !== null;
+	}
+
+	async remember<T = any>(
+		key: string,
+		ttl: number,
+		callback: () => T | Promise<T>,
+		options: RememberOptions = {}
+	): Promise<T> {
+		return rememberKey(await this.taggedKey(key), ttl, callback, options);
+	}
+
+	/**
+	 * Invalidate every entry stored under any of these tags
+	 */
+	async flush(): Promise<void> {
+		const store = getCacheStore();
+		await Promise.all(this.names.map((name) => store.set(tagKey(name), randomUUID(), 0)));
+	}
+
+	private async taggedKey(key: string): Promise<string> {
+		const versions = await Promise.all(this.names.map(tagVersion));
+		const namespace = createHash('sha1').update(versions.join('|')).digest('hex');
+		return prefixKey(`${namespace}:${key}`);
+	}
+}
+
+function tagKey(name: string): string {
+	return prefixKey(`tag:${name}:version`);
+}
+
+async function tagVersion(name: string): Promise<string> {
+	const store = getCacheStore();
+	const existing = await store.get<string>(tagKey(name));
+	if (existing) return existing;
+
+	const version = randomUUID();
+	if (!store.add) {
+		await store.set(tagKey(name), version, 0);
+		return version;
+	}
+	// Concurrent first uses must agree on one version, so only one of them may write it
+	if (await store.add(tagKey(name), version, 0)) return version;
+	return (await store.get<string>(tagKey(name))) ?? version;
+}
+
+/**
+ * Scope cache operations to one or more tags
+ *
+ * @example
+ * await cache.tags(['users', 'user:42']).remember('profile:42', 600, loadProfile);
+ * await cache.tags('user:42').flush();
+ */
+export function tags(names: string | string[]): TaggedCache {
+	return new TaggedCache(Array.isArray(names) ? names : [names]);
 }
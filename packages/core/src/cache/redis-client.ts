@@ -0,0 +1,188 @@
+import { createConnection, type Socket } from 'node:net';
+
+/**
+ * Minimal Redis client speaking RESP2 over a single TCP connection.
+ *
+ * Commands are pipelined: each call writes immediately and replies are
+ * matched to callers in the order they were sent. The connection is opened
+ * lazily and re-opened on the next command after it drops.
+ */
+
+export interface RedisConnectionOptions {
+	host: string;
+	port: number;
+	password?: string;
+	db?: number;
+}
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'RedisError';
+	}
+}
+
+type Pending = { resolve: (reply: RedisReply) => void; reject: (error: Error) => void };
+
+export class RedisClient {
+	private socket: Socket | null = null;
+	private connecting: Promise<Socket> | null = null;
+	private buffer: Buffer = Buffer.alloc(0);
+	private pending: Pending[] = [];
+
+	constructor(private options: RedisConnectionOptions) {}
+
+	/**
+	 * Send a command and resolve with its reply. Error replies reject with a RedisError.
+	 */
+	async command(...args: Array<string | number>): Promise<RedisReply> {
+		const socket = await this.connect();
+		return this.send(socket, args);
+	}
+
+	/**
+	 * Close the connection once in-flight replies have arrived
+	 */
+	async quit(): Promise<void> {
+		if (!this.connecting) return;
+		const socket = await this.connect();
+		await this.send(socket, ['QUIT']).catch(() => {});
+		this.drop(socket, new RedisError('Connection closed'));
+	}
+
+	private connect(): Promise<Socket> {
+		if (this.connecting) return this.connecting;
+
+		const socket = createConnection({ host: this.options.host, port: this.options.port });
+		this.socket = socket;
+		this.connecting = new Promise<Socket>((resolve, reject) => {
+			socket.once('connect', async () => {
+				try {
+					if (this.options.password) await this.send(socket, ['AUTH', this.options.password]);
+					if (this.options.db) await this.send(socket, ['SELECT', this.options.db]);
+					resolve(socket);
+				} catch (error) {
+					this.drop(socket, error as Error);
+					reject(error);
+				}
+			});
+			socket.on('error', (error) => {
+				this.drop(socket, error);
+				reject(error);
+			});
+			socket.on('close', () => {
+				const error = new RedisError('Connection closed');
+				this.drop(socket, error);
+				reject(error);
+			});
+			socket.on('data', (chunk) => this.receive(socket, chunk));
+		});
+
+		return this.connecting;
+	}
+
+	private send(socket: Socket, args: Array<string | number>): Promise<RedisReply> {
+		return new Promise((resolve, reject) => {
+			this.pending.push({ resolve, reject });
+			socket.write(encodeCommand(args));
+		});
+	}
+
+	private receive(socket: Socket, chunk: Buffer) {
+		this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+		try {
+			let parsed = parseReply(this.buffer, 0);
+			while (parsed) {
+				const waiter = this.pending.shift();
+				if (parsed.value instanceof RedisError) waiter?.reject(parsed.value);
+				else waiter?.resolve(parsed.value);
+
+				this.buffer = this.buffer.subarray(parsed.offset);
+				parsed = this.buffer.length ? parseReply(this.buffer, 0) : null;
+			}
+		} catch (error) {
+			this.drop(socket, error as Error);
+		}
+	}
+
+	/**
+	 * Tear down a connection and reject everything still waiting on it
+	 */
+	private drop(socket: Socket, error: Error) {
+		if (this.socket !== socket) return;
+
+		const waiting = this.pending;
+		this.socket = null;
+		this.connecting = null;
+		this.buffer = Buffer.alloc(0);
+		this.pending = [];
+		socket.destroy();
+
+		for (const waiter of waiting) waiter.reject(error);
+	}
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+	const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+	for (const arg of args) {
+		const value = Buffer.from(String(arg));
+		parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+	}
+	return Buffer.concat(parts);
+}
+
+/**
+ * Parse one RESP value starting at `offset`. Returns null when the buffer
+ * does not yet hold a complete value. Error replies are returned (not thrown)
+ * as RedisError instances so pipelined callers can be rejected individually.
+ */
+export function parseReply(
+	buffer: Buffer,
+	offset: number
+): { value: RedisReply | RedisError; offset: number } | null {
+	const lineEnd = buffer.indexOf('\r\n', offset);
+	if (lineEnd === -1) return null;
+
+	const type = String.fromCharCode(buffer[offset]);
+	const line = buffer.toString('utf-8', offset + 1, lineEnd);
+	const next = lineEnd + 2;
+
+	switch (type) {
+		case '+':
+			return { value: line, offset: next };
+		case '-':
+			return { value: new RedisError(line), offset: next };
+		case ':':
+			return { value: Number(line), offset: next };
+		case '$': {
+			const length = Number(line);
+			if (length === -1) return { value: null, offset: next };
+			if (buffer.length < next + length + 2) return null;
+			return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 };
+		}
+		case '*': {
+			const count = Number(line);
+			if (count === -1) return { value: null, offset: next };
+
+			const items: RedisReply[] = [];
+			let error: RedisError | null = null;
+			let cursor = next;
+			for (let i = 0; i < count; i++) {
+				const item = parseReply(buffer, cursor);
+				if (!item) return null;
+				if (item.value instanceof RedisError) error ??= item.value;
+				else items.push(item.value);
+				cursor = item.offset;
+			}
+			return { value: error ?? items, offset: cursor };
+		}
+		default:
+			throw new RedisError(`Unexpected RESP type byte '${type}'`);
+	}
+}
@@ -0,0 +1,216 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { link, mkdir, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { CacheEntry, CacheStore } from '../types.js';
+
+// Chance (out of 100) that a write also sweeps expired files from disk
+const GC_LOTTERY = 2;
+
+// Read-modify-write operations hold a short-lived sibling lock entry
+const MUTEX_SECONDS = 5;
+const MUTEX_POLL_INTERVAL = 10; // ms
+
+interface FileEntry extends CacheEntry {
+	key: string;
+}
+
+/**
+ * Cache store that keeps one JSON file per key under a directory.
+ *
+ * Files are sharded by the first two characters of the key hash, written
+ * atomically (temp file + rename) and expired lazily on read. `gc()` sweeps
+ * the whole directory for entries that were never read again.
+ */
+export class FilesystemStore implements CacheStore {
+	constructor(private directory: string) {}
+
+	async get<T = any>(key: string): Promise<T | null> {
+		const file = this.pathFor(key);
+		const entry = await this.readEntry(file);
+		if (!entry) return null;
+
+		if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
+			await this.remove(file);
+			return null;
+		}
+
+		return entry.value as T;
+	}
+
+	async set<T = any>(key: string, value: T, seconds: number): Promise<void> {
+		const entry: FileEntry = {
+			key,
+			value,
+			expiresAt: seconds > 0 ? Date.now() + seconds * 1000 : null
+		};
+		await this.writeEntry(this.pathFor(key), entry);
+
+		if (Math.random() * 100 < GC_LOTTERY) {
+			this.gc().catch((error) => console.error('🗄️ [Cache] Filesystem GC failed:', error));
+		}
+	}
+
+	/**
+	 * Set-if-absent. The entry is hard-linked into place, which fails when the
+	 * file already exists, so only one caller (even across processes) can
+	 * create a missing entry. An expired file is removed and the link retried once.
+	 */
+	async add<T = any>(key: string, value: T, seconds: number): Promise<boolean> {
+		const file = this.pathFor(key);
+		const entry: FileEntry = {
+			key,
+			value,
+			expiresAt: seconds > 0 ? Date.now() + seconds * 1000 : null
+		};
+
+		const dir = dirname(file);
+		await mkdir(dir, { recursive: true });
+		const temp = join(dir, `.${randomUUID()}.tmp`);
+		await writeFile(temp, JSON.stringify(entry), 'utf-8');
+
+		try {
+			for (let attempt = 0; attempt < 2; attempt++) {
+				try {
+					await link(temp, file);
+					return true;
+				} catch (error: any) {
+					if (error?.code !== 'EEXIST') throw error;
+					// Reading also evicts the file when it has expired
+					if ((await this.get(key)) !== null) return false;
+				}
+			}
+			return false;
+		} finally {
+			await unlink(temp).catch(() => {});
+		}
+	}
+
+	async increment(key: string, by: number): Promise<number> {
+		return this.exclusive(key, async () => {
+			const file = this.pathFor(key);
+			const entry = await this.readEntry(file);
+			const live = entry && (entry.expiresAt === null || Date.now() <= entry.expiresAt);
+
+			if (live && typeof entry.value !== 'number') {
+				throw new Error(`🗄️ [Cache] Cannot increment non-numeric value at '${key}'`);
+			}
+
+			const value = (live ? entry.value : 0) + by;
+			await this.writeEntry(file, { key, value, expiresAt: live ? entry.expiresAt : null });
+			return value;
+		});
+	}
+
+	async forgetIf(key: string, value: unknown): Promise<boolean> {
+		return this.exclusive(key, async () => {
+			if ((await this.get(key)) !== value) return false;
+			return this.forget(key);
+		});
+	}
+
+	async forget(key: string): Promise<boolean> {
+		return this.remove(this.pathFor(key));
+	}
+
+	async flush(): Promise<void> {
+		// Only remove files this store wrote, never the configured directory itself
+		for (const file of await this.entryFiles()) {
+			await this.remove(file);
+		}
+	}
+
+	async gc(): Promise<number> {
+		const now = Date.now();
+		let removed = 0;
+
+		for (const file of await this.entryFiles()) {
+			const entry = await this.readEntry(file);
+			if (!entry || (entry.expiresAt !== null && now > entry.expiresAt)) {
+				if (await this.remove(file)) removed++;
+			}
+		}
+
+		return removed;
+	}
+
+	/**
+	 * Run `callback` while holding a per-key mutex built on `add()`
+	 */
+	private async exclusive<T>(key: string, callback: () => Promise<T>): Promise<T> {
+		const mutex = `${key}\0mutex`;
+		const owner = randomUUID();
+		while (!(await this.add(mutex, owner, MUTEX_SECONDS))) {
+			await new Promise((resolve) => setTimeout(resolve, MUTEX_POLL_INTERVAL));
+		}
+
+		try {
+			return await callback();
+		} finally {
+			// A callback that outlived the mutex must not release the next holder's
+			if ((await this.get(mutex)) === owner) await this.forget(mutex);
+		}
+	}
+
+	private pathFor(key: string): string {
+		const hash = createHash('sha1').update(key).digest('hex');
+		return join(this.directory, hash.slice(0, 2), `${hash}.json`);
+	}
+
+	private async readEntry(file: string): Promise<FileEntry | null> {
+		try {
+			return JSON.parse(await readFile(file, 'utf-8')) as FileEntry;
+		} catch (error: any) {
+			if (error?.code === 'ENOENT') return null;
+			// A corrupt or half-written file is treated as a miss
+			if (error instanceof SyntaxError) return null;
+			throw error;
+		}
+	}
+
+	private async writeEntry(file: string, entry: FileEntry): Promise<void> {
+		const dir = dirname(file);
+		await mkdir(dir, { recursive: true });
+
+		const temp = join(dir, `.${randomUUID()}.tmp`);
+		try {
+			await writeFile(temp, JSON.stringify(entry), 'utf-8');
+			await rename(temp, file);
+		} catch (error) {
+			await unlink(temp).catch(() => {});
+			throw error;
+		}
+	}
+
+	private async remove(file: string): Promise<boolean> {
+		try {
+			await unlink(file);
+			return true;
+		} catch (error: any) {
+			if (error?.code === 'ENOENT') return false;
+			throw error;
+		}
+	}
+
+	private async shardDirectories(): Promise<string[]> {
+		try {
+			const entries = await readdir(this.directory, { withFileTypes: true });
+			return entries
+				.filter((entry) => entry.isDirectory() && /^[0-9a-f]{2}$/.test(entry.name))
+				.map((entry) => join(this.directory, entry.name));
+		} catch (error: any) {
+			if (error?.code === 'ENOENT') return [];
+			throw error;
+		}
+	}
+
+	private async entryFiles(): Promise<string[]> {
+		const files: string[] = [];
+		for (const shard of await this.shardDirectories()) {
+			const names = await readdir(shard).catch(() => [] as string[]);
+			for (const name of names) {
+				if (/^[0-9a-f]{40}\.json$/.test(name)) files.push(join(shard, name));
+			}
+		}
+		return files;
+	}
+}
@@ -0,0 +1,76 @@
+import type { CacheEntry, CacheStore } from '../types.js';
+
+/**
+ * In-process cache store. Entries live for the lifetime of the process.
+ */
+export class MemoryStore implements CacheStore {
+	private entries = new Map<string, CacheEntry>();
+
+	async get<T = any>(key: string): Promise<T | null> {
+		return this.read<T>(key);
+	}
+
+	async set<T = any>(key: string, value: T, seconds: number): Promise<void> {
+		this.entries.set(key, {
+			value,
+			expiresAt: seconds > 0 ? Date.now() + seconds * 1000 : null
+		});
+	}
+
+	async add<T = any>(key: string, value: T, seconds: number): Promise<boolean> {
+		if (this.read(key) !== null) return false;
+		await this.set(key, value, seconds);
+		return true;
+	}
+
+	async increment(key: string, by: number): Promise<number> {
+		const current = this.read(key);
+		if (current !== null && typeof current !== 'number') {
+			throw new Error(`🗄️ [Cache] Cannot increment non-numeric value at '${key}'`);
+		}
+
+		const value = (current ?? 0) + by;
+		const entry = this.entries.get(key);
+		this.entries.set(key, { value, expiresAt: entry?.expiresAt ?? null });
+		return value;
+	}
+
+	async forgetIf(key: string, value: unknown): Promise<boolean> {
+		if (this.read(key) !== value) return false;
+		return this.entries.delete(key);
+	}
+
+	async forget(key: string): Promise<boolean> {
+		return this.entries.delete(key);
+	}
+
+	async flush(): Promise<void> {
+		this.entries.clear();
+	}
+
+	// Synchronous so that read-modify-write methods can't interleave
+	private read<T = any>(key: string): T | null {
+		const entry = this.entries.get(key);
+		if (!entry) return null;
+
+		// Check expiry
+		if (entry.expiresAt !== null && Date.now() > entry.expiresAt) {
+			this.entries.delete(key);
+			return null;
+		}
+
+		return entry.value as T;
+	}
+
+	async gc(): Promise<number> {
+		const now = Date.now();
+		let removed = 0;
+		for (const [key, entry] of this.entries) {
+			if (entry.expiresAt !== null && now > entry.expiresAt) {
+				this.entries.delete(key);
+				removed++;
+			}
+		}
+		return removed;
+	}
+}
@@ -0,0 +1,101 @@
+import { RedisClient, type RedisConnectionOptions } from '../redis-client.js';
+import type { CacheStore } from '../types.js';
+
+// Keys fetched per SCAN round trip when flushing
+const SCAN_COUNT = 500;
+
+// Compare-and-delete, so a lock is only released by the owner that holds it
+const FORGET_IF_SCRIPT = `if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end`;
+
+/**
+ * Cache store backed by Redis. Values are stored as JSON strings and TTLs
+ * are delegated to Redis key expiry.
+ */
+export class RedisStore implements CacheStore {
+	readonly client: RedisClient;
+
+	constructor(
+		connection: RedisConnectionOptions,
+		private prefix = ''
+	) {
+		this.client = new RedisClient(connection);
+	}
+
+	async get<T = any>(key: string): Promise<T | null> {
+		const raw = await this.client.command('GET', key);
+		return typeof raw === 'string' ? (JSON.parse(raw) as T) : null;
+	}
+
+	async set<T = any>(key: string, value: T, seconds: number): Promise<void> {
+		const payload = JSON.stringify(value);
+		if (seconds > 0) {
+			await this.client.command('SET', key, payload, 'EX', Math.ceil(seconds));
+		} else {
+			await this.client.command('SET', key, payload);
+		}
+	}
+
+	async add<T = any>(key: string, value: T, seconds: number): Promise<boolean> {
+		const payload = JSON.stringify(value);
+		const reply =
+			seconds > 0
+				? await this.client.command('SET', key, payload, 'NX', 'EX', Math.ceil(seconds))
+				: await this.client.command('SET', key, payload, 'NX');
+		return reply === 'OK';
+	}
+
+	async increment(key: string, by: number): Promise<number> {
+		// Numbers are stored as their JSON text, which INCRBY reads as an integer
+		if (Number.isInteger(by)) {
+			return (await this.client.command('INCRBY', key, by)) as number;
+		}
+		return Number(await this.client.command('INCRBYFLOAT', key, by));
+	}
+
+	async forgetIf(key: string, value: unknown): Promise<boolean> {
+		const reply = await this.client.command(
+			'EVAL',
+			FORGET_IF_SCRIPT,
+			1,
+			key,
+			JSON.stringify(value)
+		);
+		return reply === 1;
+	}
+
+	async forget(key: string): Promise<boolean> {
+		return (await this.client.command('DEL', key)) === 1;
+	}
+
+	/**
+	 * Delete every key under the cache prefix. Uses SCAN so that other data
+	 * sharing the Redis database is left alone (unlike FLUSHDB).
+	 */
+	async flush(): Promise<void> {
+		const pattern = `${escapeGlob(this.prefix)}*`;
+		let cursor = '0';
+
+		do {
+			const reply = (await this.client.command(
+				'SCAN',
+				cursor,
+				'MATCH',
+				pattern,
+				'COUNT',
+				SCAN_COUNT
+			)) as [string, string[]];
+			cursor = reply[0];
+			if (reply[1].length > 0) {
+				await this.client.command('DEL', ...reply[1]);
+			}
+		} while (cursor !== '0');
+	}
+
+	async close(): Promise<void> {
+		await this.client.quit();
+	}
+}
+
+function escapeGlob(value: string): string {
+	return value.replace(/[*?[\]\\]/g, '\\$&');
+}
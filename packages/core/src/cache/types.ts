@@ -0,0 +1,52 @@
+/**
+ * Omni Cache - Shared types
+ */
+
+export interface CacheConfig {
+	/** Built-in driver name, or the name of a store added with `registerCacheStore()` */
+	driver: 'memory' | 'redis' | 'filesystem' | (string & {});
+	prefix?: string;
+	ttl?: number; // Default TTL in seconds
+	redis?: {
+		host: string;
+		port: number;
+		password?: string;
+		db?: number;
+	};
+	filesystem?: {
+		path: string;
+	};
+}
+
+export interface CacheEntry<T = any> {
+	value: T;
+	expiresAt: number | null; // Unix timestamp or null for no expiry
+}
+
+/**
+ * Contract implemented by every cache backend.
+ *
+ * Keys handed to a store are already prefixed, and a `seconds` value of
+ * zero or less means the entry never expires.
+ */
+export interface CacheStore {
+	get<T = any>(key: string): Promise<T | null>;
+	set<T = any>(key: string, value: T, seconds: number): Promise<void>;
+	forget(key: string): Promise<boolean>;
+	flush(): Promise<void>;
+	/** Store a value only if the key is absent, returning whether it was written */
+	add?<T = any>(key: string, value: T, seconds: number): Promise<boolean>;
+	/**
+	 * Atomically add `by` to a numeric value (missing keys start at 0 and never
+	 * expire), keeping any existing expiry. Returns the new value.
+	 */
+	increment?(key: string, by: number): Promise<number>;
+	/** Remove the key only while it still holds `value` */
+	forgetIf?(key: string, value: unknown): Promise<boolean>;
+	/** Remove expired entries, returning how many were deleted */
+	gc?(): Promise<number>;
+	/** Release connections or handles held by the store */
+	close?(): Promise<void>;
+}
+
+export type CacheStoreFactory = (config: CacheConfig) => CacheStore;
@@ -4,7 +4,14 @@ import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { basename, join, resolve, sep } from 'path';
 import { findProjectRoot, isSvelteKitProject } from '../utils/project.js';
 
-export type GeneratorType = 'schema' | 'migration' | 'resource' | 'remote' | 'auth-page' | 'email';
+export type GeneratorType =
+	| 'schema'
+	| 'migration'
+	| 'resource'
+	| 'remote'
+	| 'auth-page'
+	| 'email'
+	| 'notifications';
 
 export interface GenerateCommandOptions {
 	schemaMode?: string;
@@ -51,7 +58,8 @@ export async function handleGenerateCommand(options: GenerateCommandOptions): Pr
 				{ value: 'resource', label: 'resource — Scaffold a new resource' },
 				{ value: 'remote', label: 'remote — Scaffold a remote functions file' },
 				{ value: 'auth-page', label: 'auth-page — Generate an auth page' },
-				{ value: 'email', label: 'email — Create an email template' }
+				{ value: 'email', label: 'email — Create an email template' },
+				{ value: 'notifications', label: 'notifications — Add the notifications table schema' }
 			]
 		});
 
@@ -63,7 +71,7 @@ export async function handleGenerateCommand(options: GenerateCommandOptions): Pr
 		type = selectedType as GeneratorType;
 	}
 
-	if (type !== 'auth-page' && !name) {
+	if (type !== 'auth-page' && type !== 'notifications' && !name) {
 		const enteredName = await text({
 			message: `Name for ${type}`,
 			placeholder: type === 'schema' ? 'User' : type === 'migration' ? 'add_users_table' : 'MyResource',
@@ -103,6 +111,9 @@ export async function handleGenerateCommand(options: GenerateCommandOptions): Pr
 		case 'email':
 			log.warn('Email template generator is planned and coming soon.');
 			break;
+		case 'notifications':
+			await generateNotificationsSchema(cwd, options.output, Boolean(options.force), Boolean(options.dryRun), options);
+			break;
 		default:
 			throw new Error(`Unknown generator type: ${type}`);
 	}
@@ -155,6 +166,95 @@ export default defineSchema('${tableName}', {
 	outro(`${pc.green('✔')} Schema ${pc.bold(tableName)} created at ${pc.dim(targetFile)}`);
 }
 
+/**
+ * Schema for the table the `database` notification store reads and writes.
+ * Columns must stay in sync with `notificationsTable` in
+ * `notifications/stores/database.ts`.
+ */
+export const NOTIFICATIONS_SCHEMA = `import { defineSchema } from 'omni-svelte/schema';
+
+// Read and written by configureNotifications({ store: 'database' })
+export const notificationsSchema = defineSchema(
+\t'notifications',
+\t{
+\t\tid: { type: 'string', length: 36, primary: true },
+\t\ttype: { type: 'string', length: 255, required: true },
+\t\tnotifiable_type: { type: 'string', length: 255, required: true },
+\t\tnotifiable_id: { type: 'string', length: 255, required: true },
+\t\tdata: { type: 'json', required: true },
+\t\tread_at: { type: 'timestamp', optional: true }
+\t},
+\t{ timestamps: true, indexes: [['notifiable_type', 'notifiable_id']] }
+);
+
+// Each recipient's opt-outs and digest frequency
+export const notificationPreferencesSchema = defineSchema(
+\t'notification_preferences',
+\t{
+\t\tid: { type: 'string', length: 36, primary: true },
+\t\tnotifiable_type: { type: 'string', length: 255, required: true },
+\t\tnotifiable_id: { type: 'string', length: 255, required: true },
+\t\tpreferences: { type: 'json', required: true }
+\t},
+\t{ timestamps: true, indexes: [{ fields: ['notifiable_type', 'notifiable_id'], unique: true }] }
+);
+
+// Low-priority mail waiting for the next hourly or daily digest
+export const notificationDigestsSchema = defineSchema(
+\t'notification_digests',
+\t{
+\t\tid: { type: 'string', length: 36, primary: true },
+\t\tnotifiable_type: { type: 'string', length: 255, required: true },
+\t\tnotifiable_id: { type: 'string', length: 255, required: true },
+\t\tfrequency: { type: 'string', length: 16, required: true },
+\t\taddress: { type: 'json', required: true },
+\t\ttype: { type: 'string', length: 255, required: true },
+\t\tsubject: { type: 'string', required: true },
+\t\ttext: { type: 'string', optional: true },
+\t\turl: { type: 'string', optional: true }
+\t},
+\t{ timestamps: true, indexes: [['notifiable_type', 'notifiable_id']] }
+);
+`;
+
+async function generateNotificationsSchema(
+	cwd: string,
+	output?: string,
+	force = false,
+	dryRun = false,
+	options?: GenerateCommandOptions
+) {
+	const targetDir = output
+		? join(cwd, output)
+		: join(cwd, options?.schemaOutputDir ?? 'src/lib/db/schemas');
+	const targetFile = join(targetDir, 'notifications.schema.ts');
+	const content = NOTIFICATIONS_SCHEMA;
+
+	if (dryRun) {
+		outro(`${pc.cyan('[dry-run]')} Would create: ${pc.bold(targetFile)}\n\n${pc.dim(content)}`);
+		return;
+	}
+
+	if (existsSync(targetFile) && !force) {
+		const shouldOverwrite = await confirm({
+			message: `${pc.yellow(targetFile)} already exists. Overwrite?`,
+			initialValue: false
+		});
+		if (isCancel(shouldOverwrite) || !shouldOverwrite) {
+			cancel('Aborted. Use --force to overwrite without prompting.');
+			process.exitCode = 1;
+			return;
+		}
+	}
+
+	ensureDir(targetDir);
+	writeFileSync(targetFile, content);
+	outro(
+		`${pc.green('✔')} Notifications schema created at ${pc.dim(targetFile)}\n` +
+			`  Run ${pc.cyan('omni db push')} to create the tables, then set ${pc.cyan("store: 'database'")} in configureNotifications().`
+	);
+}
+
 async function generateMigration(
 	name: string,
 	cwd: string,
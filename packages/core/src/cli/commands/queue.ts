@@ -0,0 +1,193 @@
+import { cancel, intro, log, outro } from '@clack/prompts';
+import pc from 'picocolors';
+import { createAppLoader, resolveAppEntry } from '../utils/app.js';
+import { findProjectRoot } from '../utils/project.js';
+
+type QueueModule = typeof import('../../queue/index.js');
+
+/** Files that register the app's jobs with `defineJob()`, checked in order */
+export const JOBS_ENTRY_CANDIDATES = [
+	'src/lib/server/jobs.ts',
+	'src/lib/server/jobs/index.ts',
+	'src/lib/server/jobs.js',
+	'src/lib/server/jobs/index.js'
+];
+
+export interface QueueCommandOptions {
+	cwd?: string;
+	/** Module that registers the app's jobs (defaults to JOBS_ENTRY_CANDIDATES) */
+	jobs?: string;
+}
+
+export interface QueueWorkCommandOptions extends QueueCommandOptions {
+	/** Comma-separated queue names, in priority order */
+	queue?: string;
+	once?: boolean;
+	maxJobs?: string;
+	/** Seconds before the worker stops */
+	maxTime?: string;
+}
+
+export interface QueueFailedCommandOptions extends QueueCommandOptions {
+	/** Print the stack trace recorded for each job */
+	stack?: boolean;
+}
+
+export interface QueueRetryCommandOptions extends QueueCommandOptions {
+	/** Failed job id, or `all` */
+	id: string;
+}
+
+export interface QueueForgetCommandOptions extends QueueCommandOptions {
+	id: string;
+}
+
+export async function handleQueueWorkCommand(options: QueueWorkCommandOptions): Promise<void> {
+	intro(pc.bgMagenta(pc.white(' OmniSvelte Queue Worker ')));
+
+	const maxJobs = parseLimit(options.maxJobs, '--max-jobs');
+	const maxTime = parseLimit(options.maxTime, '--max-time');
+	if (maxJobs === null || maxTime === null) return;
+
+	const queues = options.queue
+		?.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean);
+
+	const controller = new AbortController();
+	const stop = () => {
+		log.info('Finishing in-flight jobs before shutting down...');
+		controller.abort();
+	};
+
+	await withQueue(options, async (queue, entry) => {
+		// A second Ctrl+C (or SIGTERM) falls through to the default and exits at once
+		process.once('SIGINT', stop);
+		process.once('SIGTERM', stop);
+		log.info(
+			`Processing jobs on ${pc.bold(queues?.join(', ') || 'the default queue')} ${pc.dim(`(${entry})`)}`
+		);
+
+		try {
+			const processed = await queue.work({
+				queues,
+				once: options.once,
+				maxJobs,
+				maxTime: maxTime && maxTime * 1000,
+				signal: controller.signal
+			});
+			outro(pc.green(`✔ Worker stopped after ${processed} job${processed === 1 ? '' : 's'}.`));
+		} finally {
+			process.off('SIGINT', stop);
+			process.off('SIGTERM', stop);
+		}
+	});
+}
+
+export async function handleQueueFailedCommand(options: QueueFailedCommandOptions): Promise<void> {
+	intro(pc.bgMagenta(pc.white(' OmniSvelte Failed Jobs ')));
+
+	await withQueue(options, async (queue) => {
+		const failed = await queue.getFailedJobs();
+		if (failed.length === 0) {
+			outro(pc.green('✔ No failed jobs.'));
+			return;
+		}
+
+		for (const job of failed) {
+			const details = [
+				`${pc.bold(job.name)} ${pc.dim(job.id)}`,
+				pc.dim(
+					`queue: ${job.queue} · attempts: ${job.attempts}/${job.maxAttempts} · failed: ${job.failedAt.toISOString()}`
+				),
+				pc.red(job.error)
+			];
+			if (options.stack && job.stack) details.push(pc.dim(job.stack));
+			log.message(details.join('\n'));
+		}
+
+		outro(
+			`${failed.length} failed job${failed.length === 1 ? '' : 's'}. Retry with ${pc.cyan('omni queue:retry <id|all>')}.`
+		);
+	});
+}
+
+export async function handleQueueRetryCommand(options: QueueRetryCommandOptions): Promise<void> {
+	intro(pc.bgMagenta(pc.white(' OmniSvelte Retry Jobs ')));
+
+	await withQueue(options, async (queue) => {
+		if (options.id === 'all') {
+			const retried = await queue.retryAllFailedJobs();
+			outro(pc.green(`✔ Requeued ${retried} failed job${retried === 1 ? '' : 's'}.`));
+			return;
+		}
+
+		const job = await queue.retryFailedJob(options.id);
+		if (!job) {
+			cancel(`No failed job with id ${pc.bold(options.id)}.`);
+			process.exitCode = 1;
+			return;
+		}
+		outro(pc.green(`✔ Requeued ${pc.bold(job.name)} on ${pc.bold(job.queue)}.`));
+	});
+}
+
+export async function handleQueueForgetCommand(options: QueueForgetCommandOptions): Promise<void> {
+	intro(pc.bgMagenta(pc.white(' OmniSvelte Forget Job ')));
+
+	await withQueue(options, async (queue) => {
+		if (!(await queue.forgetFailedJob(options.id))) {
+			cancel(`No failed job with id ${pc.bold(options.id)}.`);
+			process.exitCode = 1;
+			return;
+		}
+		outro(pc.green(`✔ Deleted failed job ${pc.bold(options.id)}.`));
+	});
+}
+
+/**
+ * Load the app's jobs file (which also configures the queue) and run `fn`
+ * against the app's copy of the queue module.
+ */
+async function withQueue(
+	options: QueueCommandOptions,
+	fn: (queue: QueueModule, entry: string) => Promise<void>
+) {
+	const cwd = findProjectRoot(options.cwd ?? process.cwd());
+	const entry = resolveAppEntry(cwd, JOBS_ENTRY_CANDIDATES, options.jobs);
+	if (!entry) {
+		cancel(
+			options.jobs
+				? `Jobs file ${pc.bold(options.jobs)} not found.`
+				: `No jobs file found. Register your jobs in ${pc.bold('src/lib/server/jobs.ts')} or pass ${pc.cyan('--jobs <path>')}.`
+		);
+		process.exitCode = 1;
+		return;
+	}
+
+	const app = await createAppLoader(cwd);
+	try {
+		await app.load(entry);
+		const queue = await app.load<QueueModule>('omni-svelte/queue');
+		await fn(queue, entry);
+		await queue.disconnectQueue();
+	} finally {
+		await app.close();
+	}
+}
+
+/**
+ * Parse a positive integer flag. Returns undefined when unset and null
+ * (after reporting the error) when invalid.
+ */
+function parseLimit(value: string | undefined, flag: string): number | undefined | null {
+	if (value === undefined) return undefined;
+
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed <= 0) {
+		cancel(`${pc.bold(flag)} must be a positive whole number (received ${pc.yellow(value)}).`);
+		process.exitCode = 1;
+		return null;
+	}
+	return parsed;
+}
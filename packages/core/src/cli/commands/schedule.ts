@@ -0,0 +1,112 @@
+import { cancel, intro, log, outro } from '@clack/prompts';
+import pc from 'picocolors';
+import { createAppLoader, resolveAppEntry } from '../utils/app.js';
+import { findProjectRoot } from '../utils/project.js';
+
+type ScheduleModule = typeof import('../../schedule/index.js');
+
+/** Files that register the app's scheduled tasks, checked in order */
+export const SCHEDULE_ENTRY_CANDIDATES = [
+	'src/lib/server/schedule.ts',
+	'src/lib/server/schedule/index.ts',
+	'src/lib/server/schedule.js',
+	'src/lib/server/schedule/index.js'
+];
+
+export interface ScheduleCommandOptions {
+	cwd?: string;
+	/** Module that registers the app's tasks (defaults to SCHEDULE_ENTRY_CANDIDATES) */
+	schedule?: string;
+}
+
+export async function handleScheduleRunCommand(options: ScheduleCommandOptions): Promise<void> {
+	intro(pc.bgMagenta(pc.white(' OmniSvelte Scheduler ')));
+
+	await withSchedule(options, async (schedule) => {
+		const results = await schedule.runDueEvents();
+		if (results.length === 0) {
+			outro(pc.dim('No scheduled tasks are due.'));
+			return;
+		}
+
+		for (const result of results) {
+			if (result.status === 'ran') {
+				log.success(`Ran ${pc.bold(result.name)}`);
+			} else if (result.status === 'skipped') {
+				log.warn(`Skipped ${pc.bold(result.name)} ${pc.dim('(previous run still in progress)')}`);
+			} else {
+				log.error(`${pc.bold(result.name)} failed: ${result.error}`);
+			}
+		}
+
+		const failed = results.filter((result) => result.status === 'failed').length;
+		if (failed > 0) {
+			cancel(`${failed} of ${results.length} task${results.length === 1 ? '' : 's'} failed.`);
+			process.exitCode = 1;
+			return;
+		}
+		outro(pc.green(`✔ Started ${results.length} task${results.length === 1 ? '' : 's'}.`));
+	});
+}
+
+export async function handleScheduleListCommand(options: ScheduleCommandOptions): Promise<void> {
+	intro(pc.bgMagenta(pc.white(' OmniSvelte Schedule ')));
+
+	await withSchedule(options, async (schedule) => {
+		const events = schedule.scheduledEvents();
+		if (events.length === 0) {
+			outro(pc.dim('No scheduled tasks.'));
+			return;
+		}
+
+		for (const event of events) {
+			const timezone = event.timezoneName;
+			const next = event.nextRunDate().toLocaleString('en-US', {
+				timeZone: timezone,
+				dateStyle: 'medium',
+				timeStyle: 'short'
+			});
+			const details = [
+				event.task.type === 'job' ? 'job' : 'callback',
+				`next: ${next}${timezone ? ` ${timezone}` : ''}`
+			];
+			if (event.preventsOverlaps) details.push('without overlapping');
+
+			log.message(
+				`${pc.cyan(event.expression.padEnd(15))} ${pc.bold(event.name)}\n${pc.dim(details.join(' · '))}`
+			);
+		}
+
+		outro(`${events.length} scheduled task${events.length === 1 ? '' : 's'}.`);
+	});
+}
+
+/**
+ * Load the app's schedule file and run `fn` against the app's copy of the
+ * schedule module.
+ */
+async function withSchedule(
+	options: ScheduleCommandOptions,
+	fn: (schedule: ScheduleModule) => Promise<void>
+) {
+	const cwd = findProjectRoot(options.cwd ?? process.cwd());
+	const entry = resolveAppEntry(cwd, SCHEDULE_ENTRY_CANDIDATES, options.schedule);
+	if (!entry) {
+		cancel(
+			options.schedule
+				? `Schedule file ${pc.bold(options.schedule)} not found.`
+				: `No schedule file found. Register your tasks in ${pc.bold('src/lib/server/schedule.ts')} or pass ${pc.cyan('--schedule <path>')}.`
+		);
+		process.exitCode = 1;
+		return;
+	}
+
+	const app = await createAppLoader(cwd);
+	try {
+		await app.load(entry);
+		const schedule = await app.load<ScheduleModule>('omni-svelte/schedule');
+		await fn(schedule);
+	} finally {
+		await app.close();
+	}
+}
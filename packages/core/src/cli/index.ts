@@ -12,6 +12,13 @@ import { handleGenerateCommand } from './commands/generate.js';
 import { handleInitCommand } from './commands/init.js';
 import { handleInstallDependencyCommand } from './commands/install-dependency.js';
 import { handleMigrateCommand } from './commands/migrate.js'; // project migration
+import {
+	handleQueueFailedCommand,
+	handleQueueForgetCommand,
+	handleQueueRetryCommand,
+	handleQueueWorkCommand
+} from './commands/queue.js';
+import { handleScheduleListCommand, handleScheduleRunCommand } from './commands/schedule.js';
 import { handleUiCommand } from './commands/ui.js';
 
 /**
@@ -140,6 +147,7 @@ ${pc.bold('Examples:')}
   $ omni g migration add_posts_table
   $ omni generate schema Post --output src/db/schemas
   $ omni g schema Article --dry-run
+  $ omni generate notifications
 `)
 	.action(async (type, name, options) => {
 		await runAction(() =>
@@ -239,6 +247,105 @@ program
 		);
 	});
 
+program
+	.command('queue:work')
+	.description('Process queued jobs in a standalone worker')
+	.option('--cwd <path>', 'Working directory', process.cwd())
+	.option('--jobs <path>', 'Module that registers jobs with defineJob()')
+	.option('--queue <names>', 'Comma-separated queues to process, in priority order')
+	.option('--once', 'Process a single job and exit', false)
+	.option('--max-jobs <count>', 'Stop after processing this many jobs')
+	.option('--max-time <seconds>', 'Stop after running for this many seconds')
+	.addHelpText('after', `
+${pc.bold('Examples:')}
+  $ omni queue:work
+  $ omni queue:work --queue high,default
+  $ omni queue:work --once
+  $ omni queue:work --max-jobs 500 --max-time 3600
+`)
+	.action(async (options) => {
+		await runAction(() =>
+			handleQueueWorkCommand({
+				cwd: options.cwd,
+				jobs: options.jobs,
+				queue: options.queue,
+				once: options.once,
+				maxJobs: options.maxJobs,
+				maxTime: options.maxTime
+			})
+		);
+		// Database pools and timers opened by app code would otherwise keep the worker alive
+		process.exit();
+	});
+
+program
+	.command('queue:failed')
+	.description('List jobs that used up their attempts')
+	.option('--cwd <path>', 'Working directory', process.cwd())
+	.option('--jobs <path>', 'Module that registers jobs with defineJob()')
+	.option('--stack', 'Show the stack trace recorded for each job', false)
+	.action(async (options) => {
+		await runAction(() =>
+			handleQueueFailedCommand({ cwd: options.cwd, jobs: options.jobs, stack: options.stack })
+		);
+		process.exit();
+	});
+
+program
+	.command('queue:retry <id>')
+	.description('Push a failed job (or all of them) back onto its queue')
+	.option('--cwd <path>', 'Working directory', process.cwd())
+	.option('--jobs <path>', 'Module that registers jobs with defineJob()')
+	.addHelpText('after', `
+${pc.bold('Examples:')}
+  $ omni queue:retry 6d3f1c2e-9a51-4f0e-8c1e-2b7d8e4a1f00
+  $ omni queue:retry all
+`)
+	.action(async (id, options) => {
+		await runAction(() => handleQueueRetryCommand({ id, cwd: options.cwd, jobs: options.jobs }));
+		process.exit();
+	});
+
+program
+	.command('queue:forget <id>')
+	.description('Delete a failed job without retrying it')
+	.option('--cwd <path>', 'Working directory', process.cwd())
+	.option('--jobs <path>', 'Module that registers jobs with defineJob()')
+	.action(async (id, options) => {
+		await runAction(() => handleQueueForgetCommand({ id, cwd: options.cwd, jobs: options.jobs }));
+		process.exit();
+	});
+
+program
+	.command('schedule:run')
+	.description('Run the scheduled tasks that are due')
+	.option('--cwd <path>', 'Working directory', process.cwd())
+	.option('--schedule <path>', 'Module that registers scheduled tasks')
+	.addHelpText('after', `
+${pc.bold('Examples:')}
+  $ omni schedule:run
+  ${pc.dim('# crontab entry')}
+  * * * * * cd /path/to/app && npx omni schedule:run >> /dev/null 2>&1
+`)
+	.action(async (options) => {
+		await runAction(() =>
+			handleScheduleRunCommand({ cwd: options.cwd, schedule: options.schedule })
+		);
+		process.exit();
+	});
+
+program
+	.command('schedule:list')
+	.description('List scheduled tasks and when they next run')
+	.option('--cwd <path>', 'Working directory', process.cwd())
+	.option('--schedule <path>', 'Module that registers scheduled tasks')
+	.action(async (options) => {
+		await runAction(() =>
+			handleScheduleListCommand({ cwd: options.cwd, schedule: options.schedule })
+		);
+		process.exit();
+	});
+
 program
 	.command('tinker')
 	.description('Interactive REPL with models pre-loaded (planned)')
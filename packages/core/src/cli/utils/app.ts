@@ -0,0 +1,49 @@
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+
+export interface AppLoader {
+	/** Import a module through the project's Vite SSR pipeline */
+	load<T = Record<string, any>>(id: string): Promise<T>;
+	close(): Promise<void>;
+}
+
+/**
+ * Boot the project's Vite config (aliases like `$lib`, SvelteKit and omni
+ * plugins) without starting an HTTP server, so CLI commands can import app
+ * code the same way the dev server does.
+ *
+ * Framework modules should be loaded through the same loader as app code:
+ * Vite bundles `omni-svelte` for SSR, so the CLI's own copy does not share
+ * state (registered jobs, configured drivers) with the app.
+ */
+export async function createAppLoader(cwd: string): Promise<AppLoader> {
+	const { createServer } = await import('vite');
+	const server = await createServer({
+		root: cwd,
+		logLevel: 'error',
+		appType: 'custom',
+		server: { middlewareMode: true, hmr: false, watch: null }
+	});
+
+	return {
+		load: async <T>(id: string) => (await server.ssrLoadModule(id)) as T,
+		close: () => server.close()
+	};
+}
+
+/**
+ * Resolve an app entry file: the explicit path when given, otherwise the
+ * first candidate that exists. Returns null when nothing is found.
+ */
+export function resolveAppEntry(cwd: string, candidates: string[], explicit?: string) {
+	if (explicit) {
+		const path = resolve(cwd, explicit);
+		return existsSync(path) ? path : null;
+	}
+
+	for (const candidate of candidates) {
+		const path = resolve(cwd, candidate);
+		if (existsSync(path)) return path;
+	}
+	return null;
+}
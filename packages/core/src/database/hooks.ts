@@ -28,6 +28,13 @@ export const registerModel = (name: string, modelClass: typeof Model) => {
 export const getModel = (name: string): typeof Model | undefined => {
 	return modelRegistry.get(name);
 };
+
+export const getModelName = (modelClass: typeof Model): string | undefined => {
+	for (const [name, registered] of modelRegistry) {
+		if (registered === modelClass) return name;
+	}
+	return undefined;
+};
 export const initDb = (config: DatabaseConfig) => {
 	// Initialize database connection
 	if (configureDatabase(config)) console.log('Database initialised');
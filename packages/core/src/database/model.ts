@@ -3,9 +3,10 @@ import { getDatabase } from './database.js';
 import { RelationshipLoader } from './relationships.js';
 import { registerModel } from './hooks.js';
 import type { PgTable } from 'drizzle-orm/pg-core';
-import { QueryBuilder } from './query-builder.js';
+import { QueryBuilder, queryCacheTag } from './query-builder.js';
 import { z } from 'zod';
 import { deepEqual } from '../utils/index.js';
+import { tags } from '../cache/index.js';
 
 export abstract class Model {
 	static table: PgTable;
@@ -159,6 +160,7 @@ export abstract class Model {
 		}
 
 		this.exists = false;
+		await constructor.flushQueryCache();
 
 		// Broadcast realtime event
 		if (constructor.realtime?.enabled && constructor.realtime.events?.includes('deleted')) {
@@ -347,6 +349,8 @@ export abstract class Model {
 			this.isDirty = false;
 			this.syncOriginal();
 		}
+		await constructor.flushQueryCache();
+
 		// Run created hooks
 		await constructor.runHooks('created', this);
 
@@ -386,6 +390,7 @@ export abstract class Model {
 
 		this.isDirty = false;
 		this.syncOriginal();
+		await constructor.flushQueryCache();
 
 		// Run updated hooks
 		await constructor.runHooks('updated', this);
@@ -448,6 +453,18 @@ export abstract class Model {
 		return this;
 	}
 
+	/**
+	 * Invalidate results cached with `query().cache()` for this model's table.
+	 * Cache failures are logged rather than failing the write that triggered them.
+	 */
+	static async flushQueryCache(): Promise<void> {
+		try {
+			await tags(queryCacheTag(this.table)).flush();
+		} catch (error) {
+			console.error(`Failed to flush query cache for ${this.name}:`, error);
+		}
+	}
+
 	// Hook system
 	static async runHooks(event: string, model: any): Promise<void> {
 		const hooks = this.hooks[event] || [];
@@ -22,9 +22,12 @@ import {
 	avg,
 	min,
 	max,
+	getTableName,
 	type SQL
 } from 'drizzle-orm';
+import { createHash } from 'node:crypto';
 import { getDatabase } from './database.js';
+import { tags } from '../cache/index.js';
 import { RelationshipLoader } from './relationships.js';
 import type { Model } from './model.js';
 import type { PgTable, PgColumn } from 'drizzle-orm/pg-core';
@@ -38,6 +41,9 @@ export class QueryBuilder<T extends typeof Model> {
 	private groupByColumns: any[] = [];
 	private havingConditions: any[] = [];
 	private joins: any[] = [];
+	// Tables read by whereExists() / whereIn() subqueries, for cache tags
+	private subqueryTables: PgTable[] = [];
+	private cacheSeconds: number | null = null;
 
 	constructor(modelClass: T) {
 		this.modelClass = modelClass;
@@ -87,12 +93,14 @@ export class QueryBuilder<T extends typeof Model> {
 
 	whereExists(callback: (query: QueryBuilder<any>) => QueryBuilder<any>) {
 		const subquery = callback(new QueryBuilder(this.modelClass));
+		this.subqueryTables.push(...subquery.queriedTables());
 		this.queryBuilder = this.queryBuilder.where(exists(subquery.queryBuilder));
 		return this;
 	}
 
 	whereNotExists(callback: (query: QueryBuilder<any>) => QueryBuilder<any>) {
 		const subquery = callback(new QueryBuilder(this.modelClass));
+		this.subqueryTables.push(...subquery.queriedTables());
 		this.queryBuilder = this.queryBuilder.where(notExists(subquery.queryBuilder));
 		return this;
 	}
@@ -101,6 +109,7 @@ export class QueryBuilder<T extends typeof Model> {
 		const tableColumn = (this.modelClass.table as any)[column];
 
 		if (values instanceof QueryBuilder) {
+			this.subqueryTables.push(...values.queriedTables());
 			this.queryBuilder = this.queryBuilder.where(inArray(tableColumn, values.queryBuilder));
 		} else {
 			this.queryBuilder = this.queryBuilder.where(inArray(tableColumn, values));
@@ -283,9 +292,21 @@ export class QueryBuilder<T extends typeof Model> {
 		return this.offset(count);
 	}
 
+	/**
+	 * Cache the rows this query returns for `seconds`, keyed by the compiled
+	 * SQL and its bindings. Saving or deleting a model on any queried table
+	 * (joined, or read by a `whereExists()` / `whereIn()` subquery) invalidates
+	 * the entry. Non-memory cache drivers store rows as JSON, so dates come
+	 * back as strings unless the model casts them.
+	 */
+	cache(seconds: number) {
+		this.cacheSeconds = seconds;
+		return this;
+	}
+
 	// Execution methods
 	async get(): Promise<InstanceType<T>[]> {
-		const results = await this.queryBuilder;
+		const results = await this.fetchRows();
 		const models: InstanceType<T>[] = results.map((row: Record<string, any>) =>
 			this.newFromBuilder(row)
 		);
@@ -298,7 +319,7 @@ export class QueryBuilder<T extends typeof Model> {
 	}
 
 	async first(): Promise<InstanceType<T> | null> {
-		const result = await this.limit(1).queryBuilder;
+		const result = await this.limit(1).fetchRows();
 		return result[0] ? this.newFromBuilder(result[0]) : null;
 	}
 
@@ -376,6 +397,7 @@ export class QueryBuilder<T extends typeof Model> {
 
 	// Joins
 	join(table: PgTable, firstColumn: string, operator: string, secondColumn: string) {
+		this.joins.push(table);
 		this.queryBuilder = this.queryBuilder.innerJoin(
 			table,
 			eq((this.modelClass.table as any)[firstColumn], (table as any)[secondColumn])
@@ -384,6 +406,7 @@ export class QueryBuilder<T extends typeof Model> {
 	}
 
 	leftJoin(table: PgTable, firstColumn: string, operator: string, secondColumn: string) {
+		this.joins.push(table);
 		this.queryBuilder = this.queryBuilder.leftJoin(
 			table,
 			eq((this.modelClass.table as any)[firstColumn], (table as any)[secondColumn])
@@ -480,6 +503,24 @@ export class QueryBuilder<T extends typeof Model> {
 		}
 	}
 
+	private async fetchRows(): Promise<Record<string, any>[]> {
+		if (this.cacheSeconds === null) return await this.queryBuilder;
+
+		const { sql: text, params } = this.queryBuilder.toSQL();
+		const hash = createHash('sha1')
+			.update(JSON.stringify([text, params]))
+			.digest('hex');
+		return tags(this.queriedTables().map(queryCacheTag)).remember(
+			`query:${hash}`,
+			this.cacheSeconds,
+			async () => await this.queryBuilder
+		);
+	}
+
+	private queriedTables(): PgTable[] {
+		return [this.modelClass.table, ...this.joins, ...this.subqueryTables];
+	}
+
 	private buildCondition(column: string, operator: string, value: any) {
 		const tableColumn = (this.modelClass.table as any)[column];
 
@@ -519,3 +560,10 @@ export class QueryBuilder<T extends typeof Model> {
 		return instance;
 	}
 }
+
+/**
+ * Cache tag shared by every cached query that reads from `table`
+ */
+export function queryCacheTag(table: PgTable): string {
+	return `db:${getTableName(table)}`;
+}
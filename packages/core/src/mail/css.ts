@@ -0,0 +1,267 @@
+/**
+ * Minimal CSS inliner for rendered mail.
+ *
+ * Many mail clients drop `<style>` blocks, so rules are copied onto the
+ * `style` attribute of each element they match. Supported selectors are
+ * compounds of tag, class and id (including Svelte's `.svelte-xyz` scoping
+ * and `:where()` wrapper) joined by descendant or child combinators. Rules
+ * that can't be inlined (media queries, pseudo-classes, attribute
+ * selectors) are kept in a single `<style>` block in the head.
+ */
+
+interface Compound {
+	tag?: string;
+	id?: string;
+	classes: string[];
+}
+
+interface Selector {
+	/** Compounds from left to right, with the combinator before each one */
+	parts: { compound: Compound; combinator: ' ' | '>' }[];
+	specificity: number;
+}
+
+interface Rule {
+	selector: Selector;
+	declarations: [string, string, boolean][];
+	order: number;
+}
+
+interface Element {
+	tag: string;
+	id?: string;
+	classes: string[];
+}
+
+const VOID_ELEMENTS = new Set([
+	'area',
+	'base',
+	'br',
+	'col',
+	'embed',
+	'hr',
+	'img',
+	'input',
+	'link',
+	'meta',
+	'source',
+	'track',
+	'wbr'
+]);
+
+const TAG = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+/**
+ * Move the document's `<style>` rules onto matching elements
+ */
+export function inlineCss(html: string): string {
+	let css = '';
+	html = html.replace(/<style[^>]*>([\s\S]*?)<\/style>/gi, (_, content: string) => {
+		css += `${content}\n`;
+		return '';
+	});
+	if (!css.trim()) return html;
+
+	const { rules, retained } = parseStylesheet(css);
+	const stack: Element[] = [];
+
+	html = html.replace(TAG, (tag, closing: string, name: string, attributes: string) => {
+		if (!name) return tag; // comment
+		const lower = name.toLowerCase();
+
+		if (closing) {
+			const index = stack.map((element) => element.tag).lastIndexOf(lower);
+			if (index !== -1) stack.length = index;
+			return tag;
+		}
+
+		const element: Element = {
+			tag: lower,
+			id: attribute(attributes, 'id'),
+			classes: (attribute(attributes, 'class') ?? '').split(/\s+/).filter(Boolean)
+		};
+		const matched = rules.filter((rule) => matches(rule.selector, element, stack));
+		const selfClosing = /\/\s*$/.test(attributes);
+		if (!VOID_ELEMENTS.has(lower) && !selfClosing) stack.push(element);
+		if (matched.length === 0) return tag;
+
+		const style = mergeDeclarations(matched, attribute(attributes, 'style'));
+		const rest = attributes.replace(/\s+style\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, '');
+		const trailing = selfClosing ? ' /' : '';
+		return `<${name}${rest.replace(/\s*\/\s*$/, '')} style="${style.replace(/"/g, '&quot;')}"${trailing}>`;
+	});
+
+	if (retained.length) {
+		const block = `<style>${retained.join('\n')}</style>`;
+		html = /<\/head>/i.test(html) ? html.replace(/<\/head>/i, `${block}</head>`) : block + html;
+	}
+	return html;
+}
+
+function parseStylesheet(css: string): { rules: Rule[]; retained: string[] } {
+	css = css.replace(/\/\*[\s\S]*?\*\//g, '');
+	const rules: Rule[] = [];
+	const retained: string[] = [];
+
+	let position = 0;
+	while (position < css.length) {
+		const open = css.indexOf('{', position);
+		if (open === -1) break;
+		const prelude = css.slice(position, open).trim();
+
+		// Find the matching brace so at-rules with nested blocks stay whole
+		let depth = 1;
+		let close = open + 1;
+		for (; close < css.length && depth > 0; close++) {
+			if (css[close] === '{') depth++;
+			else if (css[close] === '}') depth--;
+		}
+		const body = css.slice(open + 1, close - 1);
+		position = close;
+
+		if (prelude.startsWith('@')) {
+			retained.push(`${prelude}{${body}}`);
+			continue;
+		}
+
+		const declarations = parseDeclarations(body);
+		for (const text of prelude.split(',')) {
+			const selector = parseSelector(text.trim());
+			if (selector) rules.push({ selector, declarations, order: rules.length });
+			else retained.push(`${text.trim()}{${body}}`);
+		}
+	}
+
+	return { rules, retained };
+}
+
+function parseDeclarations(body: string): [string, string, boolean][] {
+	return body
+		.split(';')
+		.map((declaration) => {
+			const colon = declaration.indexOf(':');
+			if (colon === -1) return null;
+			const property = declaration.slice(0, colon).trim().toLowerCase();
+			let value = declaration.slice(colon + 1).trim();
+			const important = /!important$/i.test(value);
+			if (important) value = value.replace(/\s*!important$/i, '');
+			return property && value ? ([property, value, important] as [string, string, boolean]) : null;
+		})
+		.filter((declaration) => declaration !== null);
+}
+
+/**
+ * Parse a selector, or return null when it needs more than this inliner supports
+ */
+function parseSelector(text: string): Selector | null {
+	// `:where()` adds no specificity; Svelte wraps scoping classes in it
+	const specificityText = text.replace(/:where\(([^)]*)\)/g, '');
+	const plain = text.replace(/:where\(([^)]*)\)/g, '$1');
+	if (!plain || /[:[*~+]/.test(plain)) return null;
+
+	const parts: Selector['parts'] = [];
+	for (const token of plain.replace(/\s*>\s*/g, ' > ').split(/\s+/)) {
+		if (token === '>') {
+			if (parts.length === 0) return null;
+			parts.push({ compound: { classes: [] }, combinator: '>' });
+			continue;
+		}
+
+		const match = /^([a-zA-Z][\w-]*)?((?:[.#][\w-]+)*)$/.exec(token);
+		if (!match) return null;
+		const compound: Compound = { tag: match[1]?.toLowerCase(), classes: [] };
+		for (const [, kind, name] of match[2].matchAll(/([.#])([\w-]+)/g)) {
+			if (kind === '#') compound.id = name;
+			else compound.classes.push(name);
+		}
+
+		// A `>` placeholder takes the compound that follows it
+		const last = parts.at(-1);
+		if (last?.combinator === '>' && !last.compound.tag && !last.compound.classes.length) {
+			last.compound = compound;
+		} else {
+			parts.push({ compound, combinator: ' ' });
+		}
+	}
+
+	const ids = (specificityText.match(/#[\w-]+/g) ?? []).length;
+	const classes = (specificityText.match(/\.[\w-]+/g) ?? []).length;
+	const tags = (specificityText.match(/(^|[\s>])[a-zA-Z]/g) ?? []).length;
+	return { parts, specificity: ids * 10_000 + classes * 100 + tags };
+}
+
+function matches(selector: Selector, element: Element, ancestors: Element[]): boolean {
+	const { parts } = selector;
+	if (!matchesCompound(parts[parts.length - 1].compound, element)) return false;
+	return matchesAncestors(parts, parts.length - 1, ancestors, ancestors.length);
+}
+
+/**
+ * Match `parts` before `index` against the elements above `ancestors[depth]`
+ */
+function matchesAncestors(
+	parts: Selector['parts'],
+	index: number,
+	ancestors: Element[],
+	depth: number
+): boolean {
+	if (index === 0) return true;
+	const previous = parts[index - 1].compound;
+
+	if (parts[index].combinator === '>') {
+		return (
+			depth > 0 &&
+			matchesCompound(previous, ancestors[depth - 1]) &&
+			matchesAncestors(parts, index - 1, ancestors, depth - 1)
+		);
+	}
+	for (let i = depth - 1; i >= 0; i--) {
+		if (
+			matchesCompound(previous, ancestors[i]) &&
+			matchesAncestors(parts, index - 1, ancestors, i)
+		) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function matchesCompound(compound: Compound, element: Element): boolean {
+	if (compound.tag && compound.tag !== element.tag) return false;
+	if (compound.id && compound.id !== element.id) return false;
+	return compound.classes.every((name) => element.classes.includes(name));
+}
+
+/**
+ * Cascade matched rules (specificity, then `!important`, then source order)
+ * and let the element's own inline style win over stylesheet rules
+ */
+function mergeDeclarations(rules: Rule[], inline: string | undefined): string {
+	const merged = new Map<string, { value: string; important: boolean }>();
+	const sorted = [...rules].sort(
+		(a, b) => a.selector.specificity - b.selector.specificity || a.order - b.order
+	);
+
+	for (const rule of sorted) {
+		for (const [property, value, important] of rule.declarations) {
+			const existing = merged.get(property);
+			if (existing?.important && !important) continue;
+			merged.delete(property);
+			merged.set(property, { value, important });
+		}
+	}
+	for (const [property, value] of parseDeclarations(inline ?? '')) {
+		if (merged.get(property)?.important) continue;
+		merged.delete(property);
+		merged.set(property, { value, important: false });
+	}
+
+	return [...merged].map(([property, { value }]) => `${property}: ${value}`).join('; ');
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+	const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(
+		attributes
+	);
+	return match ? (match[2] ?? match[3] ?? match[4]) : undefined;
+}
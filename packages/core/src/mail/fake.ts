@@ -0,0 +1,80 @@
+import type { MailTransport, OutgoingMessage, SendResult } from './types.js';
+
+export type MailPredicate = (message: OutgoingMessage) => boolean;
+
+/**
+ * Records mail instead of sending it, installed with `Mail.fake()`.
+ * Assertions throw a plain `Error`, so they work with any test runner.
+ */
+export class MailFake implements MailTransport {
+	private messages: OutgoingMessage[] = [];
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		this.messages.push(message);
+		return { success: true, messageId: `fake-${this.messages.length}` };
+	}
+
+	/**
+	 * Recorded messages, oldest first, optionally filtered
+	 */
+	sent(predicate?: MailPredicate): OutgoingMessage[] {
+		return predicate ? this.messages.filter(predicate) : [...this.messages];
+	}
+
+	/**
+	 * The most recently recorded message
+	 */
+	get last(): OutgoingMessage | undefined {
+		return this.messages.at(-1);
+	}
+
+	assertSent(predicate?: MailPredicate): void {
+		if (this.sent(predicate).length === 0) {
+			throw new Error(
+				`📧 [Mail] Expected ${predicate ? 'a matching message' : 'a message'} to be sent, but none was. ${this.summary()}`
+			);
+		}
+	}
+
+	assertNotSent(predicate: MailPredicate): void {
+		const matching = this.sent(predicate);
+		if (matching.length > 0) {
+			throw new Error(
+				`📧 [Mail] Expected no matching message to be sent, but ${matching.length} ${matching.length === 1 ? 'was' : 'were'}. ${this.summary(matching)}`
+			);
+		}
+	}
+
+	assertSentCount(count: number, predicate?: MailPredicate): void {
+		const actual = this.sent(predicate).length;
+		if (actual !== count) {
+			throw new Error(
+				`📧 [Mail] Expected ${count} ${predicate ? 'matching ' : ''}message(s) to be sent, but ${actual} ${actual === 1 ? 'was' : 'were'}. ${this.summary()}`
+			);
+		}
+	}
+
+	assertNothingSent(): void {
+		if (this.messages.length > 0) {
+			throw new Error(
+				`📧 [Mail] Expected no mail to be sent, but ${this.messages.length} message(s) were. ${this.summary()}`
+			);
+		}
+	}
+
+	/**
+	 * Forget recorded messages
+	 */
+	clear(): void {
+		this.messages = [];
+	}
+
+	private summary(messages = this.messages): string {
+		if (messages.length === 0) return 'Nothing was sent.';
+		const lines = messages.map((message) => {
+			const to = Array.isArray(message.to) ? message.to.join(', ') : message.to;
+			return `  - '${message.subject}' to ${to}`;
+		});
+		return `Sent:\n${lines.join('\n')}`;
+	}
+}
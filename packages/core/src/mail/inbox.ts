@@ -0,0 +1,260 @@
+import { randomUUID } from 'node:crypto';
+import { buildMessage, createMessageId, toList } from './mime.js';
+import type { CaughtMail, MailInbox, OutgoingMessage } from './types.js';
+
+/**
+ * The inbox of the most recently created catching transport. It lives on
+ * globalThis so the dev server's inbox route sees mail caught by the app's
+ * copy of this module, and so caught mail survives HMR reloads.
+ */
+const INBOX = Symbol.for('omni-svelte.mail.inbox');
+
+type InboxGlobal = typeof globalThis & { [INBOX]?: MailInbox };
+
+export function setActiveInbox(inbox: MailInbox): void {
+	(globalThis as InboxGlobal)[INBOX] = inbox;
+}
+
+export function getActiveInbox(): MailInbox | null {
+	return (globalThis as InboxGlobal)[INBOX] ?? null;
+}
+
+/**
+ * Render a message the way a real transport would and keep everything the
+ * inbox shows
+ */
+export function catchMessage(message: OutgoingMessage): CaughtMail {
+	const messageId = createMessageId(message.from);
+	const raw = buildMessage(message, messageId);
+
+	return {
+		// Sortable by time, so listing newest first is a string sort
+		id: `${Date.now().toString(36).padStart(9, '0')}-${randomUUID().slice(0, 8)}`,
+		messageId,
+		date: new Date().toISOString(),
+		from: message.from,
+		to: toList(message.to),
+		cc: toList(message.cc),
+		bcc: toList(message.bcc),
+		replyTo: message.replyTo,
+		subject: message.subject,
+		html: message.html,
+		text: message.text,
+		headers: parseHeaders(raw),
+		attachments: (message.attachments ?? []).map((attachment) => {
+			const content = Buffer.isBuffer(attachment.content)
+				? attachment.content
+				: Buffer.from(attachment.content, 'utf-8');
+			return {
+				filename: attachment.filename,
+				contentType: attachment.contentType ?? 'application/octet-stream',
+				size: content.length,
+				content: content.toString('base64')
+			};
+		}),
+		raw
+	};
+}
+
+function parseHeaders(raw: string): Record<string, string> {
+	const block = raw.slice(0, raw.indexOf('\r\n\r\n'));
+	const headers: Record<string, string> = {};
+	// Folded lines continue the previous header
+	for (const line of block.replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+		const colon = line.indexOf(':');
+		if (colon > 0) headers[line.slice(0, colon)] = line.slice(colon + 1).trim();
+	}
+	return headers;
+}
+
+// ─── Dev Inbox UI ────────────────────────────────────────────────────────────
+
+export const MAIL_INBOX_PATH = '/__omni/mail';
+
+/**
+ * Serve the dev inbox: a message list with previews at `basePath`, plus
+ *
+ *   GET  {basePath}/api/messages              caught mail as JSON (newest first)
+ *   GET  {basePath}/messages/:id/raw           the MIME source
+ *   GET  {basePath}/messages/:id/attachments/:n
+ *   POST {basePath}/clear
+ */
+export async function serveInbox(
+	request: Request,
+	inbox: MailInbox | null,
+	basePath: string
+): Promise<Response> {
+	const url = new URL(request.url);
+	const path = url.pathname.slice(basePath.length).replace(/\/$/, '');
+
+	if (request.method === 'POST' && path === '/clear') {
+		await inbox?.clear();
+		return new Response(null, { status: 303, headers: { Location: basePath } });
+	}
+	if (request.method !== 'GET') return new Response('Method not allowed', { status: 405 });
+
+	if (path === '/api/messages') {
+		return Response.json((await inbox?.list()) ?? []);
+	}
+
+	const match = /^\/messages\/([\w-]+)(?:\/(raw)|\/attachments\/(\d+))?$/.exec(path);
+	if (match) {
+		const message = await inbox?.find(match[1]);
+		if (!message) return new Response('Message not found', { status: 404 });
+
+		if (match[2] === 'raw') {
+			return new Response(message.raw, {
+				headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+			});
+		}
+		if (match[3] !== undefined) {
+			const attachment = message.attachments[Number(match[3])];
+			if (!attachment) return new Response('Attachment not found', { status: 404 });
+			return new Response(Buffer.from(attachment.content, 'base64'), {
+				headers: {
+					'Content-Type': attachment.contentType,
+					'Content-Disposition': `attachment; filename="${attachment.filename.replace(/["\\\r\n]/g, '_')}"`
+				}
+			});
+		}
+		return Response.redirect(new URL(`${basePath}?id=${message.id}`, url), 303);
+	}
+
+	if (path !== '') return new Response('Not found', { status: 404 });
+
+	const messages = (await inbox?.list()) ?? [];
+	const selected =
+		messages.find((message) => message.id === url.searchParams.get('id')) ?? messages[0];
+	return new Response(renderInboxPage(basePath, messages, selected, inbox !== null), {
+		headers: { 'Content-Type': 'text/html; charset=utf-8' }
+	});
+}
+
+function renderInboxPage(
+	basePath: string,
+	messages: CaughtMail[],
+	selected: CaughtMail | undefined,
+	catching: boolean
+): string {
+	const list = messages
+		.map(
+			(message) => `
+			<a class="item${message === selected ? ' active' : ''}" href="${basePath}?id=${message.id}">
+				<strong>${escape(message.subject || '(no subject)')}</strong>
+				<span>${escape(message.to.join(', '))}</span>
+				<time>${escape(new Date(message.date).toLocaleString())}</time>
+			</a>`
+		)
+		.join('');
+
+	const empty = catching
+		? 'No mail yet. Messages sent by the app show up here.'
+		: "No mail caught yet. Set <code>provider: 'memory'</code> or <code>provider: 'file'</code> in <code>configureMail()</code> to keep sent mail here during development.";
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+	<meta charset="utf-8">
+	<title>Mail · omni-svelte</title>
+	<style>
+		* { box-sizing: border-box; }
+		body { margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #18181b; display: flex; height: 100vh; }
+		aside { width: 320px; border-right: 1px solid #e4e4e7; overflow-y: auto; flex-shrink: 0; }
+		header { display: flex; align-items: center; justify-content: space-between; padding: 12px 16px; border-bottom: 1px solid #e4e4e7; }
+		header h1 { font-size: 16px; margin: 0; }
+		button { font: inherit; padding: 4px 10px; border: 1px solid #d4d4d8; border-radius: 4px; background: #fff; cursor: pointer; }
+		.item { display: block; padding: 10px 16px; border-bottom: 1px solid #f4f4f5; color: inherit; text-decoration: none; }
+		.item span, .item time { display: block; color: #71717a; font-size: 12px; }
+		.item.active { background: #f4f4f5; }
+		main { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+		.meta { padding: 12px 16px; border-bottom: 1px solid #e4e4e7; }
+		.meta h2 { font-size: 18px; margin: 0 0 8px; }
+		.meta dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; margin: 0; }
+		.meta dt { color: #71717a; }
+		.meta dd { margin: 0; word-break: break-all; }
+		.tabs { display: flex; gap: 4px; padding: 8px 16px 0; border-bottom: 1px solid #e4e4e7; }
+		.tabs label, .tabs a { padding: 6px 12px; cursor: pointer; border-radius: 4px 4px 0 0; }
+		.tabs a { margin-left: auto; }
+		main > input { display: none; }
+		#tab-html:checked ~ .tabs [for=tab-html], #tab-text:checked ~ .tabs [for=tab-text], #tab-headers:checked ~ .tabs [for=tab-headers] { background: #f4f4f5; font-weight: 600; }
+		.panels { flex: 1; display: flex; flex-direction: column; }
+		.panel { display: none; flex: 1; overflow: auto; }
+		#tab-html:checked ~ .panels .html, #tab-text:checked ~ .panels .text, #tab-headers:checked ~ .panels .headers { display: block; }
+		iframe { width: 100%; height: 100%; border: 0; }
+		pre { margin: 0; padding: 16px; white-space: pre-wrap; word-break: break-word; }
+		.empty { padding: 32px; color: #71717a; }
+	</style>
+</head>
+<body>
+	<aside>
+		<header>
+			<h1>Mail (${messages.length})</h1>
+			<form method="post" action="${basePath}/clear"><button>Clear</button></form>
+		</header>
+		${list || `<p class="empty">${empty}</p>`}
+	</aside>
+	<main>${selected ? renderMessage(basePath, selected) : ''}</main>
+</body>
+</html>`;
+}
+
+function renderMessage(basePath: string, message: CaughtMail): string {
+	const link = `${basePath}/messages/${message.id}`;
+	const rows: [string, string][] = [
+		['From', message.from],
+		['To', message.to.join(', ')],
+		...(message.cc.length ? ([['Cc', message.cc.join(', ')]] as [string, string][]) : []),
+		...(message.bcc.length ? ([['Bcc', message.bcc.join(', ')]] as [string, string][]) : []),
+		...(message.replyTo ? ([['Reply-To', message.replyTo]] as [string, string][]) : []),
+		['Date', new Date(message.date).toLocaleString()]
+	];
+	const attachments = message.attachments
+		.map(
+			(attachment, index) =>
+				`<a href="${link}/attachments/${index}">${escape(attachment.filename)}</a> (${formatSize(attachment.size)})`
+		)
+		.join(', ');
+	const headers = Object.entries(message.headers)
+		.map(([name, value]) => `${name}: ${value}`)
+		.join('\n');
+	const hasHtml = message.html !== undefined;
+	// Inline in a sandbox, never served from the app's origin; links open outside the frame
+	const preview = `<base target="_blank">${message.html ?? ''}`;
+
+	return `
+		<div class="meta">
+			<h2>${escape(message.subject || '(no subject)')}</h2>
+			<dl>
+				${rows.map(([name, value]) => `<dt>${name}</dt><dd>${escape(value)}</dd>`).join('')}
+				${attachments ? `<dt>Attachments</dt><dd>${attachments}</dd>` : ''}
+			</dl>
+		</div>
+		<input type="radio" name="tab" id="tab-html"${hasHtml ? ' checked' : ' disabled'}>
+		<input type="radio" name="tab" id="tab-text"${hasHtml ? '' : ' checked'}>
+		<input type="radio" name="tab" id="tab-headers">
+		<div class="tabs">
+			${hasHtml ? '<label for="tab-html">HTML</label>' : ''}
+			<label for="tab-text">Text</label>
+			<label for="tab-headers">Headers</label>
+			<a href="${link}/raw" target="_blank">Raw</a>
+		</div>
+		<div class="panels">
+			<div class="panel html">${hasHtml ? `<iframe sandbox="allow-popups allow-popups-to-escape-sandbox" srcdoc="${escape(preview)}"></iframe>` : ''}</div>
+			<div class="panel text"><pre>${escape(message.text ?? '')}</pre></div>
+			<div class="panel headers"><pre>${escape(headers)}</pre></div>
+		</div>`;
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function escape(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
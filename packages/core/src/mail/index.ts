@@ -5,45 +5,104 @@
  * multiple providers (SMTP, Resend, SendGrid, etc.)
  */
 
+import { randomUUID } from 'node:crypto';
+import type { Component } from 'svelte';
+import { get, isCacheShared, set } from '../cache/index.js';
+import {
+	defineJob,
+	dispatch,
+	getQueueDriver,
+	isQueueConfigured,
+	MemoryQueueDriver,
+	PermanentJobError
+} from '../queue/index.js';
+import { MailFake } from './fake.js';
+import { getActiveInbox, MAIL_INBOX_PATH, serveInbox } from './inbox.js';
+import { InvalidMailAddressError, InvalidMailHeaderError, toList } from './mime.js';
+import { renderMail, type RenderedMail } from './render.js';
+import { ConsoleTransport } from './transports/console.js';
+import { FileTransport } from './transports/file.js';
+import { MailProviderError } from './transports/http.js';
+import { MemoryTransport } from './transports/memory.js';
+import { PostmarkTransport } from './transports/postmark.js';
+import { ResendTransport } from './transports/resend.js';
+import { SendGridTransport } from './transports/sendgrid.js';
+import { SesTransport } from './transports/ses.js';
+import { SmtpError, SmtpTransport } from './transports/smtp.js';
+import type {
+	AuthMailTemplates,
+	MailAttachment,
+	MailConfig,
+	MailInbox,
+	MailMessage,
+	MailStatus,
+	MailTransport,
+	MailTransportFactory,
+	QueueMailOptions,
+	SendResult
+} from './types.js';
+
 // Types
-export interface MailConfig {
-	provider: 'smtp' | 'resend' | 'sendgrid' | 'postmark' | 'ses' | 'console';
-	from?: string;
-	replyTo?: string;
-	smtp?: {
-		host: string;
-		port: number;
-		secure?: boolean;
-		auth?: {
-			user: string;
-			pass: string;
-		};
-	};
-	apiKey?: string;
-}
+export type {
+	AuthMailTemplates,
+	CaughtMail,
+	MailAttachment,
+	MailConfig,
+	MailInbox,
+	MailMessage,
+	MailStatus,
+	MailTransport,
+	MailTransportFactory,
+	OutgoingMessage,
+	QueueMailOptions,
+	SendResult,
+	SesOptions,
+	SmtpOptions
+} from './types.js';
+export { htmlToText, renderMail, type RenderedMail } from './render.js';
+export { inlineCss } from './css.js';
+export { MailFake, type MailPredicate } from './fake.js';
+export { MAIL_INBOX_PATH } from './inbox.js';
+export { InvalidMailAddressError, InvalidMailHeaderError } from './mime.js';
+export { ConsoleTransport } from './transports/console.js';
+export { FileTransport } from './transports/file.js';
+export { MailProviderError } from './transports/http.js';
+export { MemoryTransport } from './transports/memory.js';
+export { PostmarkTransport } from './transports/postmark.js';
+export { ResendTransport } from './transports/resend.js';
+export { SendGridTransport } from './transports/sendgrid.js';
+export { SesTransport } from './transports/ses.js';
+export { SmtpError, SmtpTransport } from './transports/smtp.js';
 
-export interface MailMessage {
-	to: string | string[];
-	subject: string;
-	html?: string;
-	text?: string;
-	from?: string;
-	replyTo?: string;
-	cc?: string | string[];
-	bcc?: string | string[];
-	attachments?: MailAttachment[];
-}
+// Transport registry
+const transportFactories = new Map<string, MailTransportFactory>([
+	['console', () => new ConsoleTransport()],
+	['memory', () => new MemoryTransport()],
+	['file', (config) => new FileTransport(config.file?.path)],
+	[
+		'smtp',
+		(config) => {
+			if (!config.smtp) throw new Error("📧 [Mail] Provider 'smtp' needs the `smtp` option");
+			return new SmtpTransport(config.smtp);
+		}
+	],
+	['resend', (config) => new ResendTransport(requireApiKey(config))],
+	['sendgrid', (config) => new SendGridTransport(requireApiKey(config))],
+	['postmark', (config) => new PostmarkTransport(requireApiKey(config))],
+	[
+		'ses',
+		(config) => {
+			if (!config.ses) throw new Error("📧 [Mail] Provider 'ses' needs the `ses` option");
+			return new SesTransport(config.ses);
+		}
+	]
+]);
 
-export interface MailAttachment {
-	filename: string;
-	content: string | Buffer;
-	contentType?: string;
-}
-
-export interface SendResult {
-	success: boolean;
-	messageId?: string;
-	error?: string;
+function requireApiKey(config: MailConfig): string {
+	if (!config.apiKey) {
+		throw new Error(`📧 [Mail] Provider '${config.provider}' needs the \`apiKey\` option`);
+	}
+	return config.apiKey;
 }
 
 // Default config - logs to console in development
@@ -51,39 +110,400 @@ let mailConfig: MailConfig = {
 	provider: 'console'
 };
 
+let activeTransport: MailTransport | null = null;
+let fakeTransport: MailFake | null = null;
+
 /**
  * Configure the mail system
  */
 export function configureMail(config: MailConfig): void {
 	mailConfig = { ...mailConfig, ...config };
+	releaseTransport();
+}
+
+/**
+ * Register a custom transport that can be selected with `provider: name`
+ */
+export function registerMailTransport(name: string, factory: MailTransportFactory): void {
+	transportFactories.set(name, factory);
+	if (mailConfig.provider === name) releaseTransport();
+}
+
+/**
+ * Get the transport for the configured provider (created on first use)
+ */
+export function getMailTransport(): MailTransport {
+	if (fakeTransport) return fakeTransport;
+	if (activeTransport) return activeTransport;
+
+	const factory = transportFactories.get(mailConfig.provider);
+	if (!factory) {
+		throw new Error(
+			`📧 [Mail] Provider '${mailConfig.provider}' is not registered. Use registerMailTransport() to add it.`
+		);
+	}
+
+	activeTransport = factory(mailConfig);
+	return activeTransport;
+}
+
+/**
+ * Close connections held by the active transport (e.g. before process exit)
+ */
+export async function disconnectMail(): Promise<void> {
+	const transport = activeTransport;
+	activeTransport = null;
+	await transport?.close?.();
+}
+
+function releaseTransport() {
+	disconnectMail().catch((error) =>
+		console.error('📧 [Mail] Failed to close previous transport:', error)
+	);
+}
+
+/**
+ * Swap the mail transport for a recorder in tests
+ *
+ * ```ts
+ * const mail = Mail.fake();
+ * await registerUser({ email: 'ana@example.com' });
+ * mail.assertSent((message) => message.to === 'ana@example.com');
+ * Mail.restore();
+ * ```
+ */
+export class Mail {
+	/**
+	 * Record all mail from now on, including queued mail, which is recorded
+	 * straight away instead of going through the queue
+	 */
+	static fake(): MailFake {
+		fakeTransport = new MailFake();
+		return fakeTransport;
+	}
+
+	/**
+	 * Go back to the configured provider
+	 */
+	static restore(): void {
+		fakeTransport = null;
+	}
+}
+
+/**
+ * Caught mail when the `memory` or `file` provider (or a custom transport
+ * implementing `MailInbox`) is configured, otherwise the last inbox in use
+ */
+export function getMailInbox(): MailInbox | null {
+	if (transportFactories.has(mailConfig.provider)) {
+		const transport = getMailTransport() as MailTransport & Partial<MailInbox>;
+		if (transport.list && transport.find && transport.clear) return transport as MailInbox;
+	}
+	return getActiveInbox();
+}
+
+/**
+ * Handle a request for the dev inbox UI mounted at `basePath` (the Vite
+ * plugin serves it at `/__omni/mail` during `vite dev`)
+ */
+export function handleMailInbox(request: Request, basePath = MAIL_INBOX_PATH): Promise<Response> {
+	return serveInbox(request, getMailInbox(), basePath);
 }
 
 /**
  * Send an email
  */
 export async function sendMail(message: MailMessage): Promise<SendResult> {
+	try {
+		return await deliver(message);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		console.error(`📧 [Mail] Failed to send '${message.subject}':`, reason);
+		const code = errorCode(error);
+		return { success: false, error: reason, ...(code && { errorCode: code }) };
+	}
+}
+
+/**
+ * Hand a message to the transport, throwing when it can't be delivered
+ */
+async function deliver(message: MailMessage): Promise<SendResult> {
 	const from = message.from || mailConfig.from || 'noreply@localhost';
+	const replyTo = message.replyTo || mailConfig.replyTo;
+
+	const result = await getMailTransport().send({ ...message, from, ...(replyTo && { replyTo }) });
+	if (!result.success) throw new Error(result.error ?? 'Transport reported a failed send');
+	return result;
+}
 
-	if (mailConfig.provider === 'console') {
-		console.log('📧 [Mail - Console Provider]');
-		console.log(`   From: ${from}`);
-		console.log(`   To: ${Array.isArray(message.to) ? message.to.join(', ') : message.to}`);
-		console.log(`   Subject: ${message.subject}`);
-		if (message.text) console.log(`   Body: ${message.text.substring(0, 200)}...`);
-		return { success: true, messageId: `console-${Date.now()}` };
+function errorCode(error: unknown): string | undefined {
+	return error instanceof MailProviderError || error instanceof SmtpError
+		? String(error.code)
+		: undefined;
+}
+
+// ─── Queued Mail ─────────────────────────────────────────────────────────────
+
+const MAIL_JOB = 'omni:send-mail';
+const STATUS_TTL = 7 * 24 * 3600;
+
+const QUEUE_DEFAULTS: QueueMailOptions = {
+	attempts: 5,
+	backoff: { type: 'exponential', delay: 10_000, maxDelay: 600_000, jitter: true }
+};
+
+/** Attachments are stored as base64 so payloads survive JSON serialization */
+type QueuedMessage = Omit<MailMessage, 'attachments'> & {
+	attachments?: (Omit<MailAttachment, 'content'> & { content: string; base64?: boolean })[];
+};
+
+interface QueuedMail {
+	id: string;
+	message: QueuedMessage;
+}
+
+/**
+ * Send an email from a queue worker instead of the current request.
+ * Transient failures (network errors, SMTP 4xx, HTTP 408/429/5xx) are retried
+ * with backoff; rejections fail the job straight away. Resolves the id to
+ * look up with `getMailStatus()`.
+ *
+ * Workers pick up the handler when they import `omni-svelte/mail`, which the
+ * jobs file does anyway to call `configureMail()`.
+ */
+export async function queueMail(
+	message: MailMessage,
+	options: QueueMailOptions = {}
+): Promise<string> {
+	const id = randomUUID();
+	if (fakeTransport) {
+		const result = await deliver(message);
+		await recordStatus({ id, status: 'sent', attempts: 1, messageId: result.messageId });
+		return id;
 	}
+	warnUnsharedStatus();
+	await recordStatus({ id, status: 'queued', attempts: 0 });
 
-	// TODO: Implement actual providers (SMTP, Resend, SendGrid, etc.)
-	console.warn(`📧 [Mail] Provider '${mailConfig.provider}' not yet implemented. Email not sent.`);
-	return {
-		success: false,
-		error: `Provider '${mailConfig.provider}' not implemented`
+	const payload: QueuedMail = {
+		id,
+		message: {
+			...message,
+			attachments: message.attachments?.map((attachment) =>
+				Buffer.isBuffer(attachment.content)
+					? { ...attachment, content: attachment.content.toString('base64'), base64: true }
+					: { ...attachment, content: attachment.content }
+			)
+		}
 	};
+	await dispatch(MAIL_JOB, payload, {
+		...QUEUE_DEFAULTS,
+		...(mailConfig.queue || {}),
+		...options
+	});
+	return id;
+}
+
+/**
+ * Delivery state of a message queued with `queueMail()` or `Mailable.queue()`.
+ * Kept in the cache, so workers must share the cache store (e.g. Redis) with
+ * the process that reads it.
+ */
+export async function getMailStatus(id: string): Promise<MailStatus | null> {
+	return get<MailStatus>(statusKey(id));
+}
+
+defineJob<QueuedMail>(MAIL_JOB, async (job) => {
+	const { id, message } = job.data;
+	const attachments = message.attachments?.map(({ base64, ...attachment }) => ({
+		...attachment,
+		content: base64 ? Buffer.from(attachment.content, 'base64') : attachment.content
+	}));
+
+	try {
+		const result = await deliver({ ...message, attachments });
+		await recordStatus({ id, status: 'sent', attempts: job.attempts, messageId: result.messageId });
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		const transient = isTransient(error);
+		const code = errorCode(error);
+		await recordStatus({
+			id,
+			status: transient && job.attempts < job.maxAttempts ? 'retrying' : 'failed',
+			attempts: job.attempts,
+			error: reason,
+			...(code && { errorCode: code })
+		});
+		throw transient ? error : new PermanentJobError(reason, { cause: error });
+	}
+});
+
+/**
+ * Whether a failed send is worth retrying: rejected messages and bad
+ * credentials fail the same way every time
+ */
+function isTransient(error: unknown): boolean {
+	if (error instanceof InvalidMailAddressError || error instanceof InvalidMailHeaderError) {
+		return false;
+	}
+	if (error instanceof SmtpError) return error.code < 500;
+	if (error instanceof MailProviderError) {
+		return error.status === 408 || error.status === 429 || error.status >= 500;
+	}
+	return true;
+}
+
+function statusKey(id: string): string {
+	return `mail:status:${id}`;
+}
+
+let warnedUnsharedStatus = false;
+
+/**
+ * Statuses live in the cache. When a worker process sends the mail, a
+ * process-local cache keeps its updates from the process that queued it.
+ */
+function warnUnsharedStatus() {
+	if (warnedUnsharedStatus || isCacheShared()) return;
+	if (getQueueDriver() instanceof MemoryQueueDriver) return;
+	warnedUnsharedStatus = true;
+	console.warn(
+		"📧 [Mail] Queued mail is sent by queue workers, but the cache uses the process-local 'memory' driver, so getMailStatus() will not see their updates. Use configureCache({ driver: 'redis' }) or another shared store."
+	);
+}
+
+async function recordStatus(status: Omit<MailStatus, 'updatedAt'>) {
+	await set(statusKey(status.id), { ...status, updatedAt: new Date().toISOString() }, STATUS_TTL);
+}
+
+/**
+ * An email whose HTML body is a server-rendered Svelte component. The plain
+ * text part is derived from the HTML unless `text()` is overridden.
+ *
+ * @example
+ * class WelcomeMail extends Mailable<{ name: string }> {
+ *   subject() { return `Welcome, ${this.props.name}`; }
+ *   template() { return Welcome; }
+ * }
+ *
+ * await new WelcomeMail({ name: user.name }).to(user.email).send();
+ */
+export abstract class Mailable<Props extends Record<string, any> = Record<string, any>> {
+	private envelope: Omit<MailMessage, 'subject' | 'html' | 'text'> = { to: [] };
+
+	constructor(protected props: Props) {}
+
+	abstract subject(): string;
+
+	/** The component rendered as the HTML body */
+	abstract template(): Component<Props> | Promise<Component<Props>>;
+
+	/** Plain-text body, instead of the text derived from the HTML */
+	text?(): string;
+
+	to(address: string | string[]): this {
+		this.envelope.to = [...toList(this.envelope.to), ...toList(address)];
+		return this;
+	}
+
+	cc(address: string | string[]): this {
+		this.envelope.cc = [...toList(this.envelope.cc), ...toList(address)];
+		return this;
+	}
+
+	bcc(address: string | string[]): this {
+		this.envelope.bcc = [...toList(this.envelope.bcc), ...toList(address)];
+		return this;
+	}
+
+	from(address: string): this {
+		this.envelope.from = address;
+		return this;
+	}
+
+	replyTo(address: string): this {
+		this.envelope.replyTo = address;
+		return this;
+	}
+
+	attach(attachment: MailAttachment): this {
+		this.envelope.attachments = [...(this.envelope.attachments ?? []), attachment];
+		return this;
+	}
+
+	/**
+	 * Render the HTML (with inlined CSS) and plain-text bodies
+	 */
+	async render(): Promise<RenderedMail> {
+		const rendered = await renderMail(await this.template(), this.props);
+		return this.text ? { ...rendered, text: this.text() } : rendered;
+	}
+
+	/**
+	 * The message `send()` hands to the mail transport
+	 */
+	async build(): Promise<MailMessage> {
+		if (toList(this.envelope.to).length === 0) {
+			throw new Error(`📧 [Mail] ${this.constructor.name} has no recipients. Call to() first.`);
+		}
+		const { html, text } = await this.render();
+		return { ...this.envelope, subject: this.subject(), html, text };
+	}
+
+	async send(): Promise<SendResult> {
+		return sendMail(await this.build());
+	}
+
+	/**
+	 * Render now and send from a queue worker (see `queueMail()`)
+	 */
+	async queue(options?: QueueMailOptions): Promise<string> {
+		return queueMail(await this.build(), options);
+	}
 }
 
 // ─── Auth Email Helpers ──────────────────────────────────────────────────────
 // These are called by the auth generator's generated config code
 
+// Loaded lazily so the mail module can be imported without a Svelte compiler
+const defaultTemplates: {
+	[K in keyof AuthMailTemplates]: () => Promise<{ default: AuthMailTemplates[K] }>;
+} = {
+	resetPassword: () => import('./templates/ResetPassword.svelte'),
+	verifyEmail: () => import('./templates/VerifyEmail.svelte'),
+	magicLink: () => import('./templates/MagicLink.svelte'),
+	verificationOTP: () => import('./templates/VerificationOTP.svelte')
+};
+
+/**
+ * A built-in auth email, rendered with `MailConfig.templates[kind]` when the
+ * app provides one
+ */
+class AuthMail extends Mailable {
+	constructor(
+		private kind: keyof AuthMailTemplates,
+		private subjectLine: string,
+		props: Record<string, unknown>
+	) {
+		super(props);
+	}
+
+	subject() {
+		return this.subjectLine;
+	}
+
+	async template(): Promise<Component<any>> {
+		return mailConfig.templates?.[this.kind] ?? (await defaultTemplates[this.kind]()).default;
+	}
+
+	/**
+	 * Queue the email when the app has a queue, otherwise send it now
+	 */
+	async deliver(): Promise<void> {
+		if (mailConfig.queue !== false && isQueueConfigured()) await this.queue();
+		else await this.send();
+	}
+}
+
 /**
  * Send password reset email
  */
@@ -92,18 +512,9 @@ export async function sendResetPasswordEmail(
 	url: string,
 	_request?: Request
 ): Promise<void> {
-	await sendMail({
-		to: user.email,
-		subject: 'Reset Your Password',
-		html: `
-      <h2>Password Reset</h2>
-      <p>Hi${user.name ? ` ${user.name}` : ''},</p>
-      <p>You requested a password reset. Click the link below to reset your password:</p>
-      <p><a href="${url}">Reset Password</a></p>
-      <p>If you didn't request this, you can safely ignore this email.</p>
-    `,
-		text: `Reset your password: ${url}`
-	});
+	await new AuthMail('resetPassword', 'Reset Your Password', { name: user.name, url })
+		.to(user.email)
+		.deliver();
 }
 
 /**
@@ -114,37 +525,19 @@ export async function sendVerificationEmail(
 	url: string,
 	_request?: Request
 ): Promise<void> {
-	await sendMail({
-		to: user.email,
-		subject: 'Verify Your Email',
-		html: `
-      <h2>Email Verification</h2>
-      <p>Hi${user.name ? ` ${user.name}` : ''},</p>
-      <p>Please verify your email address by clicking the link below:</p>
-      <p><a href="${url}">Verify Email</a></p>
-    `,
-		text: `Verify your email: ${url}`
-	});
+	await new AuthMail('verifyEmail', 'Verify Your Email', { name: user.name, url })
+		.to(user.email)
+		.deliver();
 }
 
 /**
  * Send magic link email
  */
 export async function sendMagicLink(
-	{ email, token, url }: { email: string; token: string; url: string },
+	{ email, url }: { email: string; token: string; url: string },
 	_request?: Request
 ): Promise<void> {
-	await sendMail({
-		to: email,
-		subject: 'Your Login Link',
-		html: `
-      <h2>Magic Link Login</h2>
-      <p>Click the link below to log in:</p>
-      <p><a href="${url}">Log In</a></p>
-      <p>This link will expire shortly. If you didn't request this, you can safely ignore this email.</p>
-    `,
-		text: `Log in with this link: ${url}`
-	});
+	await new AuthMail('magicLink', 'Your Login Link', { url }).to(email).deliver();
 }
 
 /**
@@ -154,15 +547,7 @@ export async function sendVerificationOTP(
 	{ email, otp, type }: { email: string; otp: string; type: string },
 	_request?: Request
 ): Promise<void> {
-	await sendMail({
-		to: email,
-		subject: `Your Verification Code: ${otp}`,
-		html: `
-      <h2>Verification Code</h2>
-      <p>Your ${type} verification code is:</p>
-      <p style="font-size: 32px; font-weight: bold; letter-spacing: 4px;">${otp}</p>
-      <p>This code will expire shortly.</p>
-    `,
-		text: `Your ${type} verification code is: ${otp}`
-	});
+	await new AuthMail('verificationOTP', `Your Verification Code: ${otp}`, { otp, type })
+		.to(email)
+		.deliver();
 }
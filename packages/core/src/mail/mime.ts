@@ -0,0 +1,251 @@
+import { randomUUID } from 'node:crypto';
+import type { MailAttachment, OutgoingMessage } from './types.js';
+
+/**
+ * RFC 5322 / MIME message rendering for transports that send raw messages
+ * (SMTP, SES raw email).
+ *
+ * Text parts are quoted-printable so mostly-ASCII mail stays readable;
+ * attachments are base64. `html` + `text` become multipart/alternative, and
+ * attachments wrap that in multipart/mixed. Bcc recipients never appear in
+ * the headers.
+ */
+
+interface MimePart {
+	headers: string[];
+	body: string;
+}
+
+const MAX_LINE = 76;
+
+/**
+ * An address that can't be written into SMTP commands or headers safely
+ */
+export class InvalidMailAddressError extends Error {
+	constructor(readonly address: string) {
+		super(`📧 [Mail] Invalid email address: ${JSON.stringify(address)}`);
+		this.name = 'InvalidMailAddressError';
+	}
+}
+
+/**
+ * An attachment name or content type that would break out of its MIME header
+ */
+export class InvalidMailHeaderError extends Error {
+	constructor(readonly value: string) {
+		super(`📧 [Mail] Invalid attachment header value: ${JSON.stringify(value)}`);
+		this.name = 'InvalidMailHeaderError';
+	}
+}
+
+// RFC 5322 specials, which need quoting in a display name
+const SPECIALS = /[()<>[\]:;@\\,."]/;
+
+/**
+ * Render a complete message with CRLF line endings
+ */
+export function buildMessage(
+	message: OutgoingMessage,
+	messageId: string,
+	date = new Date()
+): string {
+	const headers = [
+		`From: ${formatAddress(message.from)}`,
+		`To: ${toList(message.to).map(formatAddress).join(', ')}`
+	];
+	if (message.cc) headers.push(`Cc: ${toList(message.cc).map(formatAddress).join(', ')}`);
+	if (message.replyTo) headers.push(`Reply-To: ${formatAddress(message.replyTo)}`);
+	headers.push(
+		`Subject: ${encodeHeader(message.subject)}`,
+		`Date: ${formatDate(date)}`,
+		`Message-ID: ${messageId}`,
+		'MIME-Version: 1.0'
+	);
+
+	let root = contentPart(message);
+	if (message.attachments?.length) {
+		root = multipart('mixed', [root, ...message.attachments.map(attachmentPart)]);
+	}
+
+	return renderPart({ headers: [...headers, ...root.headers], body: root.body });
+}
+
+/**
+ * A fresh Message-ID on the sender's domain
+ */
+export function createMessageId(from: string): string {
+	const domain = parseAddress(from).split('@')[1] || 'localhost';
+	return `<${randomUUID()}@${domain}>`;
+}
+
+/**
+ * The bare address from `Name <user@example.com>` or `user@example.com`
+ */
+export function parseAddress(address: string): string {
+	return parseMailbox(address).email;
+}
+
+/**
+ * Split `Name <user@example.com>` into its address and display name. Throws
+ * an InvalidMailAddressError for control characters (CR/LF would inject SMTP
+ * commands or headers) or stray angle brackets.
+ */
+export function parseMailbox(address: string): { email: string; name?: string } {
+	if (hasControlCharacters(address)) throw new InvalidMailAddressError(address);
+
+	const match = /^(.*?)\s*<([^<>]+)>\s*$/.exec(address);
+	const email = (match ? match[2] : address).trim();
+	if (!email || /[<>\s]/.test(email)) throw new InvalidMailAddressError(address);
+	if (!match) return { email };
+
+	const quoted = /^"(.*)"$/.exec(match[1].trim());
+	const name = (quoted ? quoted[1].replace(/\\(.)/g, '$1') : match[1]).trim();
+	if (!quoted && /[<>]/.test(name)) throw new InvalidMailAddressError(address);
+	return name ? { email, name } : { email };
+}
+
+// CR/LF would start a new SMTP command or header line
+function hasControlCharacters(value: string): boolean {
+	// eslint-disable-next-line no-control-regex
+	return /[\x00-\x1f\x7f]/.test(value);
+}
+
+export function toList(value: string | string[] | undefined): string[] {
+	if (!value) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Quoted-printable encoding (RFC 2045) of UTF-8 text, with CRLF line breaks
+ */
+export function encodeQuotedPrintable(text: string): string {
+	return text.split(/\r?\n/).map(encodeQuotedPrintableLine).join('\r\n');
+}
+
+function encodeQuotedPrintableLine(line: string): string {
+	const bytes = Buffer.from(line, 'utf-8');
+	let encoded = '';
+	let current = '';
+
+	for (let i = 0; i < bytes.length; i++) {
+		const byte = bytes[i];
+		const isLast = i === bytes.length - 1;
+		const literal =
+			(byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+		const token = literal
+			? String.fromCharCode(byte)
+			: `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+
+		// Leave room for the `=` of a soft line break
+		if (current.length + token.length > MAX_LINE - 1) {
+			encoded += `${current}=\r\n`;
+			current = '';
+		}
+		current += token;
+	}
+
+	return encoded + current;
+}
+
+/**
+ * Encode a header value as RFC 2047 encoded-words when it isn't plain ASCII
+ */
+export function encodeHeader(value: string): string {
+	if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+	// Keep each encoded-word within the line limit without splitting a character
+	const words: string[] = [];
+	let chunk = '';
+	for (const char of value) {
+		if (Buffer.byteLength(chunk + char) > 45) {
+			words.push(chunk);
+			chunk = '';
+		}
+		chunk += char;
+	}
+	words.push(chunk);
+
+	return words
+		.map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf-8').toString('base64')}?=`)
+		.join('\r\n ');
+}
+
+function formatAddress(address: string): string {
+	const { email, name } = parseMailbox(address);
+	return name ? `${formatDisplayName(name)} <${email}>` : email;
+}
+
+/**
+ * A display name as a header phrase: encoded-words when it isn't ASCII,
+ * quoted when it contains specials such as `,` or `;`
+ */
+function formatDisplayName(name: string): string {
+	if (!/^[\x20-\x7e]*$/.test(name)) return encodeHeader(name);
+	return SPECIALS.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name;
+}
+
+function formatDate(date: Date): string {
+	return date.toUTCString().replace('GMT', '+0000');
+}
+
+function contentPart(message: OutgoingMessage): MimePart {
+	if (message.html && message.text) {
+		return multipart('alternative', [
+			textPart(message.text, 'text/plain'),
+			textPart(message.html, 'text/html')
+		]);
+	}
+	if (message.html) return textPart(message.html, 'text/html');
+	return textPart(message.text ?? '', 'text/plain');
+}
+
+function textPart(content: string, type: string): MimePart {
+	return {
+		headers: [
+			`Content-Type: ${type}; charset=utf-8`,
+			'Content-Transfer-Encoding: quoted-printable'
+		],
+		body: encodeQuotedPrintable(content)
+	};
+}
+
+function attachmentPart(attachment: MailAttachment): MimePart {
+	const contentType = attachment.contentType ?? 'application/octet-stream';
+	for (const value of [attachment.filename, contentType]) {
+		if (hasControlCharacters(value)) throw new InvalidMailHeaderError(value);
+	}
+	const content =
+		typeof attachment.content === 'string'
+			? Buffer.from(attachment.content, 'utf-8')
+			: attachment.content;
+	const filename = /^[\x20-\x7e]*$/.test(attachment.filename)
+		? `filename="${attachment.filename.replace(/["\\]/g, '\\$&')}"`
+		: `filename*=UTF-8''${encodeURIComponent(attachment.filename)}`;
+
+	return {
+		headers: [
+			`Content-Type: ${contentType}`,
+			'Content-Transfer-Encoding: base64',
+			`Content-Disposition: attachment; ${filename}`
+		],
+		body: wrap(content.toString('base64'))
+	};
+}
+
+function multipart(subtype: 'alternative' | 'mixed', parts: MimePart[]): MimePart {
+	const boundary = `----=_Omni_${randomUUID().replace(/-/g, '')}`;
+	const body = parts.map((part) => `--${boundary}\r\n${renderPart(part)}`).join('\r\n');
+
+	return {
+		headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+		body: `${body}\r\n--${boundary}--`
+	};
+}
+
+function renderPart(part: MimePart): string {
+	return `${part.headers.join('\r\n')}\r\n\r\n${part.body}`;
+}
+
+function wrap(base64: string): string {
+	return base64.replace(new RegExp(`.{${MAX_LINE}}(?=.)`, 'g'), '$&\r\n');
+}
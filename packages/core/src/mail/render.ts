@@ -0,0 +1,87 @@
+import type { Component } from 'svelte';
+import { render } from 'svelte/server';
+import { inlineCss } from './css.js';
+
+export interface RenderedMail {
+	html: string;
+	text: string;
+}
+
+/**
+ * Server-render a Svelte component into a standalone HTML email with its
+ * styles inlined, plus a plain-text version of the same content.
+ *
+ * Component styles only reach the rendered output when the component is
+ * compiled with `<svelte:options css="injected" />`.
+ */
+export async function renderMail<Props extends Record<string, any>>(
+	component: Component<Props>,
+	props: Props
+): Promise<RenderedMail> {
+	const { head, body } = await render(component as Component<any>, { props });
+
+	const document = stripHydrationMarkers(
+		'<!DOCTYPE html><html><head><meta charset="utf-8">' +
+			'<meta name="viewport" content="width=device-width, initial-scale=1">' +
+			`${head}</head><body>${body}</body></html>`
+	);
+
+	return { html: inlineCss(document), text: htmlToText(body) };
+}
+
+/**
+ * Plain-text version of an HTML body: block elements become line breaks,
+ * links keep their URL, and entities are decoded
+ */
+export function htmlToText(html: string): string {
+	const text = stripHydrationMarkers(html)
+		.replace(/<(head|style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, '')
+		.replace(/<a\s[^>]*?href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) => {
+			const content = label.replace(/<[^>]+>/g, '').trim();
+			return !content || content === href ? href : `${content} (${href})`;
+		})
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<li[^>]*>/gi, '\n- ')
+		.replace(/<\/(p|div|h[1-6]|table|tr|ul|ol|blockquote|pre|section|header|footer)>/gi, '\n\n')
+		.replace(/<hr[^>]*>/gi, '\n---\n')
+		.replace(/<[^>]+>/g, '');
+
+	return decodeEntities(text)
+		.split('\n')
+		.map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * Remove the comments Svelte emits for hydration (`<!--[-->`, `<!---->`);
+ * Outlook conditional comments are kept
+ */
+function stripHydrationMarkers(html: string): string {
+	return html.replace(/<!--(?!\[if)(?!<!)[\s\S]*?-->/g, '');
+}
+
+const ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+	copy: '©',
+	hellip: '…',
+	mdash: '—',
+	ndash: '–'
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+		if (name[0] === '#') {
+			const code =
+				name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+			return String.fromCodePoint(code);
+		}
+		return ENTITIES[name.toLowerCase()] ?? entity;
+	});
+}
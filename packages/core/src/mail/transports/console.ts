@@ -0,0 +1,15 @@
+import type { MailTransport, OutgoingMessage, SendResult } from '../types.js';
+
+/**
+ * Logs messages instead of sending them (the development default)
+ */
+export class ConsoleTransport implements MailTransport {
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		console.log('📧 [Mail - Console Provider]');
+		console.log(`   From: ${message.from}`);
+		console.log(`   To: ${Array.isArray(message.to) ? message.to.join(', ') : message.to}`);
+		console.log(`   Subject: ${message.subject}`);
+		if (message.text) console.log(`   Body: ${message.text.substring(0, 200)}...`);
+		return { success: true, messageId: `console-${Date.now()}` };
+	}
+}
@@ -0,0 +1,62 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { catchMessage, setActiveInbox } from '../inbox.js';
+import type {
+	CaughtMail,
+	MailInbox,
+	MailTransport,
+	OutgoingMessage,
+	SendResult
+} from '../types.js';
+
+/**
+ * Writes each message to `<directory>/<id>.json`, so caught mail survives
+ * restarts and can be inspected outside the dev inbox
+ */
+export class FileTransport implements MailTransport, MailInbox {
+	private directory: string;
+
+	constructor(directory = '.omni/mail') {
+		this.directory = resolve(directory);
+		setActiveInbox(this);
+	}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const caught = catchMessage(message);
+		await mkdir(this.directory, { recursive: true });
+		await writeFile(this.path(caught.id), JSON.stringify(caught, null, 2));
+		return { success: true, messageId: caught.messageId };
+	}
+
+	async list(): Promise<CaughtMail[]> {
+		const ids = (await this.ids()).sort().reverse();
+		const messages = await Promise.all(ids.map((id) => this.find(id)));
+		return messages.filter((message) => message !== null);
+	}
+
+	async find(id: string): Promise<CaughtMail | null> {
+		if (!/^[\w-]+$/.test(id)) return null;
+		try {
+			return JSON.parse(await readFile(this.path(id), 'utf-8'));
+		} catch {
+			return null;
+		}
+	}
+
+	async clear(): Promise<void> {
+		await Promise.all((await this.ids()).map((id) => rm(this.path(id), { force: true })));
+	}
+
+	private async ids(): Promise<string[]> {
+		try {
+			const files = await readdir(this.directory);
+			return files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -5));
+		} catch {
+			return [];
+		}
+	}
+
+	private path(id: string): string {
+		return join(this.directory, `${id}.json`);
+	}
+}
@@ -0,0 +1,57 @@
+import type { MailAttachment } from '../types.js';
+
+export class MailProviderError extends Error {
+	constructor(
+		readonly provider: string,
+		readonly status: number,
+		readonly code: string,
+		message: string
+	) {
+		super(`${provider} rejected the message (${code}): ${message}`);
+		this.name = 'MailProviderError';
+	}
+}
+
+interface ProviderResponse {
+	response: Response;
+	body: any;
+}
+
+/**
+ * POST a JSON payload to a provider's API. Non-2xx responses are turned into
+ * a MailProviderError using the provider's own error code.
+ */
+export async function postJson(
+	provider: string,
+	url: string,
+	headers: Record<string, string>,
+	payload: string,
+	parseError: (body: any, response: Response) => { code: string; message: string }
+): Promise<ProviderResponse> {
+	// Merged case-insensitively, so a provider's own (e.g. signed) `content-type`
+	// replaces the default instead of being sent alongside it
+	const merged = new Headers({ 'Content-Type': 'application/json', Accept: 'application/json' });
+	for (const [name, value] of Object.entries(headers)) merged.set(name, value);
+
+	const response = await fetch(url, { method: 'POST', headers: merged, body: payload });
+
+	const text = await response.text();
+	let body: any = null;
+	try {
+		body = text ? JSON.parse(text) : null;
+	} catch {
+		body = { message: text };
+	}
+
+	if (!response.ok) {
+		const { code, message } = parseError(body ?? {}, response);
+		throw new MailProviderError(provider, response.status, code, message || response.statusText);
+	}
+	return { response, body };
+}
+
+export function attachmentContent(attachment: MailAttachment): string {
+	return Buffer.isBuffer(attachment.content)
+		? attachment.content.toString('base64')
+		: Buffer.from(attachment.content, 'utf-8').toString('base64');
+}
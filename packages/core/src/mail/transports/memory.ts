@@ -0,0 +1,45 @@
+import { catchMessage, setActiveInbox } from '../inbox.js';
+import type {
+	CaughtMail,
+	MailInbox,
+	MailTransport,
+	OutgoingMessage,
+	SendResult
+} from '../types.js';
+
+const LIMIT = 100;
+
+// Shared across module instances so the dev inbox sees the app's mail
+const STORE = Symbol.for('omni-svelte.mail.memory');
+type StoreGlobal = typeof globalThis & { [STORE]?: CaughtMail[] };
+
+/**
+ * Keeps sent mail in memory (the latest 100 messages) for the dev inbox and tests
+ */
+export class MemoryTransport implements MailTransport, MailInbox {
+	private messages: CaughtMail[];
+
+	constructor() {
+		this.messages = (globalThis as StoreGlobal)[STORE] ??= [];
+		setActiveInbox(this);
+	}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const caught = catchMessage(message);
+		this.messages.unshift(caught);
+		this.messages.length = Math.min(this.messages.length, LIMIT);
+		return { success: true, messageId: caught.messageId };
+	}
+
+	async list(): Promise<CaughtMail[]> {
+		return [...this.messages];
+	}
+
+	async find(id: string): Promise<CaughtMail | null> {
+		return this.messages.find((message) => message.id === id) ?? null;
+	}
+
+	async clear(): Promise<void> {
+		this.messages.length = 0;
+	}
+}
@@ -0,0 +1,52 @@
+import { toList } from '../mime.js';
+import type { MailTransport, OutgoingMessage, SendResult } from '../types.js';
+import { attachmentContent, MailProviderError, postJson } from './http.js';
+
+const ENDPOINT = 'https://api.postmarkapp.com/email';
+
+/**
+ * Sends through the Postmark API (`POST /email`) with a server token
+ */
+export class PostmarkTransport implements MailTransport {
+	constructor(private serverToken: string) {}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const payload = {
+			From: message.from,
+			To: toList(message.to).join(', '),
+			Cc: message.cc && toList(message.cc).join(', '),
+			Bcc: message.bcc && toList(message.bcc).join(', '),
+			ReplyTo: message.replyTo,
+			Subject: message.subject,
+			HtmlBody: message.html,
+			TextBody: message.text,
+			Attachments: message.attachments?.map((attachment) => ({
+				Name: attachment.filename,
+				Content: attachmentContent(attachment),
+				ContentType: attachment.contentType ?? 'application/octet-stream'
+			}))
+		};
+
+		const { response, body } = await postJson(
+			'Postmark',
+			ENDPOINT,
+			{ 'X-Postmark-Server-Token': this.serverToken },
+			JSON.stringify(payload),
+			(error, response) => ({
+				code: String(error.ErrorCode ?? response.status),
+				message: error.Message
+			})
+		);
+
+		// Postmark reports some rejections in a 200 response
+		if (body.ErrorCode) {
+			throw new MailProviderError(
+				'Postmark',
+				response.status,
+				String(body.ErrorCode),
+				body.Message
+			);
+		}
+		return { success: true, messageId: body.MessageID };
+	}
+}
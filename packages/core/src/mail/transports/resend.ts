@@ -0,0 +1,39 @@
+import { toList } from '../mime.js';
+import type { MailTransport, OutgoingMessage, SendResult } from '../types.js';
+import { attachmentContent, postJson } from './http.js';
+
+const ENDPOINT = 'https://api.resend.com/emails';
+
+/**
+ * Sends through the Resend API (`POST /emails`)
+ */
+export class ResendTransport implements MailTransport {
+	constructor(private apiKey: string) {}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const payload = {
+			from: message.from,
+			to: toList(message.to),
+			subject: message.subject,
+			html: message.html,
+			text: message.text,
+			cc: message.cc && toList(message.cc),
+			bcc: message.bcc && toList(message.bcc),
+			reply_to: message.replyTo,
+			attachments: message.attachments?.map((attachment) => ({
+				filename: attachment.filename,
+				content: attachmentContent(attachment),
+				content_type: attachment.contentType
+			}))
+		};
+
+		const { body } = await postJson(
+			'Resend',
+			ENDPOINT,
+			{ Authorization: `Bearer ${this.apiKey}` },
+			JSON.stringify(payload),
+			(error, response) => ({ code: error.name ?? String(response.status), message: error.message })
+		);
+		return { success: true, messageId: body.id };
+	}
+}
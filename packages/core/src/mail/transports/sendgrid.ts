@@ -0,0 +1,55 @@
+import { parseMailbox, toList } from '../mime.js';
+import type { MailTransport, OutgoingMessage, SendResult } from '../types.js';
+import { attachmentContent, postJson } from './http.js';
+
+const ENDPOINT = 'https://api.sendgrid.com/v3/mail/send';
+
+/**
+ * Sends through the SendGrid v3 API (`POST /v3/mail/send`). SendGrid answers
+ * 202 with an empty body; the message id comes from the `X-Message-Id` header.
+ */
+export class SendGridTransport implements MailTransport {
+	constructor(private apiKey: string) {}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const mailboxes = (value: string | string[] | undefined) =>
+			value ? toList(value).map(parseMailbox) : undefined;
+
+		const content = [];
+		if (message.text) content.push({ type: 'text/plain', value: message.text });
+		if (message.html) content.push({ type: 'text/html', value: message.html });
+
+		const payload = {
+			personalizations: [
+				{ to: mailboxes(message.to), cc: mailboxes(message.cc), bcc: mailboxes(message.bcc) }
+			],
+			from: parseMailbox(message.from),
+			reply_to: message.replyTo ? parseMailbox(message.replyTo) : undefined,
+			subject: message.subject,
+			// SendGrid rejects an empty content list
+			content: content.length ? content : [{ type: 'text/plain', value: ' ' }],
+			attachments: message.attachments?.map((attachment) => ({
+				filename: attachment.filename,
+				content: attachmentContent(attachment),
+				type: attachment.contentType,
+				disposition: 'attachment'
+			}))
+		};
+
+		const { response } = await postJson(
+			'SendGrid',
+			ENDPOINT,
+			{ Authorization: `Bearer ${this.apiKey}` },
+			JSON.stringify(payload),
+			(error, response) => ({
+				code: String(response.status),
+				message: (error.errors ?? [])
+					.map((entry: { message: string; field?: string }) =>
+						entry.field ? `${entry.field}: ${entry.message}` : entry.message
+					)
+					.join('; ')
+			})
+		);
+		return { success: true, messageId: response.headers.get('x-message-id') ?? undefined };
+	}
+}
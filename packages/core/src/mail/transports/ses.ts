@@ -0,0 +1,101 @@
+import { createHash, createHmac } from 'node:crypto';
+import { buildMessage, createMessageId, parseAddress, toList } from '../mime.js';
+import type { MailTransport, OutgoingMessage, SendResult, SesOptions } from '../types.js';
+import { postJson } from './http.js';
+
+const PATH = '/v2/email/outbound-emails';
+
+/**
+ * Sends through the Amazon SES v2 API (`SendEmail` with raw content, so
+ * attachments and multipart bodies use the same MIME rendering as SMTP).
+ * Requests are signed with AWS Signature Version 4.
+ */
+export class SesTransport implements MailTransport {
+	constructor(private options: SesOptions) {}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const raw = buildMessage(message, createMessageId(message.from));
+		const payload = JSON.stringify({
+			FromEmailAddress: message.from,
+			Destination: {
+				ToAddresses: toList(message.to).map(parseAddress),
+				CcAddresses: toList(message.cc).map(parseAddress),
+				BccAddresses: toList(message.bcc).map(parseAddress)
+			},
+			ReplyToAddresses: message.replyTo ? [message.replyTo] : undefined,
+			Content: { Raw: { Data: Buffer.from(raw, 'utf-8').toString('base64') } }
+		});
+
+		const host = `email.${this.options.region}.amazonaws.com`;
+		const { body } = await postJson(
+			'SES',
+			`https://${host}${PATH}`,
+			this.sign(host, payload),
+			payload,
+			(error, response) => ({
+				// e.g. `MessageRejected:http://internal.amazon.com/coral/...`
+				code: (response.headers.get('x-amzn-errortype') ?? error.__type ?? String(response.status))
+					.split(':')[0]
+					.split('#')
+					.at(-1),
+				message: error.message ?? error.Message
+			})
+		);
+		return { success: true, messageId: body.MessageId };
+	}
+
+	/**
+	 * Signature Version 4 headers for a POST to the SES endpoint
+	 */
+	private sign(host: string, payload: string, now = new Date()): Record<string, string> {
+		const accessKeyId = this.options.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID;
+		const secretAccessKey = this.options.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY;
+		const sessionToken = this.options.sessionToken ?? process.env.AWS_SESSION_TOKEN;
+		if (!accessKeyId || !secretAccessKey) {
+			throw new Error('📧 [Mail] SES credentials are missing (accessKeyId / secretAccessKey)');
+		}
+
+		const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+		const dateStamp = amzDate.slice(0, 8);
+		const scope = `${dateStamp}/${this.options.region}/ses/aws4_request`;
+
+		const headers: Record<string, string> = {
+			'content-type': 'application/json',
+			host,
+			'x-amz-date': amzDate,
+			...(sessionToken && { 'x-amz-security-token': sessionToken })
+		};
+		const signedHeaders = Object.keys(headers).sort().join(';');
+		const canonicalRequest = [
+			'POST',
+			PATH,
+			'',
+			...Object.keys(headers)
+				.sort()
+				.map((name) => `${name}:${headers[name]}`),
+			'',
+			signedHeaders,
+			sha256(payload)
+		].join('\n');
+		const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+		let key: Buffer = hmac(`AWS4${secretAccessKey}`, dateStamp);
+		for (const part of [this.options.region, 'ses', 'aws4_request']) key = hmac(key, part);
+		const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+		// fetch sets Host itself
+		const { host: _host, ...rest } = headers;
+		return {
+			...rest,
+			Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+		};
+	}
+}
+
+function sha256(value: string): string {
+	return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+	return createHmac('sha256', key).update(value).digest();
+}
@@ -0,0 +1,252 @@
+import { once } from 'node:events';
+import { createConnection, isIP, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { connect as connectTls } from 'node:tls';
+import { buildMessage, createMessageId, parseAddress, toList } from '../mime.js';
+import type { MailTransport, OutgoingMessage, SendResult, SmtpOptions } from '../types.js';
+
+const DEFAULT_TIMEOUT = 30_000;
+
+export class SmtpError extends Error {
+	constructor(
+		readonly code: number,
+		readonly response: string,
+		command: string
+	) {
+		super(`SMTP ${command} failed with ${code}: ${response}`);
+		this.name = 'SmtpError';
+	}
+}
+
+interface SmtpResponse {
+	code: number;
+	lines: string[];
+}
+
+/**
+ * Delivers mail over SMTP, opening one connection per message.
+ *
+ * Plain connections are upgraded with STARTTLS whenever the server offers it
+ * (`secure: true` uses implicit TLS instead), then authenticate with AUTH
+ * PLAIN or LOGIN when credentials are configured.
+ */
+export class SmtpTransport implements MailTransport {
+	constructor(private options: SmtpOptions) {}
+
+	async send(message: OutgoingMessage): Promise<SendResult> {
+		const recipients = [...toList(message.to), ...toList(message.cc), ...toList(message.bcc)].map(
+			parseAddress
+		);
+		if (recipients.length === 0) throw new Error('📧 [Mail] Message has no recipients');
+
+		// Rendered (and every address checked) before anything reaches the server
+		const messageId = createMessageId(message.from);
+		const sender = parseAddress(message.from);
+		// Lines starting with a dot are escaped so they can't end the message early
+		const data = buildMessage(message, messageId).replace(/^\./gm, '..');
+
+		const connection = await SmtpConnection.open(this.options);
+		try {
+			await connection.handshake();
+			await connection.command(`MAIL FROM:<${sender}>`, [250]);
+			for (const recipient of recipients) {
+				await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+			}
+			await connection.command('DATA', [354]);
+			await connection.command(`${data}\r\n.`, [250], 'DATA');
+			await connection.command('QUIT', [221]).catch(() => {});
+		} finally {
+			connection.close();
+		}
+
+		return { success: true, messageId };
+	}
+}
+
+/**
+ * One SMTP session. Commands are sent one at a time, each waiting for the
+ * server's (possibly multi-line) reply.
+ */
+class SmtpConnection {
+	private buffer = '';
+	private lines: string[] = [];
+	private replies: SmtpResponse[] = [];
+	private waiter: {
+		resolve: (reply: SmtpResponse) => void;
+		reject: (error: Error) => void;
+	} | null = null;
+	private failure: Error | null = null;
+	private extensions = new Map<string, string>();
+
+	private constructor(
+		private socket: Socket,
+		private options: SmtpOptions
+	) {
+		this.attach(socket);
+	}
+
+	static async open(options: SmtpOptions): Promise<SmtpConnection> {
+		const socket = options.secure
+			? connectTls({
+					host: options.host,
+					port: options.port,
+					servername: serverName(options.host),
+					rejectUnauthorized: options.rejectUnauthorized ?? true
+				})
+			: createConnection({ host: options.host, port: options.port });
+		socket.setTimeout(options.timeout ?? DEFAULT_TIMEOUT, () => {
+			socket.destroy(new Error(`📧 [Mail] SMTP connection to ${options.host} timed out`));
+		});
+
+		await once(socket, options.secure ? 'secureConnect' : 'connect');
+		return new SmtpConnection(socket, options);
+	}
+
+	/**
+	 * Read the greeting, EHLO, upgrade to TLS and authenticate
+	 */
+	async handshake(): Promise<void> {
+		this.expect(await this.read(), [220], 'greeting');
+		await this.hello();
+
+		if (!this.options.secure) {
+			if (this.extensions.has('STARTTLS')) {
+				await this.command('STARTTLS', [220]);
+				await this.upgrade();
+				// Capabilities may change once the connection is encrypted
+				await this.hello();
+			} else if (this.options.requireTLS) {
+				throw new Error(`📧 [Mail] SMTP server ${this.options.host} does not support STARTTLS`);
+			}
+		}
+
+		if (this.options.auth) await this.authenticate(this.options.auth);
+	}
+
+	async command(
+		line: string,
+		expected: number[],
+		label = line.split(' ')[0]
+	): Promise<SmtpResponse> {
+		this.socket.write(`${line}\r\n`);
+		return this.expect(await this.read(), expected, label);
+	}
+
+	close() {
+		this.socket.destroy();
+	}
+
+	private async hello() {
+		const name = this.options.name ?? hostname();
+		let reply: SmtpResponse;
+		try {
+			reply = await this.command(`EHLO ${name}`, [250]);
+		} catch (error) {
+			// Servers without ESMTP only understand HELO
+			if (!(error instanceof SmtpError)) throw error;
+			reply = await this.command(`HELO ${name}`, [250]);
+		}
+
+		this.extensions.clear();
+		for (const line of reply.lines.slice(1)) {
+			const [keyword, ...params] = line.trim().split(/\s+/);
+			this.extensions.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+		}
+	}
+
+	private async authenticate(auth: NonNullable<SmtpOptions['auth']>) {
+		const offered = (this.extensions.get('AUTH') ?? '').split(' ');
+		const method =
+			auth.method ?? (offered.includes('PLAIN') || !offered.includes('LOGIN') ? 'PLAIN' : 'LOGIN');
+
+		// Credentials are left out of error messages
+		if (method === 'PLAIN') {
+			const token = Buffer.from(`\0${auth.user}\0${auth.pass}`).toString('base64');
+			await this.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+			return;
+		}
+
+		await this.command('AUTH LOGIN', [334]);
+		await this.command(Buffer.from(auth.user).toString('base64'), [334], 'AUTH LOGIN');
+		await this.command(Buffer.from(auth.pass).toString('base64'), [235], 'AUTH LOGIN');
+	}
+
+	private async upgrade() {
+		this.detach(this.socket);
+		const secure = connectTls({
+			socket: this.socket,
+			servername: serverName(this.options.host),
+			rejectUnauthorized: this.options.rejectUnauthorized ?? true
+		});
+		await once(secure, 'secureConnect');
+		this.socket = secure;
+		this.attach(secure);
+	}
+
+	private expect(reply: SmtpResponse, expected: number[], label: string): SmtpResponse {
+		if (!expected.includes(reply.code)) {
+			throw new SmtpError(reply.code, reply.lines.join(' '), label);
+		}
+		return reply;
+	}
+
+	private read(): Promise<SmtpResponse> {
+		const reply = this.replies.shift();
+		if (reply) return Promise.resolve(reply);
+		if (this.failure) return Promise.reject(this.failure);
+		return new Promise((resolve, reject) => (this.waiter = { resolve, reject }));
+	}
+
+	private onData = (chunk: Buffer) => {
+		this.buffer += chunk.toString('utf-8');
+
+		let end = this.buffer.indexOf('\n');
+		while (end !== -1) {
+			const line = this.buffer.slice(0, end).replace(/\r$/, '');
+			this.buffer = this.buffer.slice(end + 1);
+			this.lines.push(line.slice(4));
+
+			// `250-...` continues a reply; `250 ...` ends it
+			if (line[3] !== '-') {
+				this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+				this.lines = [];
+			}
+			end = this.buffer.indexOf('\n');
+		}
+	};
+
+	private onError = (error: Error) => this.fail(error);
+
+	private onClose = () => this.fail(new Error('📧 [Mail] SMTP connection closed unexpectedly'));
+
+	private deliver(reply: SmtpResponse) {
+		const waiter = this.waiter;
+		this.waiter = null;
+		if (waiter) waiter.resolve(reply);
+		else this.replies.push(reply);
+	}
+
+	private fail(error: Error) {
+		this.failure ??= error;
+		const waiter = this.waiter;
+		this.waiter = null;
+		waiter?.reject(this.failure);
+	}
+
+	private attach(socket: Socket) {
+		socket.on('data', this.onData);
+		socket.on('error', this.onError);
+		socket.on('close', this.onClose);
+	}
+
+	private detach(socket: Socket) {
+		socket.off('data', this.onData);
+		socket.off('error', this.onError);
+		socket.off('close', this.onClose);
+	}
+}
+
+/** SNI only accepts hostnames, not IP addresses */
+function serverName(host: string): string | undefined {
+	return isIP(host) ? undefined : host;
+}
@@ -0,0 +1,173 @@
+/**
+ * Omni Mail - Shared types
+ */
+
+import type { Component } from 'svelte';
+import type { JobOptions } from '../queue/types.js';
+
+export interface MailConfig {
+	/** Built-in provider name, or the name of a transport added with `registerMailTransport()` */
+	provider:
+		| 'smtp'
+		| 'resend'
+		| 'sendgrid'
+		| 'postmark'
+		| 'ses'
+		| 'console'
+		| 'memory'
+		| 'file'
+		| (string & {});
+	from?: string;
+	replyTo?: string;
+	smtp?: SmtpOptions;
+	/** API key for the resend, sendgrid and postmark providers */
+	apiKey?: string;
+	ses?: SesOptions;
+	/** Where the `file` provider stores caught mail (default `.omni/mail`) */
+	file?: { path?: string };
+	/** Replace the built-in auth emails with your own components */
+	templates?: Partial<AuthMailTemplates>;
+	/**
+	 * Defaults for `queueMail()`. Auth emails are queued whenever the queue is
+	 * configured; set `false` to keep sending them inline.
+	 */
+	queue?: false | QueueMailOptions;
+}
+
+export type QueueMailOptions = Pick<
+	JobOptions,
+	'queue' | 'delay' | 'priority' | 'attempts' | 'backoff'
+>;
+
+/**
+ * Delivery state of a queued message, kept in the cache for a week
+ */
+export interface MailStatus {
+	id: string;
+	status: 'queued' | 'retrying' | 'sent' | 'failed';
+	attempts: number;
+	messageId?: string;
+	error?: string;
+	errorCode?: string;
+	updatedAt: string;
+}
+
+/**
+ * Components used by the auth email helpers, with the props each receives
+ */
+export interface AuthMailTemplates {
+	resetPassword: Component<{ name?: string; url: string }>;
+	verifyEmail: Component<{ name?: string; url: string }>;
+	magicLink: Component<{ url: string }>;
+	verificationOTP: Component<{ otp: string; type: string }>;
+}
+
+export interface SmtpOptions {
+	host: string;
+	port: number;
+	/**
+	 * Use TLS from the start (implicit TLS, usually port 465). Otherwise the
+	 * connection is upgraded with STARTTLS when the server offers it.
+	 */
+	secure?: boolean;
+	/** Refuse to send in plain text when the server does not offer STARTTLS */
+	requireTLS?: boolean;
+	auth?: {
+		user: string;
+		pass: string;
+		/** Defaults to PLAIN, or LOGIN when that is all the server offers */
+		method?: 'PLAIN' | 'LOGIN';
+	};
+	/** Hostname announced with EHLO (defaults to this machine's hostname) */
+	name?: string;
+	/** Verify the server's certificate (default true) */
+	rejectUnauthorized?: boolean;
+	timeout?: number; // Socket inactivity timeout in ms (default 30s)
+}
+
+export interface SesOptions {
+	region: string;
+	/** Defaults to the AWS_ACCESS_KEY_ID environment variable */
+	accessKeyId?: string;
+	/** Defaults to the AWS_SECRET_ACCESS_KEY environment variable */
+	secretAccessKey?: string;
+	/** Defaults to the AWS_SESSION_TOKEN environment variable */
+	sessionToken?: string;
+}
+
+export interface MailMessage {
+	to: string | string[];
+	subject: string;
+	html?: string;
+	text?: string;
+	from?: string;
+	replyTo?: string;
+	cc?: string | string[];
+	bcc?: string | string[];
+	attachments?: MailAttachment[];
+}
+
+export interface MailAttachment {
+	filename: string;
+	content: string | Buffer;
+	contentType?: string;
+}
+
+/**
+ * A message with its sender resolved from `MailConfig.from`, as handed to transports
+ */
+export interface OutgoingMessage extends MailMessage {
+	from: string;
+}
+
+export interface SendResult {
+	success: boolean;
+	messageId?: string;
+	error?: string;
+	/** Provider or SMTP error code when the send failed */
+	errorCode?: string;
+}
+
+/**
+ * Contract implemented by every mail provider. Transports throw when
+ * delivery fails; `sendMail()` turns that into a failed SendResult.
+ */
+export interface MailTransport {
+	send(message: OutgoingMessage): Promise<SendResult>;
+	/** Release connections held by the transport */
+	close?(): Promise<void>;
+}
+
+/**
+ * A message kept by the `memory` or `file` provider instead of being sent
+ */
+export interface CaughtMail {
+	id: string;
+	messageId: string;
+	date: string;
+	from: string;
+	to: string[];
+	cc: string[];
+	bcc: string[];
+	replyTo?: string;
+	subject: string;
+	html?: string;
+	text?: string;
+	/** Top-level headers of the rendered message */
+	headers: Record<string, string>;
+	attachments: { filename: string; contentType: string; size: number; content: string }[];
+	/** The full MIME message, as SMTP would have sent it */
+	raw: string;
+}
+
+/**
+ * Read access to caught mail, implemented by the `memory` and `file` transports
+ */
+export interface MailInbox {
+	/** Newest first */
+	list(): Promise<CaughtMail[]>;
+	find(id: string): Promise<CaughtMail | null>;
+	clear(): Promise<void>;
+}
+
+export type MailTransportFactory = (config: MailConfig) => MailTransport;
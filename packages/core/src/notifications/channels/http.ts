@@ -0,0 +1,30 @@
+export class NotificationChannelError extends Error {
+	constructor(
+		readonly channel: string,
+		readonly status: number,
+		message: string
+	) {
+		super(`${channel} responded with ${status}: ${message}`);
+		this.name = 'NotificationChannelError';
+	}
+}
+
+/**
+ * POST a JSON body, throwing a NotificationChannelError for non-2xx responses
+ */
+export async function postJson(
+	channel: string,
+	url: string,
+	body: string,
+	headers: Record<string, string> = {}
+): Promise<void> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body
+	});
+	if (!response.ok) {
+		const text = await response.text().catch(() => '');
+		throw new NotificationChannelError(channel, response.status, text || response.statusText);
+	}
+}
@@ -0,0 +1,46 @@
+import { Mailable, sendMail } from '../../mail/index.js';
+import type {
+	MailChannelConfig,
+	Notification,
+	NotificationChannelHandler,
+	NotificationRecipient
+} from '../types.js';
+import { routeNotification } from '../utils.js';
+
+/**
+ * Sends the notification through the mail module, to the address the
+ * recipient routes for `mail` or else `recipient.email`. The data may be a
+ * `Mailable` (from a notification's `toMail()`), which is sent as is.
+ */
+export function mailChannel(config: MailChannelConfig = {}): NotificationChannelHandler {
+	return async (notification: Notification, recipient: NotificationRecipient) => {
+		const to = mailAddress(recipient);
+		const { data } = notification;
+		const result =
+			data instanceof Mailable
+				? await data.to(to).send()
+				: await sendMail({
+						to,
+						from: data.from ?? config.from,
+						replyTo: data.replyTo ?? config.replyTo,
+						cc: data.cc,
+						bcc: data.bcc,
+						subject: data.subject ?? data.title ?? notification.type,
+						text: data.text ?? data.message,
+						html: data.html,
+						attachments: data.attachments
+					});
+		if (!result.success) throw new Error(result.error ?? 'Mail was not sent');
+	};
+}
+
+/**
+ * The address the recipient routes for `mail`, else `recipient.email`
+ */
+export function mailAddress(recipient: NotificationRecipient): string | string[] {
+	const to = routeNotification(recipient, 'mail') ?? recipient.email;
+	if (!to || to.length === 0) {
+		throw new Error(`Recipient '${recipient.id}' has no email address`);
+	}
+	return to;
+}
@@ -0,0 +1,63 @@
+import type {
+	Notification,
+	NotificationChannelHandler,
+	NotificationRecipient,
+	SlackChannelConfig
+} from '../types.js';
+import { routeUrl } from '../utils.js';
+import { postJson } from './http.js';
+
+/**
+ * Posts the notification as Block Kit blocks to the incoming webhook the
+ * recipient routes for `slack` (else the channel's `webhookUrl`)
+ */
+export function slackChannel(config: SlackChannelConfig = {}): NotificationChannelHandler {
+	return async (notification: Notification, recipient: NotificationRecipient) => {
+		const url = routeUrl(recipient, 'slack', config.webhookUrl);
+		const { data } = notification;
+		const text = data.text ?? data.message ?? data.title ?? notification.type;
+
+		await postJson(
+			'Slack',
+			url,
+			JSON.stringify({
+				text,
+				blocks: data.blocks ?? slackBlocks(notification),
+				...(config.username && { username: config.username }),
+				...(config.iconEmoji && { icon_emoji: config.iconEmoji })
+			})
+		);
+	};
+}
+
+/**
+ * Header, message and link button built from the notification's data
+ */
+export function slackBlocks(notification: Notification): Record<string, any>[] {
+	const { data } = notification;
+	const blocks: Record<string, any>[] = [];
+
+	if (data.title) {
+		blocks.push({ type: 'header', text: { type: 'plain_text', text: data.title, emoji: true } });
+	}
+	const message = data.message ?? data.text;
+	if (message || blocks.length === 0) {
+		blocks.push({
+			type: 'section',
+			text: { type: 'mrkdwn', text: message ?? notification.type }
+		});
+	}
+	if (data.url) {
+		blocks.push({
+			type: 'actions',
+			elements: [
+				{
+					type: 'button',
+					text: { type: 'plain_text', text: data.actionText ?? 'View', emoji: true },
+					url: data.url
+				}
+			]
+		});
+	}
+	return blocks;
+}
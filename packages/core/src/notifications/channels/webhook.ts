@@ -0,0 +1,73 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type {
+	Notification,
+	NotificationChannelHandler,
+	NotificationRecipient,
+	WebhookChannelConfig
+} from '../types.js';
+import { routeUrl } from '../utils.js';
+import { postJson } from './http.js';
+
+const SIGNATURE_HEADER = 'X-Omni-Signature';
+
+/**
+ * POSTs the notification as JSON to the URL the recipient routes for
+ * `webhook` (else the channel's `url`), signed when the channel has a `secret`
+ */
+export function webhookChannel(config: WebhookChannelConfig = {}): NotificationChannelHandler {
+	return async (notification: Notification, recipient: NotificationRecipient) => {
+		const url = routeUrl(recipient, 'webhook', config.url);
+		const body = JSON.stringify({
+			id: notification.id,
+			type: notification.type,
+			notifiable: { type: recipient.type ?? 'user', id: recipient.id },
+			data: notification.data,
+			createdAt: notification.createdAt
+		});
+
+		await postJson('Webhook', url, body, {
+			'X-Omni-Event': notification.type,
+			...(notification.id && { 'X-Omni-Delivery': notification.id }),
+			...(config.secret && { [SIGNATURE_HEADER]: signWebhookPayload(body, config.secret) }),
+			...config.headers
+		});
+	};
+}
+
+/**
+ * The `X-Omni-Signature` header value for a request body
+ */
+export function signWebhookPayload(
+	body: string,
+	secret: string,
+	timestamp = Math.floor(Date.now() / 1000)
+): string {
+	return `t=${timestamp},v1=${hmac(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Check a webhook request on the receiving side: the signature must match the
+ * raw body and be at most `tolerance` seconds old (guards against replays)
+ */
+export function verifyWebhookSignature(
+	body: string,
+	signature: string | null | undefined,
+	secret: string,
+	tolerance = 300
+): boolean {
+	if (!signature) return false;
+	const parts = Object.fromEntries(
+		signature.split(',').map((part) => part.trim().split('=', 2) as [string, string])
+	);
+	const timestamp = Number(parts.t);
+	if (!Number.isInteger(timestamp) || !parts.v1) return false;
+	if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) return false;
+
+	const expected = Buffer.from(hmac(secret, `${timestamp}.${body}`), 'hex');
+	const actual = Buffer.from(parts.v1, 'hex');
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hmac(secret: string, value: string): string {
+	return createHmac('sha256', secret).update(value).digest('hex');
+}
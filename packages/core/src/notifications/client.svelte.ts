@@ -0,0 +1,120 @@
+import type { DatabaseNotification } from './types.js';
+
+/**
+ * Live notifications for the signed-in user, kept up to date over
+ * server-sent events from a route served by `handleNotificationRequest()`.
+ * Only notifications sent by the server process holding the stream arrive
+ * live; those sent elsewhere (e.g. by queue workers) show up after a reconnect.
+ *
+ * Create it while a component initialises: the stream opens once that
+ * component mounts and closes when it is destroyed.
+ *
+ * @example
+ * // +layout.svelte
+ * const notifications = new NotificationState('/api/notifications');
+ *
+ * <span>{notifications.unreadCount}</span>
+ * {#each notifications.notifications as notification (notification.id)} ... {/each}
+ */
+export class NotificationState {
+	/** Newest first: the server's snapshot plus everything received since */
+	notifications = $state<DatabaseNotification[]>([]);
+	unreadCount = $state(0);
+	connected = $state(false);
+	latest = $derived(this.notifications[0] ?? null);
+
+	readonly url: string;
+	#source: EventSource | null = null;
+
+	constructor(url = '/api/notifications') {
+		this.url = url;
+		$effect(() => {
+			this.connect();
+			return () => this.disconnect();
+		});
+	}
+
+	/**
+	 * Open the stream. The browser reconnects on its own after network errors,
+	 * and every connection starts with a fresh snapshot.
+	 */
+	connect(): void {
+		this.#source?.close();
+		const source = new EventSource(this.url);
+
+		source.onopen = () => {
+			this.connected = true;
+		};
+		source.onerror = () => {
+			this.connected = false;
+		};
+		source.addEventListener('snapshot', (event) => {
+			const snapshot = JSON.parse(event.data);
+			this.notifications = snapshot.notifications.map(revive);
+			this.unreadCount = snapshot.unreadCount;
+		});
+		source.addEventListener('notification', (event) => {
+			const notification = revive(JSON.parse(event.data));
+			if (this.notifications.some((existing) => existing.id === notification.id)) return;
+			this.notifications = [notification, ...this.notifications];
+		});
+		source.addEventListener('unread', (event) => {
+			this.unreadCount = JSON.parse(event.data).count;
+		});
+
+		this.#source = source;
+	}
+
+	disconnect(): void {
+		this.#source?.close();
+		this.#source = null;
+		this.connected = false;
+	}
+
+	/**
+	 * Mark notifications (or all of them) as read, updating the list right away.
+	 * If the request fails they are shown as unread again and this resolves
+	 * `false`; it never rejects.
+	 */
+	async markAsRead(ids?: string | string[]): Promise<boolean> {
+		const only = ids === undefined ? undefined : Array.isArray(ids) ? ids : [ids];
+		const readAt = new Date();
+		const marked = new Set<string>();
+		this.notifications = this.notifications.map((notification) => {
+			if (notification.readAt || (only && !only.includes(notification.id))) return notification;
+			marked.add(notification.id);
+			return { ...notification, readAt };
+		});
+
+		try {
+			const response = await fetch(this.url, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(only ? { ids: only } : { all: true })
+			});
+			if (response.ok) {
+				this.unreadCount = (await response.json()).unreadCount;
+				return true;
+			}
+		} catch {
+			// Offline or the server is unreachable: roll back below
+		}
+
+		// Only undo our own update, not one a newer snapshot already replaced
+		this.notifications = this.notifications.map((notification) =>
+			marked.has(notification.id) && notification.readAt === readAt
+				? { ...notification, readAt: null }
+				: notification
+		);
+		return false;
+	}
+}
+
+// Dates arrive as ISO strings
+function revive(notification: DatabaseNotification): DatabaseNotification {
+	return {
+		...notification,
+		readAt: notification.readAt ? new Date(notification.readAt) : null,
+		createdAt: new Date(notification.createdAt)
+	};
+}
@@ -0,0 +1,53 @@
+import type { Component } from 'svelte';
+import { Mailable } from '../mail/index.js';
+import type {
+	DigestFrequency,
+	Notification,
+	NotificationDigestConfig,
+	NotificationDigestItem,
+	NotificationDigestProps
+} from './types.js';
+
+/**
+ * The email listing a recipient's pending low-priority notifications
+ */
+export class NotificationDigestMail extends Mailable<NotificationDigestProps> {
+	constructor(
+		props: NotificationDigestProps,
+		private config: NotificationDigestConfig = {}
+	) {
+		super(props);
+	}
+
+	subject() {
+		const { frequency, items } = this.props;
+		return (this.config.subject ?? defaultSubject)(frequency, items.length);
+	}
+
+	async template(): Promise<Component<NotificationDigestProps>> {
+		return (
+			this.config.template ?? (await import('../mail/templates/NotificationDigest.svelte')).default
+		);
+	}
+}
+
+function defaultSubject(frequency: DigestFrequency, count: number): string {
+	return `Your ${frequency} digest: ${count} new notification${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * What a digest shows for a notification formatted for the `mail` channel
+ */
+export async function digestContent(
+	notification: Notification
+): Promise<Pick<NotificationDigestItem, 'subject' | 'text' | 'url'>> {
+	const { data } = notification;
+	if (data instanceof Mailable) {
+		return { subject: data.subject(), text: (await data.render()).text };
+	}
+	return {
+		subject: data.subject ?? data.title ?? notification.type,
+		text: data.text ?? data.message,
+		url: data.url
+	};
+}
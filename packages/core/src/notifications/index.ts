@@ -5,95 +5,262 @@
  * multiple channels (email, SMS, push, in-app, etc.)
  */
 
-// Types
-export interface NotificationConfig {
-	channels: NotificationChannel[];
-	defaultChannel?: string;
-}
+import { mailAddress, mailChannel } from './channels/mail.js';
+import { slackChannel } from './channels/slack.js';
+import { webhookChannel } from './channels/webhook.js';
+import { digestContent, NotificationDigestMail } from './digest.js';
+import { DatabaseNotificationStore } from './stores/database.js';
+import { MemoryNotificationStore } from './stores/memory.js';
+import { hasNotificationListeners, notificationStream, publishNotification } from './stream.js';
+import type { Mailable } from '../mail/index.js';
+import type {
+	DatabaseNotification,
+	DigestFrequency,
+	MailNotificationContent,
+	Notification,
+	NotificationChannelFactory,
+	NotificationChannelHandler,
+	NotificationConfig,
+	NotificationDigestItem,
+	NotificationPreferences,
+	NotificationPriority,
+	NotificationQuery,
+	NotificationRecipient,
+	NotificationStore,
+	NotificationStoreFactory,
+	NotifiableRef,
+	PaginatedNotifications,
+	SlackChannelConfig,
+	SlackNotificationContent,
+	WebhookChannelConfig
+} from './types.js';
 
-export interface NotificationChannel {
-	name: string;
-	driver: 'mail' | 'sms' | 'push' | 'database' | 'slack' | 'webhook';
-	config?: Record<string, any>;
-}
+// Types
+export type {
+	DatabaseNotification,
+	DigestFrequency,
+	MailChannelConfig,
+	MailNotificationContent,
+	Notifiable,
+	NotifiableRef,
+	Notification,
+	NotificationChannel,
+	NotificationChannelFactory,
+	NotificationChannelHandler,
+	NotificationConfig,
+	NotificationDigestConfig,
+	NotificationDigestItem,
+	NotificationDigestProps,
+	NotificationPreferences,
+	NotificationPriority,
+	NotificationQuery,
+	NotificationRecipient,
+	NotificationStore,
+	NotificationStoreFactory,
+	PaginatedNotifications,
+	SlackChannelConfig,
+	SlackNotificationContent,
+	WebhookChannelConfig
+} from './types.js';
+export { NotificationChannelError } from './channels/http.js';
+export { mailAddress, mailChannel } from './channels/mail.js';
+export { slackBlocks, slackChannel } from './channels/slack.js';
+export { signWebhookPayload, verifyWebhookSignature, webhookChannel } from './channels/webhook.js';
+export { NotificationDigestMail } from './digest.js';
+export {
+	DatabaseNotificationStore,
+	notificationDigestsTable,
+	notificationPreferencesTable,
+	notificationsTable
+} from './stores/database.js';
+export { MemoryNotificationStore } from './stores/memory.js';
+export type { NotificationStreamMessage } from './stream.js';
+export { routeNotification } from './utils.js';
 
-export interface Notification {
-	id?: string;
-	type: string;
-	channels: string[];
-	data: Record<string, any>;
-	readAt?: Date;
-	createdAt?: Date;
-}
+// Store registry
+const storeFactories = new Map<string, NotificationStoreFactory>([
+	['memory', () => new MemoryNotificationStore()],
+	['database', () => new DatabaseNotificationStore()]
+]);
 
-export interface NotificationRecipient {
-	id: string;
-	email?: string;
-	phone?: string;
-	pushTokens?: string[];
-}
+// Built-in channel drivers, selected by `NotificationChannel.driver`
+const channelDrivers = new Map<string, NotificationChannelFactory>([
+	['database', () => storeNotification],
+	['mail', (config) => mailChannel(config)],
+	['webhook', (config) => webhookChannel(config as WebhookChannelConfig)],
+	['slack', (config) => slackChannel(config as SlackChannelConfig)]
+]);
 
-export interface Notifiable {
-	routeNotificationFor(channel: string): string | string[] | null;
-}
+// Handlers added with registerChannel(), which take precedence over drivers
+const channelHandlers = new Map<string, NotificationChannelHandler>();
 
-// Notification store (in-memory for now)
-const notifications: Notification[] = [];
-const channelHandlers = new Map<
-	string,
-	(notification: Notification, recipient: NotificationRecipient) => Promise<void>
->();
+// Pages (and `getNotifications()` limits) are capped so one request can't load everything
+const MAX_PER_PAGE = 100;
 
 let notificationConfig: NotificationConfig = {
 	channels: [{ name: 'database', driver: 'database' }],
-	defaultChannel: 'database'
+	defaultChannel: 'database',
+	store: 'memory'
 };
 
+let activeStore: NotificationStore | null = null;
+
 /**
  * Configure the notification system
  */
 export function configureNotifications(config: NotificationConfig): void {
 	notificationConfig = { ...notificationConfig, ...config };
+	activeStore = null;
+}
+
+/**
+ * Register a custom store that can be selected with `store: name`
+ */
+export function registerNotificationStore(name: string, factory: NotificationStoreFactory): void {
+	storeFactories.set(name, factory);
+	if (notificationConfig.store === name) activeStore = null;
+}
+
+/**
+ * Get the store for the configured backend (created on first use)
+ */
+export function getNotificationStore(): NotificationStore {
+	if (activeStore) return activeStore;
+
+	const name = notificationConfig.store ?? 'memory';
+	const factory = storeFactories.get(name);
+	if (!factory) {
+		throw new Error(
+			`🔔 [Notifications] Store '${name}' is not registered. Use registerNotificationStore() to add it.`
+		);
+	}
+
+	activeStore = factory(notificationConfig);
+	return activeStore;
 }
 
 /**
  * Register a channel handler
  */
-export function registerChannel(
-	name: string,
-	handler: (notification: Notification, recipient: NotificationRecipient) => Promise<void>
-): void {
+export function registerChannel(name: string, handler: NotificationChannelHandler): void {
 	channelHandlers.set(name, handler);
 }
 
 /**
- * Send a notification to a recipient
+ * The handler for a channel name and the driver it runs: one added with
+ * `registerChannel()` (its driver is its name), else the driver of the
+ * matching configured channel. A built-in driver name (`mail`, `database`)
+ * also works without configuring a channel.
+ */
+function resolveChannel(
+	name: string
+): { handler: NotificationChannelHandler; driver: string } | undefined {
+	const registered = channelHandlers.get(name);
+	if (registered) return { handler: registered, driver: name };
+
+	const channel = notificationConfig.channels.find((candidate) => candidate.name === name);
+	const driver = channel?.driver ?? name;
+	const factory = channelDrivers.get(driver);
+	return factory && { handler: factory(channel?.config ?? {}), driver };
+}
+
+/**
+ * A notification that picks its channels per recipient and formats itself
+ * for each one. Every channel calls the method named after its driver
+ * (`toMail()`, `toDatabase()`, `toWebhook()`, `toSlack()`, or e.g. `toSms()`
+ * for a channel registered as `sms`), falling back to `toArray()`.
+ *
+ * @example
+ * class InvoicePaid extends BaseNotification {
+ *   constructor(private invoice: Invoice) { super(); }
+ *   via(user) { return user.prefersSlack ? ['slack', 'database'] : ['mail', 'database']; }
+ *   toMail() { return new InvoicePaidMail({ invoice: this.invoice }); }
+ *   toArray() { return { title: 'Invoice paid', invoiceId: this.invoice.id }; }
+ * }
+ *
+ * await notify(user, new InvoicePaid(invoice));
+ */
+export abstract class BaseNotification {
+	/** Channel names to send through for this recipient */
+	abstract via(recipient: NotificationRecipient): string[];
+
+	/** Stored as the notification's `type` (default: the class name) */
+	type(): string {
+		return this.constructor.name;
+	}
+
+	/** `'low'` sends `mail` channels in the recipient's digest */
+	priority(): NotificationPriority {
+		return 'normal';
+	}
+
+	toMail?(
+		recipient: NotificationRecipient
+	): MailNotificationContent | Mailable | Promise<MailNotificationContent | Mailable>;
+
+	toDatabase?(recipient: NotificationRecipient): Record<string, any> | Promise<Record<string, any>>;
+
+	/** The `data` of the webhook payload */
+	toWebhook?(recipient: NotificationRecipient): Record<string, any> | Promise<Record<string, any>>;
+
+	toSlack?(
+		recipient: NotificationRecipient
+	): SlackNotificationContent | Promise<SlackNotificationContent>;
+
+	/** Data for channels without a method of their own */
+	toArray?(recipient: NotificationRecipient): Record<string, any> | Promise<Record<string, any>>;
+}
+
+/**
+ * Send a notification to a recipient: either plain data for the listed
+ * channels, or a `BaseNotification` that chooses and formats its own.
+ * Channels the recipient opted out of are skipped, and low-priority mail
+ * waits for their digest.
  */
 export async function notify(
 	recipient: NotificationRecipient,
-	notification: Omit<Notification, 'id' | 'createdAt'>
+	notification: Omit<Notification, 'id' | 'createdAt'> | BaseNotification
 ): Promise<Notification> {
+	const instance = notification instanceof BaseNotification ? notification : null;
 	const fullNotification: Notification = {
-		...notification,
+		...(instance
+			? {
+					type: instance.type(),
+					channels: instance.via(recipient),
+					data: (await instance.toArray?.(recipient)) ?? {},
+					priority: instance.priority()
+				}
+			: (notification as Omit<Notification, 'id' | 'createdAt'>)),
 		id: crypto.randomUUID(),
 		createdAt: new Date()
 	};
 
-	// Store notification
-	notifications.push(fullNotification);
+	const preferences = await getNotificationPreferences(recipient);
+	fullNotification.channels = fullNotification.channels.filter(
+		(channel) => !isOptedOut(preferences, fullNotification.type, channel)
+	);
 
 	// Dispatch to each channel
-	for (const channel of notification.channels) {
-		const handler = channelHandlers.get(channel);
-		if (handler) {
-			try {
-				await handler(fullNotification, recipient);
-			} catch (error) {
-				console.error(`🔔 [Notifications] Failed to send via '${channel}':`, error);
+	for (const channel of fullNotification.channels) {
+		let resolved: ReturnType<typeof resolveChannel>;
+		try {
+			resolved = resolveChannel(channel);
+			if (resolved) {
+				const data = instance
+					? await formatNotification(instance, resolved.driver, recipient)
+					: fullNotification.data;
+				const message = { ...fullNotification, data };
+				const frequency = digestFrequency(message, resolved.driver, preferences);
+				if (frequency) await addToDigest(message, recipient, frequency);
+				else await resolved.handler(message, recipient);
 			}
-		} else {
+		} catch (error) {
+			console.error(`🔔 [Notifications] Failed to send via '${channel}':`, error);
+			continue;
+		}
+		if (!resolved) {
 			console.warn(
-				`🔔 [Notifications] No handler for channel '${channel}'. Notification stored but not delivered.`
+				`🔔 [Notifications] No handler for channel '${channel}'. Notification not delivered there.`
 			);
 		}
 	}
@@ -102,45 +269,362 @@ export async function notify(
 }
 
 /**
- * Get notifications for a user
+ * A notification class's data for one channel driver
+ */
+async function formatNotification(
+	notification: BaseNotification,
+	driver: string,
+	recipient: NotificationRecipient
+): Promise<Record<string, any>> {
+	const method = `to${driver.charAt(0).toUpperCase()}${driver.slice(1)}`;
+	const format = (notification as unknown as Record<string, unknown>)[method];
+	if (typeof format === 'function') return format.call(notification, recipient);
+	if (notification.toArray) return notification.toArray(recipient);
+
+	throw new Error(`${notification.type()} has no ${method}() or toArray() for this channel`);
+}
+
+function isOptedOut(preferences: NotificationPreferences, type: string, channel: string): boolean {
+	const { optOuts } = preferences;
+	return Boolean(optOuts[type]?.includes(channel) || optOuts['*']?.includes(channel));
+}
+
+/**
+ * The digest a message waits for, or null to send it now
+ */
+function digestFrequency(
+	notification: Notification,
+	driver: string,
+	preferences: NotificationPreferences
+): DigestFrequency | null {
+	if (driver !== 'mail' || notification.priority !== 'low') return null;
+	const frequency = preferences.digest ?? notificationConfig.digest?.frequency ?? 'daily';
+	return frequency === 'immediate' ? null : frequency;
+}
+
+async function addToDigest(
+	notification: Notification,
+	recipient: NotificationRecipient,
+	frequency: DigestFrequency
+): Promise<void> {
+	await getNotificationStore().addDigestItem({
+		id: crypto.randomUUID(),
+		notifiableType: recipient.type ?? 'user',
+		notifiableId: recipient.id,
+		frequency,
+		to: mailAddress(recipient),
+		type: notification.type,
+		...(await digestContent(notification)),
+		createdAt: notification.createdAt ?? new Date()
+	});
+}
+
+/**
+ * Mail each recipient one digest of their pending low-priority
+ * notifications for `frequency`, resolving how many digests were sent.
+ * Digests that fail to send are kept for the next run.
+ *
+ * @example
+ * schedule.call('notification-digests:hourly', () => sendNotificationDigests('hourly')).hourly();
+ * schedule.call('notification-digests:daily', () => sendNotificationDigests('daily')).dailyAt('08:00');
+ */
+export async function sendNotificationDigests(
+	frequency: DigestFrequency,
+	until = new Date()
+): Promise<number> {
+	const store = getNotificationStore();
+	const groups = new Map<string, NotificationDigestItem[]>();
+	for (const item of await store.takeDigestItems(frequency, until)) {
+		const key = `${item.notifiableType}:${item.notifiableId}`;
+		groups.set(key, [...(groups.get(key) ?? []), item]);
+	}
+
+	const config = notificationConfig.digest ?? {};
+	let sent = 0;
+	for (const items of groups.values()) {
+		try {
+			const mail = new NotificationDigestMail({ frequency, items }, config).to(items.at(-1)!.to);
+			if (config.from) mail.from(config.from);
+			const result = await mail.send();
+			if (!result.success) throw new Error(result.error ?? 'Mail was not sent');
+			sent++;
+		} catch (error) {
+			console.error(
+				`🔔 [Notifications] Failed to send the ${frequency} digest to '${items[0].notifiableId}':`,
+				error
+			);
+			for (const item of items) await store.addDigestItem(item);
+		}
+	}
+	return sent;
+}
+
+/**
+ * A recipient's notification preferences (nothing opted out by default)
+ */
+export async function getNotificationPreferences(
+	notifiable: NotifiableRef
+): Promise<NotificationPreferences> {
+	const [type, id] = resolveNotifiable(notifiable);
+	return (await getNotificationStore().getPreferences(type, id)) ?? { optOuts: {} };
+}
+
+/**
+ * Change a recipient's preferences. Each type in `optOuts` gets the channel
+ * list given for it (an empty list opts back in); other types are kept.
+ *
+ * @example
+ * await updateNotificationPreferences(user.id, {
+ *   optOuts: { InvoicePaid: ['mail'], '*': ['slack'] },
+ *   digest: 'hourly'
+ * });
+ */
+export async function updateNotificationPreferences(
+	notifiable: NotifiableRef,
+	changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> {
+	const [type, id] = resolveNotifiable(notifiable);
+	const current = await getNotificationPreferences(notifiable);
+	const optOuts = Object.fromEntries(
+		Object.entries({ ...current.optOuts, ...changes.optOuts }).filter(
+			([, channels]) => channels.length > 0
+		)
+	);
+	const preferences = { ...current, ...changes, optOuts };
+
+	await getNotificationStore().savePreferences(type, id, preferences);
+	return preferences;
+}
+
+/**
+ * The `database` channel: keep a copy for the recipient to read later
+ */
+async function storeNotification(
+	notification: Notification,
+	recipient: NotificationRecipient
+): Promise<void> {
+	const stored: DatabaseNotification = {
+		id: notification.id ?? crypto.randomUUID(),
+		type: notification.type,
+		notifiableType: recipient.type ?? 'user',
+		notifiableId: recipient.id,
+		data: notification.data,
+		readAt: null,
+		createdAt: notification.createdAt ?? new Date()
+	};
+	await getNotificationStore().insert(stored);
+	await broadcast(stored.notifiableType, stored.notifiableId, stored);
+}
+
+/**
+ * Tell the notifiable's open streams about a new notification or a changed
+ * unread count
+ */
+async function broadcast(
+	notifiableType: string,
+	notifiableId: string,
+	notification?: DatabaseNotification
+): Promise<void> {
+	if (!hasNotificationListeners(notifiableType, notifiableId)) return;
+	const count = await getNotificationStore().unreadCount(notifiableType, notifiableId);
+	publishNotification(notifiableType, notifiableId, { notification, unreadCount: count });
+}
+
+/**
+ * Get notifications for a user (or another notifiable), newest first
  */
 export async function getNotifications(
-	userId: string,
-	options: { unreadOnly?: boolean; limit?: number } = {}
-): Promise<Notification[]> {
-	// TODO: Implement database-backed notification retrieval
-	console.warn(`🔔 [Notifications] Database retrieval not yet implemented.`);
-	return notifications
-		.filter((n) => {
-			if (options.unreadOnly && n.readAt) return false;
-			return true;
-		})
-		.slice(0, options.limit || 50);
+	notifiable: NotifiableRef,
+	options: NotificationQuery & { limit?: number } = {}
+): Promise<DatabaseNotification[]> {
+	const { data } = await paginateNotifications(notifiable, {
+		...options,
+		perPage: options.perPage ?? options.limit ?? 50
+	});
+	return data;
 }
 
 /**
- * Mark a notification as read
+ * A page of notifications for a user (or another notifiable), newest first
  */
-export async function markAsRead(notificationId: string): Promise<void> {
-	const notification = notifications.find((n) => n.id === notificationId);
-	if (notification) {
-		notification.readAt = new Date();
+export async function paginateNotifications(
+	notifiable: NotifiableRef,
+	options: NotificationQuery = {}
+): Promise<PaginatedNotifications> {
+	const [type, id] = resolveNotifiable(notifiable);
+	const page = Math.max(1, Math.floor(options.page ?? 1));
+	const perPage = Math.min(MAX_PER_PAGE, Math.max(1, Math.floor(options.perPage ?? 15)));
+	const offset = (page - 1) * perPage;
+
+	const { data, total } = await getNotificationStore().list(type, id, {
+		unreadOnly: options.unreadOnly ?? false,
+		offset,
+		limit: perPage
+	});
+	const lastPage = Math.ceil(total / perPage);
+
+	return {
+		data,
+		meta: {
+			current_page: page,
+			per_page: perPage,
+			total,
+			last_page: lastPage,
+			from: offset + 1,
+			to: Math.min(offset + perPage, total),
+			has_more: page < lastPage,
+			links: {
+				first: 1,
+				last: lastPage,
+				prev: page > 1 ? page - 1 : null,
+				next: page < lastPage ? page + 1 : null
+			}
+		}
+	};
+}
+
+/**
+ * Mark notifications as read. Only notifications belonging to `notifiable`
+ * are touched; resolves how many changed.
+ */
+export async function markAsRead(
+	notifiable: NotifiableRef,
+	notificationIds: string | string[]
+): Promise<number>;
+/**
+ * Mark one notification as read, whoever it belongs to
+ *
+ * @deprecated Pass the notifiable as well, `markAsRead(user, notificationId)`,
+ * so one user cannot mark another's notifications
+ */
+export async function markAsRead(notificationId: string): Promise<number>;
+export async function markAsRead(
+	notifiable: NotifiableRef,
+	notificationIds?: string | string[]
+): Promise<number> {
+	if (notificationIds === undefined) {
+		const notification = await getNotificationStore().find(notifiable as string);
+		if (!notification) return 0;
+		return markAsRead(
+			{ type: notification.notifiableType, id: notification.notifiableId },
+			notification.id
+		);
 	}
+
+	const [type, id] = resolveNotifiable(notifiable);
+	const ids = Array.isArray(notificationIds) ? notificationIds : [notificationIds];
+	const changed = await getNotificationStore().markAsRead(type, id, ids, new Date());
+	if (changed > 0) await broadcast(type, id);
+	return changed;
 }
 
 /**
  * Mark all notifications as read for a user
  */
-export async function markAllAsRead(userId: string): Promise<void> {
-	// TODO: Filter by userId when backed by database
-	notifications.forEach((n) => {
-		if (!n.readAt) n.readAt = new Date();
-	});
+export async function markAllAsRead(notifiable: NotifiableRef): Promise<number> {
+	const [type, id] = resolveNotifiable(notifiable);
+	const changed = await getNotificationStore().markAsRead(type, id, undefined, new Date());
+	if (changed > 0) await broadcast(type, id);
+	return changed;
 }
 
 /**
  * Get unread notification count
  */
-export async function unreadCount(userId: string): Promise<number> {
-	return notifications.filter((n) => !n.readAt).length;
+export async function unreadCount(notifiable: NotifiableRef): Promise<number> {
+	const [type, id] = resolveNotifiable(notifiable);
+	return getNotificationStore().unreadCount(type, id);
+}
+
+/**
+ * Delete notifications belonging to `notifiable`, resolving how many were removed
+ */
+export async function deleteNotifications(
+	notifiable: NotifiableRef,
+	notificationIds: string | string[]
+): Promise<number> {
+	const [type, id] = resolveNotifiable(notifiable);
+	const ids = Array.isArray(notificationIds) ? notificationIds : [notificationIds];
+	const deleted = await getNotificationStore().delete(type, id, ids);
+	if (deleted > 0) await broadcast(type, id);
+	return deleted;
+}
+
+/**
+ * Serve the signed-in user's notifications from a `+server.ts` route, for
+ * `NotificationState` in `omni-svelte/notifications/client`:
+ *
+ *   GET  (Accept: text/event-stream)  live stream: a `snapshot` of the latest
+ *                                     notifications, then `notification` and
+ *                                     `unread` events
+ *   GET  ?page=&perPage=&unread=1     a page of notifications as JSON
+ *   POST { ids: string[] }            mark those as read
+ *   POST { all: true }                mark every notification as read
+ *
+ * Answers 401 when `notifiable` is missing, and 400 for any other POST body.
+ *
+ * Streams only hear `notify()` calls made in the process serving them, so
+ * notifications sent from a queue worker or another server instance reach
+ * open streams on their next connection's snapshot, not live.
+ *
+ * @example
+ * // src/routes/api/notifications/+server.ts
+ * export const GET: RequestHandler = ({ request, locals }) =>
+ *   handleNotificationRequest(request, locals.user?.id);
+ * export const POST = GET;
+ */
+export async function handleNotificationRequest(
+	request: Request,
+	notifiable: NotifiableRef | null | undefined,
+	options: { snapshotSize?: number } = {}
+): Promise<Response> {
+	if (!notifiable) return Response.json({ error: 'Unauthenticated' }, { status: 401 });
+	const [type, id] = resolveNotifiable(notifiable);
+
+	if (request.method === 'POST') {
+		const body = await request.json().catch(() => null);
+		if (body?.all === true) {
+			await markAllAsRead(notifiable);
+		} else if (
+			Array.isArray(body?.ids) &&
+			body.ids.every((id: unknown) => typeof id === 'string')
+		) {
+			await markAsRead(notifiable, body.ids);
+		} else {
+			return Response.json(
+				{ error: 'Expected { ids: string[] } or { all: true }' },
+				{ status: 400 }
+			);
+		}
+		return Response.json({ unreadCount: await unreadCount(notifiable) });
+	}
+	if (request.method !== 'GET') return new Response('Method not allowed', { status: 405 });
+
+	if (request.headers.get('Accept')?.includes('text/event-stream')) {
+		const [{ data }, count] = await Promise.all([
+			paginateNotifications(notifiable, { perPage: options.snapshotSize ?? 20 }),
+			unreadCount(notifiable)
+		]);
+		return notificationStream(
+			type,
+			id,
+			{ notifications: data, unreadCount: count },
+			request.signal
+		);
+	}
+
+	const params = new URL(request.url).searchParams;
+	return Response.json(
+		await paginateNotifications(notifiable, {
+			page: Number(params.get('page')) || 1,
+			perPage: Number(params.get('perPage')) || 15,
+			unreadOnly: params.get('unread') === '1' || params.get('unread') === 'true'
+		})
+	);
+}
+
+function resolveNotifiable(notifiable: NotifiableRef): [type: string, id: string] {
+	return typeof notifiable === 'string'
+		? ['user', notifiable]
+		: [notifiable.type ?? 'user', String(notifiable.id)];
 }
@@ -0,0 +1,293 @@
+import { and, desc, eq, inArray, isNull, lte, sql, type SQL } from 'drizzle-orm';
+import { index, pgTable, text, timestamp, uniqueIndex, varchar } from 'drizzle-orm/pg-core';
+import { getDatabase } from '../../database/database.js';
+import type {
+	DatabaseNotification,
+	DigestFrequency,
+	NotificationDigestItem,
+	NotificationPreferences,
+	NotificationStore
+} from '../types.js';
+
+/**
+ * The `notifications` table as generated from the schema written by
+ * `omni generate notifications`. `data` is a JSON column, which the schema
+ * generator stores as text.
+ */
+export const notificationsTable = pgTable(
+	'notifications',
+	{
+		id: varchar('id', { length: 36 }).primaryKey(),
+		type: varchar('type', { length: 255 }).notNull(),
+		notifiableType: varchar('notifiable_type', { length: 255 }).notNull(),
+		notifiableId: varchar('notifiable_id', { length: 255 }).notNull(),
+		data: text('data').notNull(),
+		readAt: timestamp('read_at'),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull()
+	},
+	(table) => [
+		index('notifications_notifiable_type_notifiable_id_idx').on(
+			table.notifiableType,
+			table.notifiableId
+		)
+	]
+);
+
+/**
+ * One row of preferences (as JSON) per notifiable, kept unique so saving
+ * preferences can upsert
+ */
+export const notificationPreferencesTable = pgTable(
+	'notification_preferences',
+	{
+		id: varchar('id', { length: 36 }).primaryKey(),
+		notifiableType: varchar('notifiable_type', { length: 255 }).notNull(),
+		notifiableId: varchar('notifiable_id', { length: 255 }).notNull(),
+		preferences: text('preferences').notNull(),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull()
+	},
+	(table) => [
+		uniqueIndex('notification_preferences_notifiable_type_notifiable_id_idx').on(
+			table.notifiableType,
+			table.notifiableId
+		)
+	]
+);
+
+/**
+ * Low-priority mail waiting for a digest. `address` holds the routed
+ * address(es) as JSON.
+ */
+export const notificationDigestsTable = pgTable(
+	'notification_digests',
+	{
+		id: varchar('id', { length: 36 }).primaryKey(),
+		notifiableType: varchar('notifiable_type', { length: 255 }).notNull(),
+		notifiableId: varchar('notifiable_id', { length: 255 }).notNull(),
+		frequency: varchar('frequency', { length: 16 }).notNull(),
+		address: text('address').notNull(),
+		type: varchar('type', { length: 255 }).notNull(),
+		subject: text('subject').notNull(),
+		text: text('text'),
+		url: text('url'),
+		createdAt: timestamp('created_at').defaultNow().notNull(),
+		updatedAt: timestamp('updated_at').defaultNow().notNull()
+	},
+	(table) => [
+		index('notification_digests_notifiable_type_notifiable_id_idx').on(
+			table.notifiableType,
+			table.notifiableId
+		)
+	]
+);
+
+type NotificationRow = typeof notificationsTable.$inferSelect;
+type DigestRow = typeof notificationDigestsTable.$inferSelect;
+
+/**
+ * Stores notifications in the `notifications` table, one row per recipient
+ */
+export class DatabaseNotificationStore implements NotificationStore {
+	async insert(notification: DatabaseNotification): Promise<void> {
+		await getDatabase()
+			.insert(notificationsTable)
+			.values({
+				id: notification.id,
+				type: notification.type,
+				notifiableType: notification.notifiableType,
+				notifiableId: notification.notifiableId,
+				data: JSON.stringify(notification.data),
+				readAt: notification.readAt,
+				createdAt: notification.createdAt,
+				updatedAt: notification.createdAt
+			});
+	}
+
+	async find(id: string): Promise<DatabaseNotification | null> {
+		const [row] = await getDatabase()
+			.select()
+			.from(notificationsTable)
+			.where(eq(notificationsTable.id, id))
+			.limit(1);
+		return row ? toNotification(row) : null;
+	}
+
+	async list(
+		notifiableType: string,
+		notifiableId: string,
+		options: { unreadOnly: boolean; offset: number; limit: number }
+	): Promise<{ data: DatabaseNotification[]; total: number }> {
+		const db = getDatabase();
+		const where = and(
+			this.owner(notifiableType, notifiableId),
+			options.unreadOnly ? isNull(notificationsTable.readAt) : undefined
+		);
+
+		const [rows, [counted]] = await Promise.all([
+			db
+				.select()
+				.from(notificationsTable)
+				.where(where)
+				.orderBy(desc(notificationsTable.createdAt), desc(notificationsTable.id))
+				.limit(options.limit)
+				.offset(options.offset),
+			db
+				.select({ count: sql<number>`count(*)::int` })
+				.from(notificationsTable)
+				.where(where)
+		]);
+
+		return { data: rows.map(toNotification), total: Number(counted?.count ?? 0) };
+	}
+
+	async unreadCount(notifiableType: string, notifiableId: string): Promise<number> {
+		const [counted] = await getDatabase()
+			.select({ count: sql<number>`count(*)::int` })
+			.from(notificationsTable)
+			.where(and(this.owner(notifiableType, notifiableId), isNull(notificationsTable.readAt)));
+		return Number(counted?.count ?? 0);
+	}
+
+	async markAsRead(
+		notifiableType: string,
+		notifiableId: string,
+		ids: string[] | undefined,
+		readAt: Date
+	): Promise<number> {
+		if (ids?.length === 0) return 0;
+		const rows = await getDatabase()
+			.update(notificationsTable)
+			.set({ readAt, updatedAt: readAt })
+			.where(
+				and(
+					this.owner(notifiableType, notifiableId),
+					isNull(notificationsTable.readAt),
+					ids ? inArray(notificationsTable.id, ids) : undefined
+				)
+			)
+			.returning({ id: notificationsTable.id });
+		return rows.length;
+	}
+
+	async delete(notifiableType: string, notifiableId: string, ids: string[]): Promise<number> {
+		if (ids.length === 0) return 0;
+		const rows = await getDatabase()
+			.delete(notificationsTable)
+			.where(and(this.owner(notifiableType, notifiableId), inArray(notificationsTable.id, ids)))
+			.returning({ id: notificationsTable.id });
+		return rows.length;
+	}
+
+	async getPreferences(
+		notifiableType: string,
+		notifiableId: string
+	): Promise<NotificationPreferences | null> {
+		const [row] = await getDatabase()
+			.select({ preferences: notificationPreferencesTable.preferences })
+			.from(notificationPreferencesTable)
+			.where(
+				and(
+					eq(notificationPreferencesTable.notifiableType, notifiableType),
+					eq(notificationPreferencesTable.notifiableId, notifiableId)
+				)
+			)
+			.limit(1);
+		return row ? JSON.parse(row.preferences) : null;
+	}
+
+	async savePreferences(
+		notifiableType: string,
+		notifiableId: string,
+		preferences: NotificationPreferences
+	): Promise<void> {
+		const now = new Date();
+		await getDatabase()
+			.insert(notificationPreferencesTable)
+			.values({
+				id: crypto.randomUUID(),
+				notifiableType,
+				notifiableId,
+				preferences: JSON.stringify(preferences),
+				createdAt: now,
+				updatedAt: now
+			})
+			.onConflictDoUpdate({
+				target: [
+					notificationPreferencesTable.notifiableType,
+					notificationPreferencesTable.notifiableId
+				],
+				set: { preferences: JSON.stringify(preferences), updatedAt: now }
+			});
+	}
+
+	async addDigestItem(item: NotificationDigestItem): Promise<void> {
+		await getDatabase()
+			.insert(notificationDigestsTable)
+			.values({
+				id: item.id,
+				notifiableType: item.notifiableType,
+				notifiableId: item.notifiableId,
+				frequency: item.frequency,
+				address: JSON.stringify(item.to),
+				type: item.type,
+				subject: item.subject,
+				text: item.text ?? null,
+				url: item.url ?? null,
+				createdAt: item.createdAt,
+				updatedAt: item.createdAt
+			});
+	}
+
+	async takeDigestItems(
+		frequency: DigestFrequency,
+		until: Date
+	): Promise<NotificationDigestItem[]> {
+		// A single DELETE ... RETURNING, so two workers never send the same item
+		const rows = await getDatabase()
+			.delete(notificationDigestsTable)
+			.where(
+				and(
+					eq(notificationDigestsTable.frequency, frequency),
+					lte(notificationDigestsTable.createdAt, until)
+				)
+			)
+			.returning();
+		return rows.map(toDigestItem).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+	}
+
+	private owner(notifiableType: string, notifiableId: string): SQL | undefined {
+		return and(
+			eq(notificationsTable.notifiableType, notifiableType),
+			eq(notificationsTable.notifiableId, notifiableId)
+		);
+	}
+}
+
+function toNotification(row: NotificationRow): DatabaseNotification {
+	return {
+		id: row.id,
+		type: row.type,
+		notifiableType: row.notifiableType,
+		notifiableId: row.notifiableId,
+		data: JSON.parse(row.data),
+		readAt: row.readAt,
+		createdAt: row.createdAt
+	};
+}
+
+function toDigestItem(row: DigestRow): NotificationDigestItem {
+	return {
+		id: row.id,
+		notifiableType: row.notifiableType,
+		notifiableId: row.notifiableId,
+		frequency: row.frequency as DigestFrequency,
+		to: JSON.parse(row.address),
+		type: row.type,
+		subject: row.subject,
+		text: row.text ?? undefined,
+		url: row.url ?? undefined,
+		createdAt: row.createdAt
+	};
+}
@@ -0,0 +1,111 @@
+import type {
+	DatabaseNotification,
+	DigestFrequency,
+	NotificationDigestItem,
+	NotificationPreferences,
+	NotificationStore
+} from '../types.js';
+
+/**
+ * Keeps notifications in process memory (the default; nothing survives a restart)
+ */
+export class MemoryNotificationStore implements NotificationStore {
+	private notifications: DatabaseNotification[] = [];
+	private preferences = new Map<string, NotificationPreferences>();
+	private digestItems: NotificationDigestItem[] = [];
+
+	async insert(notification: DatabaseNotification): Promise<void> {
+		this.notifications.push({ ...notification });
+	}
+
+	async find(id: string): Promise<DatabaseNotification | null> {
+		const notification = this.notifications.find((candidate) => candidate.id === id);
+		return notification ? { ...notification } : null;
+	}
+
+	async list(
+		notifiableType: string,
+		notifiableId: string,
+		options: { unreadOnly: boolean; offset: number; limit: number }
+	): Promise<{ data: DatabaseNotification[]; total: number }> {
+		const matching = this.owned(notifiableType, notifiableId)
+			.filter((notification) => !options.unreadOnly || !notification.readAt)
+			.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+		return {
+			data: matching
+				.slice(options.offset, options.offset + options.limit)
+				.map((notification) => ({ ...notification })),
+			total: matching.length
+		};
+	}
+
+	async unreadCount(notifiableType: string, notifiableId: string): Promise<number> {
+		return this.owned(notifiableType, notifiableId).filter((notification) => !notification.readAt)
+			.length;
+	}
+
+	async markAsRead(
+		notifiableType: string,
+		notifiableId: string,
+		ids: string[] | undefined,
+		readAt: Date
+	): Promise<number> {
+		let changed = 0;
+		for (const notification of this.owned(notifiableType, notifiableId)) {
+			if (notification.readAt || (ids && !ids.includes(notification.id))) continue;
+			notification.readAt = readAt;
+			changed++;
+		}
+		return changed;
+	}
+
+	async delete(notifiableType: string, notifiableId: string, ids: string[]): Promise<number> {
+		const before = this.notifications.length;
+		this.notifications = this.notifications.filter(
+			(notification) =>
+				notification.notifiableType !== notifiableType ||
+				notification.notifiableId !== notifiableId ||
+				!ids.includes(notification.id)
+		);
+		return before - this.notifications.length;
+	}
+
+	async getPreferences(
+		notifiableType: string,
+		notifiableId: string
+	): Promise<NotificationPreferences | null> {
+		const preferences = this.preferences.get(`${notifiableType}:${notifiableId}`);
+		return preferences ? structuredClone(preferences) : null;
+	}
+
+	async savePreferences(
+		notifiableType: string,
+		notifiableId: string,
+		preferences: NotificationPreferences
+	): Promise<void> {
+		this.preferences.set(`${notifiableType}:${notifiableId}`, structuredClone(preferences));
+	}
+
+	async addDigestItem(item: NotificationDigestItem): Promise<void> {
+		this.digestItems.push({ ...item });
+	}
+
+	async takeDigestItems(
+		frequency: DigestFrequency,
+		until: Date
+	): Promise<NotificationDigestItem[]> {
+		const due = (item: NotificationDigestItem) =>
+			item.frequency === frequency && item.createdAt <= until;
+		const taken = this.digestItems.filter(due);
+		this.digestItems = this.digestItems.filter((item) => !due(item));
+		return taken.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+	}
+
+	private owned(notifiableType: string, notifiableId: string): DatabaseNotification[] {
+		return this.notifications.filter(
+			(notification) =>
+				notification.notifiableType === notifiableType && notification.notifiableId === notifiableId
+		);
+	}
+}
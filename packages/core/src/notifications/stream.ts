@@ -0,0 +1,124 @@
+import type { DatabaseNotification } from './types.js';
+
+/**
+ * What open streams are told: a new notification (with the unread count
+ * after it), or just a changed unread count
+ */
+export interface NotificationStreamMessage {
+	notification?: DatabaseNotification;
+	unreadCount: number;
+}
+
+type Listener = (message: NotificationStreamMessage) => void;
+
+/**
+ * Open streams by notifiable. They live on globalThis so a stream served by
+ * one copy of this module (e.g. after an HMR reload) still hears `notify()`
+ * calls made through another. Only streams in this process are reached.
+ */
+const LISTENERS = Symbol.for('omni-svelte.notifications.listeners');
+
+type ListenersGlobal = typeof globalThis & { [LISTENERS]?: Map<string, Set<Listener>> };
+
+function listeners(): Map<string, Set<Listener>> {
+	return ((globalThis as ListenersGlobal)[LISTENERS] ??= new Map());
+}
+
+export function hasNotificationListeners(notifiableType: string, notifiableId: string): boolean {
+	return listeners().has(`${notifiableType}:${notifiableId}`);
+}
+
+export function publishNotification(
+	notifiableType: string,
+	notifiableId: string,
+	message: NotificationStreamMessage
+): void {
+	for (const listener of listeners().get(`${notifiableType}:${notifiableId}`) ?? []) {
+		listener(message);
+	}
+}
+
+function subscribe(key: string, listener: Listener): () => void {
+	const all = listeners();
+	const set = all.get(key) ?? new Set();
+	all.set(key, set.add(listener));
+	return () => {
+		set.delete(listener);
+		if (set.size === 0) all.delete(key);
+	};
+}
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_INTERVAL = 25_000;
+
+/**
+ * A server-sent events response for one notifiable. It starts with a
+ * `snapshot` event, then sends `notification` and `unread` events as they
+ * happen, until the client disconnects or `signal` aborts.
+ */
+export function notificationStream(
+	notifiableType: string,
+	notifiableId: string,
+	snapshot: { notifications: DatabaseNotification[]; unreadCount: number },
+	signal?: AbortSignal
+): Response {
+	const encoder = new TextEncoder();
+	let closed = false;
+	let close = () => {
+		closed = true;
+	};
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			// The client left while the snapshot was loading
+			if (signal?.aborted) {
+				closed = true;
+				controller.close();
+				return;
+			}
+
+			const write = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+			const send = (event: string, data: unknown, id?: string) =>
+				write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+			const unsubscribe = subscribe(`${notifiableType}:${notifiableId}`, (message) => {
+				if (message.notification) {
+					send('notification', message.notification, message.notification.id);
+				}
+				send('unread', { count: message.unreadCount });
+			});
+			const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+			close = () => {
+				if (closed) return;
+				closed = true;
+				clearInterval(heartbeat);
+				unsubscribe();
+			};
+			signal?.addEventListener(
+				'abort',
+				() => {
+					if (closed) return;
+					close();
+					controller.close();
+				},
+				{ once: true }
+			);
+
+			send('snapshot', snapshot);
+		},
+		cancel() {
+			close();
+		}
+	});
+
+	return new Response(body, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+			// Stop nginx from buffering the stream
+			'X-Accel-Buffering': 'no'
+		}
+	});
+}
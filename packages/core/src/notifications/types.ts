@@ -0,0 +1,256 @@
+/**
+ * Omni Notifications - Shared types
+ */
+
+import type { Component } from 'svelte';
+import type { MailAttachment } from '../mail/types.js';
+
+export interface NotificationConfig {
+	channels: NotificationChannel[];
+	defaultChannel?: string;
+	/**
+	 * Where the `database` channel keeps notifications: the built-in `memory` or
+	 * `database` store, or the name of one added with `registerNotificationStore()`
+	 */
+	store?: 'memory' | 'database' | (string & {});
+	digest?: NotificationDigestConfig;
+}
+
+export type DigestFrequency = 'hourly' | 'daily';
+
+/**
+ * Low-priority notifications bound for a `mail` channel wait for the
+ * recipient's next digest instead of being mailed one by one. Send the
+ * digests with `sendNotificationDigests()`, e.g. from the scheduler.
+ */
+export interface NotificationDigestConfig {
+	/** For recipients without a preference (default `'daily'`) */
+	frequency?: DigestFrequency | 'immediate';
+	from?: string;
+	subject?: (frequency: DigestFrequency, count: number) => string;
+	/** Replaces the built-in digest email */
+	template?: Component<NotificationDigestProps>;
+}
+
+export interface NotificationDigestProps {
+	frequency: DigestFrequency;
+	items: NotificationDigestItem[];
+}
+
+export interface NotificationChannel {
+	name: string;
+	driver: 'mail' | 'sms' | 'push' | 'database' | 'slack' | 'webhook';
+	/** Options for the driver, e.g. `WebhookChannelConfig` or `SlackChannelConfig` */
+	config?: Record<string, any>;
+}
+
+export type NotificationChannelHandler = (
+	notification: Notification,
+	recipient: NotificationRecipient
+) => Promise<void>;
+
+/**
+ * Builds the handler for a channel from its `config`
+ */
+export type NotificationChannelFactory = (
+	config: Record<string, any>
+) => NotificationChannelHandler;
+
+/**
+ * `mail` driver options. The message comes from the notification's data:
+ * `subject` (or `title`, falling back to the type), `text` (or `message`)
+ * and `html`.
+ */
+export interface MailChannelConfig {
+	from?: string;
+	replyTo?: string;
+}
+
+/**
+ * `webhook` driver options. With a `secret`, each request carries an
+ * `X-Omni-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`
+ * header that receivers check with `verifyWebhookSignature()`.
+ */
+export interface WebhookChannelConfig {
+	/** Used when the recipient doesn't route `webhook` itself */
+	url?: string;
+	secret?: string;
+	headers?: Record<string, string>;
+}
+
+/**
+ * `slack` driver options. The message is built from the notification's data:
+ * `blocks` are sent as-is, otherwise `title`, `message` and an optional
+ * `url` (with `actionText`) become header, section and button blocks.
+ */
+export interface SlackChannelConfig {
+	/** Incoming webhook URL, used when the recipient doesn't route `slack` itself */
+	webhookUrl?: string;
+	username?: string;
+	iconEmoji?: string;
+}
+
+export interface Notification {
+	id?: string;
+	type: string;
+	channels: string[];
+	data: Record<string, any>;
+	/** `'low'` sends `mail` channels in the recipient's digest */
+	priority?: NotificationPriority;
+	readAt?: Date;
+	createdAt?: Date;
+}
+
+export type NotificationPriority = 'low' | 'normal';
+
+/**
+ * A recipient's choices, kept by the notification store
+ */
+export interface NotificationPreferences {
+	/** Channels not to send through, by notification type; `'*'` applies to every type */
+	optOuts: Record<string, string[]>;
+	/** When low-priority mail goes out; `'immediate'` skips the digest */
+	digest?: DigestFrequency | 'immediate';
+}
+
+/**
+ * A low-priority mail waiting for the recipient's digest
+ */
+export interface NotificationDigestItem {
+	id: string;
+	notifiableType: string;
+	notifiableId: string;
+	frequency: DigestFrequency;
+	/** Routed when the notification was sent */
+	to: string | string[];
+	type: string;
+	subject: string;
+	text?: string;
+	url?: string;
+	createdAt: Date;
+}
+
+/**
+ * Who a notification goes to. Implement `routeNotificationFor()` (see
+ * `Notifiable`) to pick the address per channel; otherwise `mail` uses
+ * `email`, and `webhook`/`slack` use the URL from the channel config.
+ */
+export interface NotificationRecipient extends Partial<Notifiable> {
+	id: string;
+	/** Stored as `notifiable_type` (default `'user'`) */
+	type?: string;
+	email?: string;
+	phone?: string;
+	pushTokens?: string[];
+}
+
+export interface Notifiable {
+	/** Address for a channel (email, webhook URL, ...), or null for the default */
+	routeNotificationFor(channel: string): string | string[] | null;
+}
+
+/**
+ * What `toMail()` returns when it doesn't use a `Mailable`
+ */
+export interface MailNotificationContent {
+	subject: string;
+	text?: string;
+	html?: string;
+	from?: string;
+	replyTo?: string;
+	cc?: string | string[];
+	bcc?: string | string[];
+	attachments?: MailAttachment[];
+}
+
+/**
+ * What `toSlack()` returns; `text` is the fallback shown in notifications
+ */
+export interface SlackNotificationContent {
+	text: string;
+	blocks?: Record<string, any>[];
+}
+
+/**
+ * Whose notifications to read: a user id, or an id with its notifiable type
+ */
+export type NotifiableRef = string | { id: string; type?: string };
+
+/**
+ * A notification stored for one recipient by the `database` channel
+ */
+export interface DatabaseNotification {
+	id: string;
+	type: string;
+	notifiableType: string;
+	notifiableId: string;
+	data: Record<string, any>;
+	readAt: Date | null;
+	createdAt: Date;
+}
+
+export interface NotificationQuery {
+	unreadOnly?: boolean;
+	/** 1-based */
+	page?: number;
+	/** Defaults to 15, at most 100 */
+	perPage?: number;
+}
+
+/**
+ * Same shape as `QueryBuilder.paginate()`
+ */
+export interface PaginatedNotifications {
+	data: DatabaseNotification[];
+	meta: {
+		current_page: number;
+		per_page: number;
+		total: number;
+		last_page: number;
+		from: number;
+		to: number;
+		has_more: boolean;
+		links: { first: number; last: number; prev: number | null; next: number | null };
+	};
+}
+
+/**
+ * Contract implemented by every notification store. Reads and updates are
+ * always scoped to one notifiable, so a user only ever sees and marks their
+ * own notifications.
+ */
+export interface NotificationStore {
+	insert(notification: DatabaseNotification): Promise<void>;
+	/** One notification by id, whoever it belongs to */
+	find(id: string): Promise<DatabaseNotification | null>;
+	/** Newest first, with the total for pagination */
+	list(
+		notifiableType: string,
+		notifiableId: string,
+		options: { unreadOnly: boolean; offset: number; limit: number }
+	): Promise<{ data: DatabaseNotification[]; total: number }>;
+	unreadCount(notifiableType: string, notifiableId: string): Promise<number>;
+	/** Mark the given notifications (or all when `ids` is omitted) as read, returning how many changed */
+	markAsRead(
+		notifiableType: string,
+		notifiableId: string,
+		ids: string[] | undefined,
+		readAt: Date
+	): Promise<number>;
+	/** Remove notifications, returning how many were deleted */
+	delete(notifiableType: string, notifiableId: string, ids: string[]): Promise<number>;
+	getPreferences(
+		notifiableType: string,
+		notifiableId: string
+	): Promise<NotificationPreferences | null>;
+	savePreferences(
+		notifiableType: string,
+		notifiableId: string,
+		preferences: NotificationPreferences
+	): Promise<void>;
+	addDigestItem(item: NotificationDigestItem): Promise<void>;
+	/** Remove and return the items for `frequency` created up to `until`, oldest first */
+	takeDigestItems(frequency: DigestFrequency, until: Date): Promise<NotificationDigestItem[]>;
+}
+
+export type NotificationStoreFactory = (config: NotificationConfig) => NotificationStore;
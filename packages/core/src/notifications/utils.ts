@@ -0,0 +1,29 @@
+import type { NotificationRecipient } from './types.js';
+
+/**
+ * The recipient's own address for a channel, if it routes one
+ */
+export function routeNotification(
+	recipient: NotificationRecipient,
+	channel: string
+): string | string[] | null {
+	return recipient.routeNotificationFor?.(channel) ?? null;
+}
+
+/**
+ * A single URL routed by the recipient, falling back to the channel's
+ */
+export function routeUrl(
+	recipient: NotificationRecipient,
+	channel: string,
+	fallback: string | undefined
+): string {
+	const route = routeNotification(recipient, channel);
+	const url = (Array.isArray(route) ? route[0] : route) ?? fallback;
+	if (!url) {
+		throw new Error(
+			`No ${channel} URL for recipient '${recipient.id}'. Set one in the channel config or route it with routeNotificationFor().`
+		);
+	}
+	return url;
+}
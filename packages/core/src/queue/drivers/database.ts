@@ -0,0 +1,325 @@
+import { and, asc, desc, eq, inArray, lte, sql } from 'drizzle-orm';
+import { integer, jsonb, pgTable, text, timestamp, uuid, varchar } from 'drizzle-orm/pg-core';
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js';
+import { getDatabase } from '../../database/database.js';
+import type {
+	BackoffOptions,
+	BatchRecord,
+	FailedJob,
+	Job,
+	PendingJob,
+	QueueDriver,
+	QueueStatus
+} from '../types.js';
+import { retryableJob } from '../utils.js';
+
+/**
+ * The `jobs` table, created by the `CreateJobsTable` migration
+ */
+export const jobsTable = pgTable('jobs', {
+	id: uuid('id').primaryKey(),
+	name: varchar('name', { length: 255 }).notNull(),
+	queue: varchar('queue', { length: 255 }).notNull(),
+	payload: jsonb('payload'),
+	status: varchar('status', { length: 20 }).notNull(),
+	attempts: integer('attempts').notNull().default(0),
+	maxAttempts: integer('max_attempts').notNull(),
+	priority: integer('priority').notNull().default(0),
+	backoff: jsonb('backoff').$type<number | BackoffOptions>(),
+	timeout: integer('timeout'),
+	error: text('error'),
+	availableAt: timestamp('available_at', { withTimezone: true }).notNull(),
+	reservedAt: timestamp('reserved_at', { withTimezone: true }),
+	chain: jsonb('chain').$type<PendingJob[]>(),
+	batchId: uuid('batch_id'),
+	uniqueKey: varchar('unique_key', { length: 255 }),
+	createdAt: timestamp('created_at', { withTimezone: true }).notNull(),
+	completedAt: timestamp('completed_at', { withTimezone: true })
+});
+
+/**
+ * The `failed_jobs` table, created by the `CreateFailedJobsTable` migration
+ */
+export const failedJobsTable = pgTable('failed_jobs', {
+	id: uuid('id').primaryKey(),
+	name: varchar('name', { length: 255 }).notNull(),
+	queue: varchar('queue', { length: 255 }).notNull(),
+	payload: jsonb('payload'),
+	attempts: integer('attempts').notNull(),
+	maxAttempts: integer('max_attempts').notNull(),
+	priority: integer('priority').notNull().default(0),
+	backoff: jsonb('backoff').$type<number | BackoffOptions>(),
+	timeout: integer('timeout'),
+	error: text('error').notNull(),
+	stack: text('stack'),
+	chain: jsonb('chain').$type<PendingJob[]>(),
+	batchId: uuid('batch_id'),
+	createdAt: timestamp('created_at', { withTimezone: true }).notNull(),
+	failedAt: timestamp('failed_at', { withTimezone: true }).notNull()
+});
+
+/**
+ * The `job_batches` table, created by the `CreateJobBatchesTable` migration
+ */
+export const jobBatchesTable = pgTable('job_batches', {
+	id: uuid('id').primaryKey(),
+	name: varchar('name', { length: 255 }),
+	totalJobs: integer('total_jobs').notNull(),
+	pendingJobs: integer('pending_jobs').notNull(),
+	failedJobs: integer('failed_jobs').notNull().default(0),
+	failedJobIds: jsonb('failed_job_ids').$type<string[]>().notNull(),
+	callbacks: jsonb('callbacks').$type<BatchRecord['callbacks']>().notNull(),
+	createdAt: timestamp('created_at', { withTimezone: true }).notNull(),
+	finishedAt: timestamp('finished_at', { withTimezone: true })
+});
+
+type JobRow = typeof jobsTable.$inferSelect;
+type FailedJobRow = typeof failedJobsTable.$inferSelect;
+type BatchRow = typeof jobBatchesTable.$inferSelect;
+
+/**
+ * Durable queue driver backed by the Postgres `jobs` table.
+ *
+ * Workers claim jobs with `SELECT ... FOR UPDATE SKIP LOCKED`, so any number
+ * of processes can poll the same queue without handing a job out twice. A
+ * claimed job's `available_at` is pushed past its timeout plus `retryAfter`;
+ * if the worker dies mid-job, the row becomes available again after that.
+ * Completed jobs are deleted and failed ones move to `failed_jobs`, so the
+ * table only holds pending and running work.
+ */
+export class DatabaseQueueDriver implements QueueDriver {
+	constructor(private retryAfter = 90_000) {}
+
+	async push(job: Job): Promise<void> {
+		await this.insert(getDatabase(), job);
+	}
+
+	private async insert(db: Pick<PostgresJsDatabase, 'insert'>, job: Job) {
+		await db.insert(jobsTable).values({
+			id: job.id,
+			name: job.name,
+			queue: job.queue,
+			payload: job.data,
+			status: job.status,
+			attempts: job.attempts,
+			maxAttempts: job.maxAttempts,
+			priority: job.priority,
+			backoff: job.backoff ?? null,
+			timeout: job.timeout ?? null,
+			availableAt: job.availableAt,
+			chain: job.chain ?? null,
+			batchId: job.batchId ?? null,
+			uniqueKey: job.uniqueKey ?? null,
+			createdAt: job.createdAt
+		});
+	}
+
+	async reserve(queue: string): Promise<Job | null> {
+		const db = getDatabase();
+		const now = new Date();
+
+		const next = db
+			.select({ id: jobsTable.id })
+			.from(jobsTable)
+			.where(
+				and(
+					eq(jobsTable.queue, queue),
+					inArray(jobsTable.status, ['pending', 'processing']),
+					lte(jobsTable.availableAt, now)
+				)
+			)
+			.orderBy(desc(jobsTable.priority), asc(jobsTable.availableAt))
+			.limit(1)
+			.for('update', { skipLocked: true });
+
+		const [row] = await db
+			.update(jobsTable)
+			.set({
+				status: 'processing',
+				attempts: sql`${jobsTable.attempts} + 1`,
+				reservedAt: now,
+				availableAt: sql`${now.toISOString()}::timestamptz + (coalesce(${jobsTable.timeout}, 0) + ${this.retryAfter}) * interval '1 millisecond'`
+			})
+			.where(inArray(jobsTable.id, next))
+			.returning();
+
+		return row ? toJob(row) : null;
+	}
+
+	async complete(job: Job): Promise<void> {
+		await getDatabase().delete(jobsTable).where(eq(jobsTable.id, job.id));
+	}
+
+	async release(job: Job): Promise<void> {
+		await getDatabase()
+			.update(jobsTable)
+			.set({
+				status: job.status,
+				attempts: job.attempts,
+				error: job.error ?? null,
+				availableAt: job.availableAt,
+				reservedAt: null
+			})
+			.where(eq(jobsTable.id, job.id));
+	}
+
+	async fail(job: Job, stack?: string): Promise<void> {
+		await getDatabase().transaction(async (tx) => {
+			await tx.insert(failedJobsTable).values({
+				id: job.id,
+				name: job.name,
+				queue: job.queue,
+				payload: job.data,
+				attempts: job.attempts,
+				maxAttempts: job.maxAttempts,
+				priority: job.priority,
+				backoff: job.backoff ?? null,
+				timeout: job.timeout ?? null,
+				error: job.error ?? 'Unknown error',
+				stack: stack ?? null,
+				chain: job.chain ?? null,
+				batchId: job.batchId ?? null,
+				createdAt: job.createdAt,
+				failedAt: job.failedAt ?? new Date()
+			});
+			await tx.delete(jobsTable).where(eq(jobsTable.id, job.id));
+		});
+	}
+
+	async failedJobs(): Promise<FailedJob[]> {
+		const rows = await getDatabase()
+			.select()
+			.from(failedJobsTable)
+			.orderBy(desc(failedJobsTable.failedAt));
+		return rows.map(toFailedJob);
+	}
+
+	async retryFailed(id: string): Promise<Job | null> {
+		return getDatabase().transaction(async (tx) => {
+			const [row] = await tx.delete(failedJobsTable).where(eq(failedJobsTable.id, id)).returning();
+			if (!row) return null;
+
+			const job = retryableJob(toFailedJob(row));
+			await this.insert(tx, job);
+			return job;
+		});
+	}
+
+	async forgetFailed(id: string): Promise<boolean> {
+		const rows = await getDatabase()
+			.delete(failedJobsTable)
+			.where(eq(failedJobsTable.id, id))
+			.returning({ id: failedJobsTable.id });
+		return rows.length > 0;
+	}
+
+	async createBatch(batch: BatchRecord): Promise<void> {
+		await getDatabase()
+			.insert(jobBatchesTable)
+			.values({ ...batch, name: batch.name ?? null, finishedAt: batch.finishedAt ?? null });
+	}
+
+	async recordBatchJob(id: string, jobId: string, failed: boolean): Promise<BatchRecord | null> {
+		const finishedAt = new Date().toISOString();
+		const [row] = await getDatabase()
+			.update(jobBatchesTable)
+			.set({
+				pendingJobs: sql`${jobBatchesTable.pendingJobs} - 1`,
+				finishedAt: sql`case when ${jobBatchesTable.pendingJobs} = 1 then ${finishedAt}::timestamptz else ${jobBatchesTable.finishedAt} end`,
+				...(failed && {
+					failedJobs: sql`${jobBatchesTable.failedJobs} + 1`,
+					failedJobIds: sql`${jobBatchesTable.failedJobIds} || ${JSON.stringify([jobId])}::jsonb`
+				})
+			})
+			.where(eq(jobBatchesTable.id, id))
+			.returning();
+		return row ? toBatch(row) : null;
+	}
+
+	async findBatch(id: string): Promise<BatchRecord | null> {
+		const [row] = await getDatabase()
+			.select()
+			.from(jobBatchesTable)
+			.where(eq(jobBatchesTable.id, id));
+		return row ? toBatch(row) : null;
+	}
+
+	async status(): Promise<QueueStatus> {
+		const db = getDatabase();
+		const rows = await db
+			.select({ status: jobsTable.status, count: sql<number>`count(*)::int` })
+			.from(jobsTable)
+			.groupBy(jobsTable.status);
+		const [failed] = await db.select({ count: sql<number>`count(*)::int` }).from(failedJobsTable);
+
+		const status: QueueStatus = {
+			pending: 0,
+			processing: 0,
+			completed: 0,
+			failed: Number(failed?.count ?? 0)
+		};
+		for (const row of rows) {
+			if (row.status === 'pending' || row.status === 'processing' || row.status === 'completed') {
+				status[row.status] = Number(row.count);
+			}
+		}
+		return status;
+	}
+}
+
+function toJob(row: JobRow): Job {
+	return {
+		id: row.id,
+		name: row.name,
+		data: row.payload,
+		queue: row.queue,
+		status: row.status as Job['status'],
+		attempts: row.attempts,
+		maxAttempts: row.maxAttempts,
+		priority: row.priority,
+		backoff: row.backoff ?? undefined,
+		timeout: row.timeout ?? undefined,
+		availableAt: row.availableAt,
+		createdAt: row.createdAt,
+		processedAt: row.reservedAt ?? undefined,
+		completedAt: row.completedAt ?? undefined,
+		error: row.error ?? undefined,
+		chain: row.chain ?? undefined,
+		batchId: row.batchId ?? undefined,
+		uniqueKey: row.uniqueKey ?? undefined
+	};
+}
+
+function toFailedJob(row: FailedJobRow): FailedJob {
+	return {
+		id: row.id,
+		name: row.name,
+		data: row.payload,
+		queue: row.queue,
+		attempts: row.attempts,
+		maxAttempts: row.maxAttempts,
+		priority: row.priority,
+		backoff: row.backoff ?? undefined,
+		timeout: row.timeout ?? undefined,
+		error: row.error,
+		stack: row.stack ?? undefined,
+		chain: row.chain ?? undefined,
+		batchId: row.batchId ?? undefined,
+		createdAt: row.createdAt,
+		failedAt: row.failedAt
+	};
+}
+
+function toBatch(row: BatchRow): BatchRecord {
+	return {
+		id: row.id,
+		name: row.name ?? undefined,
+		totalJobs: row.totalJobs,
+		pendingJobs: row.pendingJobs,
+		failedJobs: row.failedJobs,
+		failedJobIds: row.failedJobIds,
+		callbacks: row.callbacks,
+		createdAt: row.createdAt,
+		finishedAt: row.finishedAt ?? undefined
+	};
+}
@@ -0,0 +1,112 @@
+import type { BatchRecord, FailedJob, Job, QueueDriver, QueueStatus } from '../types.js';
+import { retryableJob } from '../utils.js';
+
+/**
+ * In-process queue driver. Jobs live for the lifetime of the process and are
+ * lost on restart.
+ */
+export class MemoryQueueDriver implements QueueDriver {
+	private jobs: Job[] = [];
+	private failed: FailedJob[] = [];
+	private batches = new Map<string, BatchRecord>();
+
+	async push(job: Job): Promise<void> {
+		this.jobs.push(job);
+	}
+
+	async reserve(queue: string): Promise<Job | null> {
+		const now = Date.now();
+		let next: Job | null = null;
+
+		// Highest priority wins; ties keep dispatch order
+		for (const job of this.jobs) {
+			if (job.queue !== queue || job.status !== 'pending') continue;
+			if (job.availableAt.getTime() > now) continue;
+			if (!next || job.priority > next.priority) next = job;
+		}
+
+		if (!next) return null;
+		next.status = 'processing';
+		next.processedAt = new Date();
+		next.attempts++;
+		return next;
+	}
+
+	// Jobs are held by reference, so the worker's changes are already stored
+	async complete(): Promise<void> {}
+
+	async release(): Promise<void> {}
+
+	async fail(job: Job, stack?: string): Promise<void> {
+		this.jobs = this.jobs.filter((j) => j !== job);
+		this.failed.unshift({
+			id: job.id,
+			name: job.name,
+			data: job.data,
+			queue: job.queue,
+			attempts: job.attempts,
+			maxAttempts: job.maxAttempts,
+			priority: job.priority,
+			backoff: job.backoff,
+			timeout: job.timeout,
+			error: job.error ?? 'Unknown error',
+			stack,
+			chain: job.chain,
+			batchId: job.batchId,
+			createdAt: job.createdAt,
+			failedAt: job.failedAt ?? new Date()
+		});
+	}
+
+	async failedJobs(): Promise<FailedJob[]> {
+		return [...this.failed];
+	}
+
+	async retryFailed(id: string): Promise<Job | null> {
+		const failed = this.failed.find((j) => j.id === id);
+		if (!failed) return null;
+
+		this.failed = this.failed.filter((j) => j !== failed);
+		const job = retryableJob(failed);
+		this.jobs.push(job);
+		return job;
+	}
+
+	async forgetFailed(id: string): Promise<boolean> {
+		const before = this.failed.length;
+		this.failed = this.failed.filter((j) => j.id !== id);
+		return this.failed.length < before;
+	}
+
+	async createBatch(batch: BatchRecord): Promise<void> {
+		this.batches.set(batch.id, { ...batch });
+	}
+
+	async recordBatchJob(id: string, jobId: string, failed: boolean): Promise<BatchRecord | null> {
+		const batch = this.batches.get(id);
+		if (!batch) return null;
+
+		batch.pendingJobs--;
+		if (failed) {
+			batch.failedJobs++;
+			batch.failedJobIds = [...batch.failedJobIds, jobId];
+		}
+		if (batch.pendingJobs === 0) batch.finishedAt = new Date();
+		return { ...batch };
+	}
+
+	async findBatch(id: string): Promise<BatchRecord | null> {
+		const batch = this.batches.get(id);
+		return batch ? { ...batch } : null;
+	}
+
+	async status(): Promise<QueueStatus> {
+		const count = (status: Job['status']) => this.jobs.filter((j) => j.status === status).length;
+		return {
+			pending: count('pending'),
+			processing: count('processing'),
+			completed: count('completed'),
+			failed: this.failed.length
+		};
+	}
+}
@@ -5,48 +5,104 @@
  * with support for multiple backends (in-memory, Redis, database, etc.)
  */
 
+import { createHash } from 'node:crypto';
+import { add, increment, isCacheShared, lock, restoreLock } from '../cache/index.js';
+import type { z } from 'zod';
+import { MemoryQueueDriver } from './drivers/memory.js';
+import { DatabaseQueueDriver } from './drivers/database.js';
+import {
+	hasModelReferences,
+	hydratePayload,
+	ModelNotFoundError,
+	serializePayload
+} from './serialization.js';
+import { backoffDelay } from './utils.js';
+import type {
+	Batch,
+	BatchRecord,
+	FailedJob,
+	Job,
+	JobDefinition,
+	JobHandler,
+	JobOptions,
+	NonUniqueJobOptions,
+	PendingJob,
+	QueueConfig,
+	QueueDriver,
+	QueueDriverFactory,
+	QueueStatus,
+	TypedJob,
+	WorkerOptions
+} from './types.js';
+
 // Types
-export interface QueueConfig {
-	driver: 'memory' | 'redis' | 'database';
-	defaultQueue?: string;
-	concurrency?: number;
-	redis?: {
-		host: string;
-		port: number;
-		password?: string;
-		db?: number;
-	};
+export type {
+	BackoffOptions,
+	Batch,
+	BatchRecord,
+	FailedJob,
+	Job,
+	JobDefinition,
+	JobHandler,
+	JobOptions,
+	NonUniqueJobOptions,
+	PendingJob,
+	QueueConfig,
+	QueueDriver,
+	QueueDriverFactory,
+	QueueStatus,
+	RateLimit,
+	TypedJob,
+	WorkerOptions
+} from './types.js';
+export { MemoryQueueDriver } from './drivers/memory.js';
+export { ModelNotFoundError } from './serialization.js';
+export {
+	DatabaseQueueDriver,
+	failedJobsTable,
+	jobBatchesTable,
+	jobsTable
+} from './drivers/database.js';
+export { CreateFailedJobsTable, CreateJobBatchesTable, CreateJobsTable } from './migrations.js';
+
+export class JobTimeoutError extends Error {
+	constructor(timeout: number) {
+		super(`Job timed out after ${timeout}ms`);
+		this.name = 'JobTimeoutError';
+	}
 }
 
-export interface JobOptions {
-	queue?: string;
-	delay?: number; // Delay in ms before processing
-	priority?: number; // Higher = processed first
-	attempts?: number; // Max retry attempts
-	backoff?: number; // Backoff delay between retries in ms
-	timeout?: number; // Max execution time in ms
+/**
+ * Throw from a handler to fail the job without using up its remaining attempts
+ */
+export class PermanentJobError extends Error {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options);
+		this.name = 'PermanentJobError';
+	}
 }
 
-export interface Job<T = any> {
-	id: string;
-	name: string;
-	data: T;
-	queue: string;
-	status: 'pending' | 'processing' | 'completed' | 'failed';
-	attempts: number;
-	maxAttempts: number;
-	createdAt: Date;
-	processedAt?: Date;
-	completedAt?: Date;
-	failedAt?: Date;
-	error?: string;
+export class JobValidationError extends Error {
+	constructor(
+		job: string,
+		readonly issues: z.core.$ZodIssue[]
+	) {
+		const details = issues
+			.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+			.join('; ');
+		super(`📋 [Queue] Invalid payload for job '${job}': ${details}`);
+		this.name = 'JobValidationError';
+	}
 }
 
-export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+// Driver registry
+const driverFactories = new Map<string, QueueDriverFactory>([
+	['memory', () => new MemoryQueueDriver()],
+	['database', (config) => new DatabaseQueueDriver(config.retryAfter)]
+]);
 
 // Job registry
 const jobHandlers = new Map<string, JobHandler>();
-const pendingJobs: Job[] = [];
 
 let queueConfig: QueueConfig = {
 	driver: 'memory',
@@ -54,28 +110,263 @@ let queueConfig: QueueConfig = {
 	concurrency: 1
 };
 
+let activeDriver: QueueDriver | null = null;
+let configured = false;
+
 /**
  * Configure the queue system
  */
 export function configureQueue(config: QueueConfig): void {
 	queueConfig = { ...queueConfig, ...config };
+	configured = true;
+	releaseDriver();
+}
+
+/**
+ * Whether the app has called `configureQueue()`, i.e. opted in to background jobs
+ */
+export function isQueueConfigured(): boolean {
+	return configured;
+}
+
+/**
+ * Register a custom queue driver that can be selected with `driver: name`
+ */
+export function registerQueueDriver(name: string, factory: QueueDriverFactory): void {
+	driverFactories.set(name, factory);
+	if (queueConfig.driver === name) releaseDriver();
+}
+
+/**
+ * Get the driver for the configured backend (created on first use)
+ */
+export function getQueueDriver(): QueueDriver {
+	if (activeDriver) return activeDriver;
+
+	const factory = driverFactories.get(queueConfig.driver);
+	if (!factory) {
+		throw new Error(
+			`📋 [Queue] Driver '${queueConfig.driver}' is not registered. Use registerQueueDriver() to add it.`
+		);
+	}
+
+	activeDriver = factory(queueConfig);
+	return activeDriver;
+}
+
+/**
+ * Close connections held by the active driver (e.g. before process exit)
+ */
+export async function disconnectQueue(): Promise<void> {
+	const driver = activeDriver;
+	activeDriver = null;
+	await driver?.close?.();
+}
+
+function releaseDriver() {
+	const driver = activeDriver;
+	activeDriver = null;
+	driver?.close?.().catch(() => {});
 }
 
 /**
- * Define a job handler
+ * Define a job handler.
+ *
+ * Pass a definition with a Zod `schema` to get a typed dispatcher. The
+ * payload is validated on dispatch and again before `handle` runs, since it
+ * has been through serialization in between; a payload that fails the second
+ * check fails the job without retrying.
+ *
+ * @example
+ * export const sendWelcome = defineJob({
+ *   name: 'send-welcome',
+ *   schema: z.object({ user: z.instanceof(User) }),
+ *   handle: async ({ data }) => sendWelcomeEmail(data.user)
+ * });
+ *
+ * await sendWelcome.dispatch({ user });
  */
-export function defineJob<T = any>(name: string, handler: JobHandler<T>): void {
-	jobHandlers.set(name, handler as JobHandler);
+export function defineJob<S extends z.ZodType>(definition: JobDefinition<S>): TypedJob<S>;
+export function defineJob<T = any>(name: string, handler: JobHandler<T>): void;
+export function defineJob<S extends z.ZodType>(
+	nameOrDefinition: string | JobDefinition<S>,
+	handler?: JobHandler
+): TypedJob<S> | void {
+	if (typeof nameOrDefinition === 'string') {
+		jobHandlers.set(nameOrDefinition, handler!);
+		return;
+	}
+
+	const { name, schema, handle } = nameOrDefinition;
+	jobHandlers.set(name, async (job, signal) => {
+		const data = await validatePayload(name, schema, job.data);
+		await handle({ ...job, data }, signal);
+	});
+
+	return {
+		name,
+		schema,
+		async dispatch(data: z.input<S>, options: JobOptions = {}) {
+			await validatePayload(name, schema, data);
+			return dispatchJob({ name, data, options });
+		}
+	} as TypedJob<S>;
+}
+
+async function validatePayload<S extends z.ZodType>(
+	name: string,
+	schema: S,
+	data: unknown
+): Promise<z.output<S>> {
+	const result = await schema.safeParseAsync(data);
+	if (!result.success) throw new JobValidationError(name, result.error.issues);
+	return result.data;
 }
 
 /**
- * Dispatch a job to the queue
+ * Dispatch a job to the queue. Only unique jobs (`uniqueFor` / `uniqueKey`)
+ * can resolve null, which they do while a matching job is still pending.
  */
+export function dispatch<T = any>(
+	name: string,
+	data: T,
+	options?: NonUniqueJobOptions
+): Promise<Job<T>>;
+export function dispatch<T = any>(
+	name: string,
+	data: T,
+	options?: JobOptions
+): Promise<Job<T> | null>;
 export async function dispatch<T = any>(
 	name: string,
 	data: T,
 	options: JobOptions = {}
-): Promise<Job<T>> {
+): Promise<Job<T> | null> {
+	return dispatchJob({ name, data, options });
+}
+
+/**
+ * Dispatch jobs to run one after another: each job is queued once the
+ * previous one completes, and the rest of the chain is dropped if one fails.
+ * Resolves null only when the first job is unique and a duplicate is pending.
+ */
+export function chain(
+	jobs: [PendingJob & { options?: NonUniqueJobOptions }, ...PendingJob[]]
+): Promise<Job>;
+export function chain(jobs: PendingJob[]): Promise<Job | null>;
+export async function chain(jobs: PendingJob[]): Promise<Job | null> {
+	const [first, ...rest] = jobs;
+	if (!first) throw new Error('📋 [Queue] chain() needs at least one job');
+
+	return dispatchJob(first, { chain: rest.length ? rest : undefined });
+}
+
+/**
+ * Start building a batch of jobs that run in parallel and can be tracked as
+ * one unit with `findBatch()`. Call `dispatch()` to queue it.
+ *
+ * @example
+ * const { id } = await batch(rows.map((row) => ({ name: 'import:row', data: row })), 'Import')
+ *   .then('import:notify', { userId })
+ *   .catch('import:alert')
+ *   .dispatch();
+ */
+export function batch(jobs: PendingJob[], name?: string): PendingBatch {
+	return new PendingBatch(jobs, name);
+}
+
+/**
+ * A batch that has not been dispatched yet. Callbacks are job names rather
+ * than functions, so they run on whichever worker finishes the batch. Each
+ * callback job receives `{ batch, data }`.
+ */
+export class PendingBatch {
+	private callbacks: BatchRecord['callbacks'] = {};
+
+	constructor(
+		private jobs: PendingJob[],
+		private name?: string
+	) {}
+
+	/** Dispatch a job once every job in the batch has completed successfully */
+	then(name: string, data?: unknown, options?: JobOptions): this {
+		return this.callback('then', name, data, options);
+	}
+
+	/** Dispatch a job when the first job in the batch fails permanently */
+	catch(name: string, data?: unknown, options?: JobOptions): this {
+		return this.callback('catch', name, data, options);
+	}
+
+	/** Dispatch a job once every job in the batch has finished, failed or not */
+	finally(name: string, data?: unknown, options?: JobOptions): this {
+		return this.callback('finally', name, data, options);
+	}
+
+	async dispatch(): Promise<Batch> {
+		const record: BatchRecord = {
+			id: crypto.randomUUID(),
+			name: this.name,
+			totalJobs: this.jobs.length,
+			pendingJobs: this.jobs.length,
+			failedJobs: 0,
+			failedJobIds: [],
+			callbacks: this.callbacks,
+			createdAt: new Date(),
+			finishedAt: this.jobs.length ? undefined : new Date()
+		};
+
+		// Stored first so jobs that finish early find their batch
+		await getQueueDriver().createBatch(record);
+		for (const job of this.jobs) {
+			await dispatchJob(job, { batchId: record.id });
+		}
+		if (!this.jobs.length) await runBatchCallbacks(record, false);
+
+		return toBatch(record);
+	}
+
+	private callback(
+		kind: keyof BatchRecord['callbacks'],
+		name: unknown,
+		data: unknown,
+		options?: JobOptions
+	) {
+		// Also stops `await batch(...)` from hanging, since `then` makes this a thenable
+		if (typeof name !== 'string') {
+			throw new Error(
+				'📋 [Queue] Batch callbacks are job names. Call dispatch() to queue the batch.'
+			);
+		}
+		this.callbacks[kind] = { name, data, options };
+		return this;
+	}
+}
+
+/**
+ * Look up a batch and its progress
+ */
+export async function findBatch(id: string): Promise<Batch | null> {
+	const record = await getQueueDriver().findBatch(id);
+	return record ? toBatch(record) : null;
+}
+
+function toBatch(record: BatchRecord): Batch {
+	const finishedJobs = record.totalJobs - record.pendingJobs;
+	return {
+		...record,
+		progress: record.totalJobs ? Math.round((finishedJobs / record.totalJobs) * 100) : 100,
+		finished: record.pendingJobs === 0
+	};
+}
+
+async function dispatchJob<T>(
+	pending: PendingJob<T>,
+	extra: Pick<Job, 'chain' | 'batchId'> = {}
+): Promise<Job<T> | null> {
+	const { name, options = {} } = pending;
+	const data = serializePayload(pending.data) as T;
+	const createdAt = new Date();
 	const job: Job<T> = {
 		id: crypto.randomUUID(),
 		name,
@@ -84,79 +375,389 @@ export async function dispatch<T = any>(
 		status: 'pending',
 		attempts: 0,
 		maxAttempts: options.attempts || 3,
-		createdAt: new Date()
+		priority: options.priority ?? 0,
+		backoff: options.backoff,
+		timeout: options.timeout,
+		availableAt: new Date(createdAt.getTime() + (options.delay ?? 0)),
+		createdAt,
+		uniqueKey: uniqueJobKey({ name, data, options }),
+		...extra
 	};
 
-	if (queueConfig.driver === 'memory') {
-		pendingJobs.push(job as Job);
-		console.log(`📋 [Queue] Job dispatched: ${name} (${job.id})`);
-
-		// Process immediately in memory mode (with optional delay)
-		if (options.delay) {
-			setTimeout(() => processJob(job as Job), options.delay);
-		} else {
-			// Process on next tick to allow synchronous code to complete
-			queueMicrotask(() => processJob(job as Job));
+	if (job.uniqueKey) {
+		assertSharedCache('Unique jobs');
+		// A worker that dies mid-job never releases the lock, so it always expires
+		const uniqueFor = options.uniqueFor ?? (options.delay ?? 0) + DEFAULT_UNIQUE_FOR;
+		const seconds = Math.ceil(uniqueFor / 1000);
+		if (!(await lock(uniqueLockName(job.uniqueKey), seconds, job.id).acquire())) {
+			console.log(`📋 [Queue] Skipped duplicate job: ${name} (${job.uniqueKey})`);
+			// Count it as done so the batch can still finish
+			await recordBatchJob(job as Job, false);
+			return null;
 		}
-	} else {
-		// TODO: Implement Redis/database drivers
-		console.warn(`📋 [Queue] Driver '${queueConfig.driver}' not yet implemented.`);
 	}
 
+	await getQueueDriver().push(job as Job);
+	console.log(`📋 [Queue] Job dispatched: ${name} (${job.id})`);
+
+	// The memory driver has no worker process, so jobs run in this one
+	scheduleInline(job.queue, options.delay ?? 0);
+
+	return job;
+}
+
+/**
+ * Reserve and run the next available job on `queue`. Resolves with the job
+ * that ran, or null when the queue had nothing ready.
+ */
+export async function runNextJob(queue?: string): Promise<Job | null> {
+	const job = await getQueueDriver().reserve(queue || queueConfig.defaultQueue || 'default');
+	if (!job) return null;
+
+	await processJob(job);
 	return job;
 }
 
 /**
- * Process a single job (internal)
+ * Run a worker loop that reserves jobs from `queues` (checked in order) with
+ * `concurrency` jobs in flight. Resolves with the number of jobs processed
+ * once a limit is reached or `signal` aborts; in-flight jobs always finish.
+ */
+export async function work(options: WorkerOptions = {}): Promise<number> {
+	if (Object.keys(queueConfig.rateLimits ?? {}).length > 0) assertSharedCache('Rate limits');
+	const queues = options.queues?.length ? options.queues : [queueConfig.defaultQueue || 'default'];
+	const concurrency = Math.max(1, options.concurrency ?? queueConfig.concurrency ?? 1);
+	const maxJobs = options.once ? 1 : (options.maxJobs ?? Infinity);
+	const deadline = options.maxTime ? Date.now() + options.maxTime : Infinity;
+	const sleep = options.sleep ?? 1000;
+	let claimed = 0;
+
+	const stopping = () => options.signal?.aborted || claimed >= maxJobs || Date.now() >= deadline;
+
+	const slot = async () => {
+		while (!stopping()) {
+			// Claim a share of maxJobs before reserving so slots cannot overshoot it
+			claimed++;
+			const job = await reserveNext(queues).catch((error) => {
+				console.error(`📋 [Queue] Failed to reserve job:`, error);
+				return null;
+			});
+
+			if (job) {
+				await processJob(job).catch((error) =>
+					console.error(`📋 [Queue] Failed to record job outcome: ${job.name} (${job.id})`, error)
+				);
+				continue;
+			}
+
+			claimed--;
+			if (options.once) return;
+			await pause(Math.min(sleep, deadline - Date.now()), options.signal);
+		}
+	};
+
+	await Promise.all(Array.from({ length: concurrency }, slot));
+	return claimed;
+}
+
+async function reserveNext(queues: string[]): Promise<Job | null> {
+	const driver = getQueueDriver();
+	for (const queue of queues) {
+		const job = await driver.reserve(queue);
+		if (job) return job;
+	}
+	return null;
+}
+
+function pause(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) return resolve();
+		const done = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener('abort', done, { once: true });
+	});
+}
+
+/**
+ * Process a single reserved job (internal)
  */
 async function processJob(job: Job): Promise<void> {
+	const driver = getQueueDriver();
 	const handler = jobHandlers.get(job.name);
 
 	if (!handler) {
 		console.error(`📋 [Queue] No handler registered for job: ${job.name}`);
-		job.status = 'failed';
-		job.error = `No handler for job: ${job.name}`;
+		await failJob(driver, job, `No handler for job: ${job.name}`);
+		return;
+	}
+
+	// A worker died holding this job often enough to use up its attempts
+	if (job.attempts > job.maxAttempts) {
+		await failJob(driver, job, `Job has been attempted too many times: ${job.name}`);
+		console.error(`❌ [Queue] Job failed permanently: ${job.name} (${job.id}): ${job.error}`);
 		return;
 	}
 
-	job.status = 'processing';
-	job.processedAt = new Date();
-	job.attempts++;
+	const wait = await rateLimitDelay(job.name);
+	if (wait > 0) {
+		// Put it back without using up an attempt
+		job.status = 'pending';
+		job.attempts--;
+		job.availableAt = new Date(Date.now() + wait);
+		await driver.release(job);
+		scheduleInline(job.queue, wait);
+		return;
+	}
 
 	try {
-		await handler(job);
-		job.status = 'completed';
-		job.completedAt = new Date();
-		console.log(`✅ [Queue] Job completed: ${job.name} (${job.id})`);
+		// Handlers see loaded models; the stored payload keeps the references
+		const data = hasModelReferences(job.data) ? await hydratePayload(job.data) : job.data;
+		await runHandler(handler, { ...job, data });
 	} catch (error) {
-		if (job.attempts < job.maxAttempts) {
+		const message = error instanceof Error ? error.message : String(error);
+		// Retrying would hit the same bad payload or missing row
+		const permanent =
+			error instanceof PermanentJobError ||
+			error instanceof JobValidationError ||
+			error instanceof ModelNotFoundError;
+
+		if (!permanent && job.attempts < job.maxAttempts) {
+			const delay = backoffDelay(job.backoff, job.attempts);
 			job.status = 'pending';
+			job.error = message;
+			job.availableAt = new Date(Date.now() + delay);
+			await driver.release(job);
 			console.warn(
 				`⚠️ [Queue] Job failed, retrying (${job.attempts}/${job.maxAttempts}): ${job.name}`
 			);
-			setTimeout(() => processJob(job), 1000 * job.attempts); // exponential backoff
+			scheduleInline(job.queue, delay);
 		} else {
-			job.status = 'failed';
-			job.failedAt = new Date();
-			job.error = error instanceof Error ? error.message : String(error);
+			await failJob(driver, job, message, error instanceof Error ? error.stack : undefined);
 			console.error(`❌ [Queue] Job failed permanently: ${job.name} (${job.id}): ${job.error}`);
 		}
+		return;
+	}
+
+	job.status = 'completed';
+	job.completedAt = new Date();
+	await driver.complete(job);
+	await releaseUniqueLock(job);
+	console.log(`✅ [Queue] Job completed: ${job.name} (${job.id})`);
+
+	if (job.chain?.length) {
+		const [next, ...rest] = job.chain;
+		await dispatchJob(next, { chain: rest.length ? rest : undefined });
 	}
+	await recordBatchJob(job, false);
+}
+
+async function failJob(driver: QueueDriver, job: Job, error: string, stack?: string) {
+	job.status = 'failed';
+	job.failedAt = new Date();
+	job.error = error;
+	await driver.fail(job, stack);
+	await releaseUniqueLock(job);
+	await recordBatchJob(job, true);
 }
 
 /**
- * Get the current queue status
+ * Key that identifies duplicates of a unique job: its name plus `uniqueKey`,
+ * or a hash of its data when only `uniqueFor` is set. Keys longer than the
+ * `jobs.unique_key` column are hashed whole.
  */
-export function getQueueStatus(): {
-	pending: number;
-	processing: number;
-	completed: number;
-	failed: number;
-} {
-	return {
-		pending: pendingJobs.filter((j) => j.status === 'pending').length,
-		processing: pendingJobs.filter((j) => j.status === 'processing').length,
-		completed: pendingJobs.filter((j) => j.status === 'completed').length,
-		failed: pendingJobs.filter((j) => j.status === 'failed').length
+function uniqueJobKey(pending: PendingJob): string | undefined {
+	const { uniqueKey, uniqueFor } = pending.options ?? {};
+	if (uniqueKey !== undefined) {
+		const key = `${pending.name}:${uniqueKey}`;
+		return key.length > MAX_UNIQUE_KEY_LENGTH ? `sha1:${sha1(key)}` : key;
+	}
+	if (uniqueFor === undefined) return undefined;
+
+	const key = `${pending.name}:${sha1(JSON.stringify(pending.data ?? null))}`;
+	return key.length > MAX_UNIQUE_KEY_LENGTH ? `sha1:${sha1(key)}` : key;
+}
+
+const MAX_UNIQUE_KEY_LENGTH = 255;
+
+function sha1(value: string): string {
+	return createHash('sha1').update(value).digest('hex');
+}
+
+// How long a `uniqueKey` lock holds at most when `uniqueFor` is not set
+const DEFAULT_UNIQUE_FOR = 60 * 60 * 1000;
+
+/**
+ * Unique locks and rate limits are kept in the cache. Jobs run by other
+ * processes (any driver but the in-process memory one) need a cache store
+ * those processes share, or each one keeps its own locks and counters.
+ */
+function assertSharedCache(feature: string): void {
+	if (getQueueDriver() instanceof MemoryQueueDriver || isCacheShared()) return;
+	throw new Error(
+		`📋 [Queue] ${feature} need a cache shared with the workers, but the cache uses the process-local 'memory' driver. Use configureCache({ driver: 'redis' }) or another shared store.`
+	);
+}
+
+function uniqueLockName(key: string): string {
+	return `queue:unique:${key}`;
+}
+
+async function releaseUniqueLock(job: Job) {
+	if (job.uniqueKey) await restoreLock(uniqueLockName(job.uniqueKey), job.id).release();
+}
+
+/**
+ * Count a run against the job name's rate limit, returning how long (ms) to
+ * hold the job back, or 0 if it may run now. Limits use fixed windows kept in
+ * the cache, so workers sharing a cache store share the limit.
+ */
+async function rateLimitDelay(name: string): Promise<number> {
+	const limit = queueConfig.rateLimits?.[name];
+	if (!limit) return 0;
+
+	const now = Date.now();
+	const window = Math.floor(now / limit.per);
+	const key = `queue:rate:${name}:${window}`;
+	await add(key, 0, Math.ceil(limit.per / 1000) + 1);
+	const count = await increment(key);
+	if (count <= limit.max) return 0;
+
+	// Spread held-back jobs over the following windows instead of retrying
+	// them all at the start of the next one
+	const windowsAhead = Math.ceil((count - limit.max) / limit.max);
+	return (window + windowsAhead) * limit.per - now;
+}
+
+async function recordBatchJob(job: Job, failed: boolean) {
+	if (!job.batchId) return;
+
+	const record = await getQueueDriver().recordBatchJob(job.batchId, job.id, failed);
+	if (record) await runBatchCallbacks(record, failed);
+}
+
+async function runBatchCallbacks(record: BatchRecord, failed: boolean) {
+	const { then, catch: onFailure, finally: onFinally } = record.callbacks;
+	const batch = toBatch(record);
+	const run = (callback: PendingJob) =>
+		dispatchJob({ ...callback, data: { batch, data: callback.data } });
+
+	if (failed && record.failedJobs === 1 && onFailure) await run(onFailure);
+	if (record.pendingJobs > 0) return;
+	if (record.failedJobs === 0 && then) await run(then);
+	if (onFinally) await run(onFinally);
+}
+
+// How long (ms) a timed-out handler has to stop once its signal aborts
+const ABORT_GRACE = 100;
+
+/**
+ * Run a handler, aborting its signal once the job's timeout passes. A handler
+ * that stops rejects with the timeout and is retried as usual; one that is
+ * still running after `ABORT_GRACE` fails the job without retrying, so it
+ * never runs alongside its own retry.
+ */
+async function runHandler(handler: JobHandler, job: Job): Promise<void> {
+	const controller = new AbortController();
+	if (!job.timeout) return handler(job, controller.signal);
+
+	const timeout = job.timeout;
+	let settled = false;
+	const running = (async () => handler(job, controller.signal))().finally(() => {
+		settled = true;
+	});
+	// It may still reject long after the job has been failed
+	running.catch(() => {});
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const expired = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			const error = new JobTimeoutError(timeout);
+			controller.abort(error);
+
+			const stopped = running.then(
+				() => {},
+				() => {}
+			);
+			const grace = new Promise((resolve) => setTimeout(resolve, ABORT_GRACE));
+			Promise.race([stopped, grace]).then(() =>
+				reject(
+					settled
+						? error
+						: new PermanentJobError(`${error.message} and ignored its abort signal`, {
+								cause: error
+							})
+				)
+			);
+		}, timeout);
+	});
+
+	try {
+		await Promise.race([running, expired]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+function scheduleInline(queue: string, delay: number) {
+	if (queueConfig.driver !== 'memory') return;
+
+	const run = () => {
+		runNextJob(queue).catch((error) => console.error(`📋 [Queue] Failed to run job:`, error));
 	};
+
+	if (delay > 0) {
+		setTimeout(run, delay);
+	} else {
+		// Process on next tick to allow synchronous code to complete
+		queueMicrotask(run);
+	}
+}
+
+/**
+ * Get the current queue status
+ */
+export async function getQueueStatus(): Promise<QueueStatus> {
+	return getQueueDriver().status();
+}
+
+/**
+ * List jobs that used up their attempts, most recent first
+ */
+export async function getFailedJobs(): Promise<FailedJob[]> {
+	return getQueueDriver().failedJobs();
+}
+
+/**
+ * Push a failed job back onto its queue with its attempts reset. Resolves
+ * with the requeued job, or null when no failed job has that id.
+ */
+export async function retryFailedJob(id: string): Promise<Job | null> {
+	const job = await getQueueDriver().retryFailed(id);
+	if (job) {
+		console.log(`📋 [Queue] Failed job requeued: ${job.name} (${job.id})`);
+		scheduleInline(job.queue, 0);
+	}
+	return job;
+}
+
+/**
+ * Retry every failed job, returning how many were requeued
+ */
+export async function retryAllFailedJobs(): Promise<number> {
+	let retried = 0;
+	for (const failed of await getFailedJobs()) {
+		if (await retryFailedJob(failed.id)) retried++;
+	}
+	return retried;
+}
+
+/**
+ * Delete a failed job without retrying it, returning whether it existed
+ */
+export async function forgetFailedJob(id: string): Promise<boolean> {
+	return getQueueDriver().forgetFailed(id);
 }
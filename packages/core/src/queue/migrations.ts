@@ -0,0 +1,108 @@
+import { Migration } from '../database/migrations.js';
+
+/**
+ * Creates the `jobs` table used by the `database` queue driver.
+ *
+ * Re-export it from a file in your migrations directory:
+ *
+ * ```ts
+ * // migrations/20250101000000_create_jobs_table.ts
+ * export { CreateJobsTable as default } from 'omni-svelte/queue';
+ * ```
+ */
+export class CreateJobsTable extends Migration {
+	async up() {
+		await this.execute(
+			this.createTable(
+				'jobs',
+				`id UUID PRIMARY KEY,
+				name VARCHAR(255) NOT NULL,
+				queue VARCHAR(255) NOT NULL,
+				payload JSONB,
+				status VARCHAR(20) NOT NULL,
+				attempts INTEGER NOT NULL DEFAULT 0,
+				max_attempts INTEGER NOT NULL,
+				priority INTEGER NOT NULL DEFAULT 0,
+				backoff JSONB,
+				timeout INTEGER,
+				error TEXT,
+				available_at TIMESTAMPTZ NOT NULL,
+				reserved_at TIMESTAMPTZ,
+				chain JSONB,
+				batch_id UUID,
+				unique_key VARCHAR(255),
+				created_at TIMESTAMPTZ NOT NULL,
+				completed_at TIMESTAMPTZ`
+			)
+		);
+		await this.execute(
+			this.addIndex('jobs', ['queue', 'status', 'priority', 'available_at'], 'jobs_reserve_index')
+		);
+	}
+
+	async down() {
+		await this.execute('DROP TABLE IF EXISTS jobs');
+	}
+}
+
+/**
+ * Creates the `failed_jobs` table where jobs that used up their attempts are
+ * kept for `omni queue:failed` / `queue:retry`. Register it the same way as
+ * `CreateJobsTable`.
+ */
+export class CreateFailedJobsTable extends Migration {
+	async up() {
+		await this.execute(
+			this.createTable(
+				'failed_jobs',
+				`id UUID PRIMARY KEY,
+				name VARCHAR(255) NOT NULL,
+				queue VARCHAR(255) NOT NULL,
+				payload JSONB,
+				attempts INTEGER NOT NULL,
+				max_attempts INTEGER NOT NULL,
+				priority INTEGER NOT NULL DEFAULT 0,
+				backoff JSONB,
+				timeout INTEGER,
+				error TEXT NOT NULL,
+				stack TEXT,
+				chain JSONB,
+				batch_id UUID,
+				created_at TIMESTAMPTZ NOT NULL,
+				failed_at TIMESTAMPTZ NOT NULL`
+			)
+		);
+		await this.execute(this.addIndex('failed_jobs', ['failed_at']));
+	}
+
+	async down() {
+		await this.execute('DROP TABLE IF EXISTS failed_jobs');
+	}
+}
+
+/**
+ * Creates the `job_batches` table that tracks `batch()` progress for the
+ * `database` queue driver. Register it the same way as `CreateJobsTable`.
+ */
+export class CreateJobBatchesTable extends Migration {
+	async up() {
+		await this.execute(
+			this.createTable(
+				'job_batches',
+				`id UUID PRIMARY KEY,
+				name VARCHAR(255),
+				total_jobs INTEGER NOT NULL,
+				pending_jobs INTEGER NOT NULL,
+				failed_jobs INTEGER NOT NULL DEFAULT 0,
+				failed_job_ids JSONB NOT NULL,
+				callbacks JSONB NOT NULL,
+				created_at TIMESTAMPTZ NOT NULL,
+				finished_at TIMESTAMPTZ`
+			)
+		);
+	}
+
+	async down() {
+		await this.execute('DROP TABLE IF EXISTS job_batches');
+	}
+}
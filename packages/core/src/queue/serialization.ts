@@ -0,0 +1,88 @@
+import { getModel, getModelName } from '../database/hooks.js';
+import { Model } from '../database/model.js';
+
+/** Stands in for a Model instance in a stored payload */
+interface ModelReference {
+	__omniModel: string;
+	key: unknown;
+}
+
+export class ModelNotFoundError extends Error {
+	constructor(model: string, key: unknown) {
+		super(`📋 [Queue] ${model} ${JSON.stringify(key)} no longer exists`);
+		this.name = 'ModelNotFoundError';
+	}
+}
+
+/**
+ * Replace Model instances anywhere in plain objects and arrays with a
+ * reference to their primary key, so payloads stay small and handlers see
+ * fresh rows. Models must be registered (`Model.register()`) to be queued.
+ */
+export function serializePayload(value: unknown): unknown {
+	if (value instanceof Model) {
+		const modelClass = value.constructor as typeof Model;
+		const name = getModelName(modelClass);
+		if (!name) {
+			throw new Error(
+				`📋 [Queue] ${modelClass.name} must be registered with ${modelClass.name}.register() to be used in a job payload`
+			);
+		}
+		const reference: ModelReference = {
+			__omniModel: name,
+			key: value.getAttribute(modelClass.primaryKey)
+		};
+		return reference;
+	}
+	if (Array.isArray(value)) return value.map(serializePayload);
+	if (isPlainObject(value)) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, serializePayload(entry)])
+		);
+	}
+	return value;
+}
+
+/**
+ * Load the models referenced by a serialized payload, throwing
+ * ModelNotFoundError if one has been deleted since the job was dispatched
+ */
+export async function hydratePayload(value: unknown): Promise<unknown> {
+	if (isModelReference(value)) {
+		const modelClass = getModel(value.__omniModel);
+		if (!modelClass) {
+			throw new Error(`📋 [Queue] Model '${value.__omniModel}' is not registered in this process`);
+		}
+		const model = await modelClass.find(value.key);
+		if (!model) throw new ModelNotFoundError(value.__omniModel, value.key);
+		return model;
+	}
+	if (Array.isArray(value)) return Promise.all(value.map(hydratePayload));
+	if (isPlainObject(value)) {
+		const entries = await Promise.all(
+			Object.entries(value).map(async ([key, entry]) => [key, await hydratePayload(entry)])
+		);
+		return Object.fromEntries(entries);
+	}
+	return value;
+}
+
+/**
+ * Whether a serialized payload references any models
+ */
+export function hasModelReferences(value: unknown): boolean {
+	if (isModelReference(value)) return true;
+	if (Array.isArray(value)) return value.some(hasModelReferences);
+	if (isPlainObject(value)) return Object.values(value).some(hasModelReferences);
+	return false;
+}
+
+function isModelReference(value: unknown): value is ModelReference {
+	return isPlainObject(value) && typeof value.__omniModel === 'string' && 'key' in value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (value === null || typeof value !== 'object') return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,247 @@
+/**
+ * Omni Queue - Shared types
+ */
+
+import type { z } from 'zod';
+
+export interface QueueConfig {
+	/** Built-in driver name, or the name of a driver added with `registerQueueDriver()` */
+	driver: 'memory' | 'redis' | 'database' | (string & {});
+	defaultQueue?: string;
+	concurrency?: number;
+	/**
+	 * How long (ms) a reserved job may run past its timeout before another
+	 * worker treats it as abandoned and picks it up again
+	 */
+	retryAfter?: number;
+	/** Per-job-name limits enforced by workers, e.g. `{ 'send-webhook': { max: 10, per: 1000 } }` */
+	rateLimits?: Record<string, RateLimit>;
+	redis?: {
+		host: string;
+		port: number;
+		password?: string;
+		db?: number;
+	};
+}
+
+/**
+ * How long to wait before retrying a failed attempt. `fixed` waits `delay` ms
+ * every time; `exponential` doubles it after each attempt (1x, 2x, 4x, ...)
+ * up to `maxDelay`. With `jitter`, each wait is randomised between half and
+ * all of the computed delay so retries from many jobs do not line up.
+ */
+export interface BackoffOptions {
+	type: 'fixed' | 'exponential';
+	delay: number; // Base delay in ms
+	maxDelay?: number;
+	jitter?: boolean;
+}
+
+/**
+ * Run at most `max` jobs with a given name per `per` ms. Jobs over the limit
+ * go back on the queue until a later window without using up an attempt.
+ */
+export interface RateLimit {
+	max: number;
+	per: number;
+}
+
+export interface JobOptions {
+	queue?: string;
+	delay?: number; // Delay in ms before processing
+	priority?: number; // Higher = processed first
+	attempts?: number; // Max retry attempts
+	backoff?: number | BackoffOptions; // Fixed delay in ms, or a strategy (default: exponential from 1s)
+	timeout?: number; // Max execution time in ms
+	/**
+	 * Skip the dispatch while a job with the same name and data is pending or
+	 * running, for at most this many ms
+	 */
+	uniqueFor?: number;
+	/**
+	 * Skip the dispatch while a job with the same name and key is pending or
+	 * running. Holds until the job finishes, or at most `uniqueFor` (default:
+	 * an hour after the job becomes available) so a lost worker cannot block
+	 * it forever.
+	 */
+	uniqueKey?: string;
+}
+
+/**
+ * Options without `uniqueFor` / `uniqueKey`, so dispatching always queues the job
+ */
+export type NonUniqueJobOptions = JobOptions & { uniqueFor?: undefined; uniqueKey?: undefined };
+
+/**
+ * A job waiting to be dispatched, as listed in `chain()` and `batch()`
+ */
+export interface PendingJob<T = any> {
+	name: string;
+	data?: T;
+	options?: JobOptions;
+}
+
+export interface Job<T = any> {
+	id: string;
+	name: string;
+	data: T;
+	queue: string;
+	status: 'pending' | 'processing' | 'completed' | 'failed';
+	attempts: number;
+	maxAttempts: number;
+	priority: number;
+	backoff?: number | BackoffOptions;
+	timeout?: number;
+	availableAt: Date;
+	createdAt: Date;
+	processedAt?: Date;
+	completedAt?: Date;
+	failedAt?: Date;
+	error?: string;
+	/** Jobs still to run after this one, in order */
+	chain?: PendingJob[];
+	batchId?: string;
+	/** Duplicate-detection key of a unique job, released when it finishes */
+	uniqueKey?: string;
+}
+
+/**
+ * Handles a job. `signal` aborts when the job exceeds its timeout, so
+ * long-running work (fetches, streams) can stop early. A handler that keeps
+ * running anyway fails the job without a retry.
+ */
+export type JobHandler<T = any> = (job: Job<T>, signal: AbortSignal) => Promise<void>;
+
+/**
+ * A job whose payload is checked against `schema` when it is dispatched and
+ * again when a worker picks it up
+ */
+export interface JobDefinition<S extends z.ZodType> {
+	name: string;
+	schema: S;
+	handle: JobHandler<z.output<S>>;
+}
+
+/**
+ * Returned by `defineJob({ name, schema, handle })`
+ */
+export interface TypedJob<S extends z.ZodType> {
+	readonly name: string;
+	readonly schema: S;
+	/**
+	 * Validate `data` and dispatch the job. Rejects with JobValidationError for
+	 * invalid data. Unique jobs resolve null when a matching job is pending.
+	 */
+	dispatch(data: z.input<S>, options?: NonUniqueJobOptions): Promise<Job<z.input<S>>>;
+	dispatch(data: z.input<S>, options?: JobOptions): Promise<Job<z.input<S>> | null>;
+}
+
+/**
+ * A job that used up its attempts, kept until it is retried or forgotten
+ */
+export interface FailedJob<T = any> {
+	id: string;
+	name: string;
+	data: T;
+	queue: string;
+	attempts: number;
+	maxAttempts: number;
+	priority: number;
+	backoff?: number | BackoffOptions;
+	timeout?: number;
+	error: string;
+	stack?: string; // Stack trace of the final error
+	chain?: PendingJob[];
+	batchId?: string;
+	createdAt: Date;
+	failedAt: Date;
+}
+
+/**
+ * Stored state of a batch. Jobs count as finished once they complete or fail
+ * permanently, so `pendingJobs` reaches zero even when some jobs failed.
+ */
+export interface BatchRecord {
+	id: string;
+	name?: string;
+	totalJobs: number;
+	pendingJobs: number;
+	failedJobs: number;
+	failedJobIds: string[];
+	/** Jobs dispatched when the batch succeeds, first fails, or finishes */
+	callbacks: { then?: PendingJob; catch?: PendingJob; finally?: PendingJob };
+	createdAt: Date;
+	finishedAt?: Date;
+}
+
+export interface Batch extends BatchRecord {
+	/** Percentage of jobs finished, 0-100 */
+	progress: number;
+	finished: boolean;
+}
+
+export interface QueueStatus {
+	pending: number;
+	processing: number;
+	/** Always 0 for the database driver, which deletes jobs once they complete */
+	completed: number;
+	failed: number;
+}
+
+export interface WorkerOptions {
+	/** Queues to pull from, checked in order (defaults to the default queue) */
+	queues?: string[];
+	/** Jobs processed in parallel (defaults to `QueueConfig.concurrency`) */
+	concurrency?: number;
+	/** Process at most one job, returning straight away if none is ready */
+	once?: boolean;
+	maxJobs?: number; // Stop after this many jobs
+	maxTime?: number; // Stop after this many ms
+	sleep?: number; // Wait in ms before polling again when the queues are empty
+	/** Stop taking new jobs once aborted; in-flight jobs still finish */
+	signal?: AbortSignal;
+}
+
+/**
+ * Contract implemented by every queue backend.
+ *
+ * The worker owns the job lifecycle: it updates the job's status and
+ * timestamps, then asks the driver to persist them.
+ */
+export interface QueueDriver {
+	/** Store a new pending job */
+	push(job: Job): Promise<void>;
+	/**
+	 * Claim the next available job on `queue` (highest priority first), marking
+	 * it as processing and counting the attempt. Resolves null when none is ready.
+	 */
+	reserve(queue: string): Promise<Job | null>;
+	/** Persist a job that finished successfully */
+	complete(job: Job): Promise<void>;
+	/** Put a reserved job back on the queue until its `availableAt` */
+	release(job: Job): Promise<void>;
+	/** Move a job that will not be retried into the failed job store */
+	fail(job: Job, stack?: string): Promise<void>;
+	/** Failed jobs, most recent first */
+	failedJobs(): Promise<FailedJob[]>;
+	/**
+	 * Remove a failed job from the store and push it back as a fresh pending
+	 * job with the same id. Resolves null when no failed job has that id.
+	 */
+	retryFailed(id: string): Promise<Job | null>;
+	/** Delete a failed job, returning whether it existed */
+	forgetFailed(id: string): Promise<boolean>;
+	/** Store a new batch */
+	createBatch(batch: BatchRecord): Promise<void>;
+	/**
+	 * Atomically record that one of the batch's jobs finished, returning the
+	 * updated batch (null if it does not exist)
+	 */
+	recordBatchJob(id: string, jobId: string, failed: boolean): Promise<BatchRecord | null>;
+	findBatch(id: string): Promise<BatchRecord | null>;
+	status(): Promise<QueueStatus>;
+	/** Release connections or handles held by the driver */
+	close?(): Promise<void>;
+}
+
+export type QueueDriverFactory = (config: QueueConfig) => QueueDriver;
@@ -0,0 +1,41 @@
+import type { BackoffOptions, FailedJob, Job } from './types.js';
+
+const DEFAULT_BACKOFF: BackoffOptions = { type: 'exponential', delay: 1000 };
+
+/**
+ * Build the fresh pending job that a failed job is retried as
+ */
+export function retryableJob(failed: FailedJob): Job {
+	return {
+		id: failed.id,
+		name: failed.name,
+		data: failed.data,
+		queue: failed.queue,
+		status: 'pending',
+		attempts: 0,
+		maxAttempts: failed.maxAttempts,
+		priority: failed.priority,
+		backoff: failed.backoff,
+		timeout: failed.timeout,
+		availableAt: new Date(),
+		createdAt: failed.createdAt,
+		// The batch already counted this job as finished when it failed
+		chain: failed.chain
+	};
+}
+
+/**
+ * Delay in ms before retrying a job that has failed `attempt` times
+ */
+export function backoffDelay(
+	backoff: number | BackoffOptions | undefined,
+	attempt: number
+): number {
+	const options: BackoffOptions | undefined =
+		typeof backoff === 'number' ? { type: 'fixed', delay: backoff } : backoff;
+	const { type, delay, maxDelay = Infinity, jitter } = options ?? DEFAULT_BACKOFF;
+
+	const base = type === 'exponential' ? delay * 2 ** Math.max(0, attempt - 1) : delay;
+	const capped = Math.min(base, maxDelay);
+	return Math.round(jitter ? capped / 2 + Math.random() * (capped / 2) : capped);
+}
@@ -0,0 +1,245 @@
+/**
+ * Five-field cron expressions: minute, hour, day of month, month, day of week.
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/10`, `0-30/5`),
+ * month and weekday names (`JAN`, `MON-FRI`) and the `@hourly`, `@daily`,
+ * `@weekly`, `@monthly` and `@yearly` shortcuts. As in standard cron, when
+ * both day fields are restricted a date matches if either one does.
+ */
+
+interface CronField {
+	name: string;
+	min: number;
+	max: number;
+	names?: string[];
+}
+
+const FIELDS: CronField[] = [
+	{ name: 'minute', min: 0, max: 59 },
+	{ name: 'hour', min: 0, max: 23 },
+	{ name: 'day of month', min: 1, max: 31 },
+	{
+		name: 'month',
+		min: 1,
+		max: 12,
+		names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+	},
+	// 7 is accepted as Sunday, like most cron implementations
+	{ name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const SHORTCUTS: Record<string, string> = {
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+	'@monthly': '0 0 1 * *',
+	'@weekly': '0 0 * * 0',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@hourly': '0 * * * *'
+};
+
+// Enough to reach Feb 29 on a given weekday; anything longer never matches
+const MAX_STEPS = 50_000;
+
+const MINUTE = 60_000;
+
+/**
+ * Wall-clock fields of a date in a given timezone
+ */
+export interface DateParts {
+	minute: number;
+	hour: number;
+	day: number;
+	month: number; // 1-12
+	weekday: number; // 0 = Sunday
+}
+
+export class InvalidCronExpressionError extends Error {
+	constructor(expression: string, reason: string) {
+		super(`⏰ [Schedule] Invalid cron expression '${expression}': ${reason}`);
+		this.name = 'InvalidCronExpressionError';
+	}
+}
+
+export class CronExpression {
+	private minutes: Set<number>;
+	private hours: Set<number>;
+	private days: Set<number>;
+	private months: Set<number>;
+	private weekdays: Set<number>;
+	private anyDay: boolean;
+	private anyWeekday: boolean;
+
+	constructor(readonly expression: string) {
+		const source = SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+		const parts = source.split(/\s+/);
+		if (parts.length !== 5) {
+			throw new InvalidCronExpressionError(expression, `expected 5 fields, got ${parts.length}`);
+		}
+
+		const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+			parseField(expression, part, FIELDS[i])
+		);
+		this.minutes = minutes;
+		this.hours = hours;
+		this.days = days;
+		this.months = months;
+		this.weekdays = new Set([...weekdays].map((day) => day % 7));
+		this.anyDay = parts[2].startsWith('*');
+		this.anyWeekday = parts[4].startsWith('*');
+	}
+
+	/**
+	 * Whether the minute containing `date` matches, read as wall-clock time in
+	 * `timezone` (the process timezone when omitted)
+	 */
+	matches(date: Date, timezone?: string): boolean {
+		const parts = dateParts(date, timezone);
+		return (
+			this.minutes.has(parts.minute) &&
+			this.hours.has(parts.hour) &&
+			this.months.has(parts.month) &&
+			this.dayMatches(parts)
+		);
+	}
+
+	/**
+	 * The first matching minute after `after`
+	 */
+	next(after: Date, timezone?: string): Date {
+		let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+
+		// Skip whole days and hours at a time instead of testing every minute
+		for (let step = 0; step < MAX_STEPS; step++) {
+			const parts = dateParts(new Date(time), timezone);
+			if (!this.months.has(parts.month) || !this.dayMatches(parts)) {
+				time = nextDay(time, parts, timezone);
+			} else if (!this.hours.has(parts.hour)) {
+				time += (60 - parts.minute) * MINUTE;
+			} else if (!this.minutes.has(parts.minute)) {
+				time += MINUTE;
+			} else {
+				return new Date(time);
+			}
+		}
+
+		throw new InvalidCronExpressionError(this.expression, 'it never matches a real date');
+	}
+
+	private dayMatches(parts: DateParts): boolean {
+		const day = this.days.has(parts.day);
+		const weekday = this.weekdays.has(parts.weekday);
+		if (this.anyDay || this.anyWeekday) return day && weekday;
+		return day || weekday;
+	}
+}
+
+/**
+ * The first minute of the day after the one `time` falls on. Days around a
+ * DST change last 23 or 25 hours, so a 24-hour skip is corrected to land on
+ * midnight (or on the first minute after it when midnight itself is skipped).
+ */
+function nextDay(time: number, parts: DateParts, timezone?: string): number {
+	const next = time + ((23 - parts.hour) * 60 + 60 - parts.minute) * MINUTE;
+	const landed = dateParts(new Date(next), timezone);
+	if (landed.day === parts.day) {
+		// Still before midnight on a 25-hour day
+		return next + ((23 - landed.hour) * 60 + 60 - landed.minute) * MINUTE;
+	}
+
+	// Past midnight after a 23-hour day
+	const midnight = next - (landed.hour * 60 + landed.minute) * MINUTE;
+	return dateParts(new Date(midnight), timezone).day === landed.day ? midnight : next;
+}
+
+function parseField(expression: string, source: string, field: CronField): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of source.split(',')) {
+		const [range, stepSource, ...rest] = part.split('/');
+		const step = stepSource === undefined ? 1 : Number(stepSource);
+		if (rest.length || !Number.isInteger(step) || step < 1) {
+			throw new InvalidCronExpressionError(expression, `bad step '${part}' in ${field.name}`);
+		}
+
+		let start = field.min;
+		let end = field.max;
+		if (range !== '*') {
+			const [from, to, ...extra] = range.split('-');
+			if (extra.length) {
+				throw new InvalidCronExpressionError(expression, `bad range '${range}' in ${field.name}`);
+			}
+			start = parseValue(expression, from, field);
+			// `5/15` means "from 5, every 15" up to the field's maximum
+			end =
+				to !== undefined
+					? parseValue(expression, to, field)
+					: stepSource !== undefined
+						? field.max
+						: start;
+		}
+		if (start > end) {
+			throw new InvalidCronExpressionError(expression, `bad range '${range}' in ${field.name}`);
+		}
+
+		for (let value = start; value <= end; value += step) values.add(value);
+	}
+
+	return values;
+}
+
+function parseValue(expression: string, source: string, field: CronField): number {
+	const named = field.names?.indexOf(source.toUpperCase()) ?? -1;
+	const value = named >= 0 ? named + field.min : Number(source);
+	if (source === '' || !Number.isInteger(value) || value < field.min || value > field.max) {
+		throw new InvalidCronExpressionError(
+			expression,
+			`${field.name} must be between ${field.min} and ${field.max} (got '${source}')`
+		);
+	}
+	return value;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Read the wall-clock fields of `date` in `timezone` (an IANA name such as
+ * `Europe/Paris`). Throws a RangeError for unknown timezones.
+ */
+export function dateParts(date: Date, timezone?: string): DateParts {
+	if (!timezone) {
+		return {
+			minute: date.getMinutes(),
+			hour: date.getHours(),
+			day: date.getDate(),
+			month: date.getMonth() + 1,
+			weekday: date.getDay()
+		};
+	}
+
+	let formatter = formatters.get(timezone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			hourCycle: 'h23',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			weekday: 'short'
+		});
+		formatters.set(timezone, formatter);
+	}
+
+	const parts: Record<string, string> = {};
+	for (const { type, value } of formatter.formatToParts(date)) parts[type] = value;
+
+	return {
+		minute: Number(parts.minute),
+		hour: Number(parts.hour),
+		day: Number(parts.day),
+		month: Number(parts.month),
+		weekday: WEEKDAYS.indexOf(parts.weekday)
+	};
+}
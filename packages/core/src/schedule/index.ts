@@ -0,0 +1,310 @@
+/**
+ * Omni Schedule - Recurring tasks
+ *
+ * Register tasks that dispatch queue jobs or run callbacks on a cron
+ * schedule, then run `omni schedule:run` every minute (e.g. from the
+ * system crontab) to start whichever tasks are due.
+ *
+ * @example
+ * import * as schedule from 'omni-svelte/schedule';
+ *
+ * schedule.job('prune-sessions').cron('0 3 * * *');
+ * schedule.call('refresh-rates', () => refreshRates()).everyFiveMinutes().withoutOverlapping();
+ */
+
+import { get as getCached, lock, set as setCached } from '../cache/index.js';
+import { batch, dispatch, findBatch } from '../queue/index.js';
+import type { JobOptions } from '../queue/types.js';
+import { CronExpression, dateParts } from './cron.js';
+import type { ScheduleConfig, ScheduledTask, ScheduleRunResult } from './types.js';
+
+// Types
+export type { ScheduleConfig, ScheduledTask, ScheduleRunResult } from './types.js';
+export { CronExpression, InvalidCronExpressionError, type DateParts } from './cron.js';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+let scheduleConfig: ScheduleConfig = {};
+
+// Scheduled tasks, in registration order
+const events: ScheduledEvent[] = [];
+
+/**
+ * Configure the scheduler
+ */
+export function configureSchedule(config: ScheduleConfig): void {
+	if (config.timezone) assertTimezone(config.timezone);
+	scheduleConfig = { ...scheduleConfig, ...config };
+}
+
+/**
+ * A task registered with `job()` or `call()`. Runs every minute until given
+ * a frequency.
+ */
+export class ScheduledEvent {
+	private cronExpression = new CronExpression('* * * * *');
+	private tz?: string;
+	private overlapMinutes: number | null = null;
+
+	constructor(
+		private eventName: string,
+		readonly task: ScheduledTask
+	) {}
+
+	get name(): string {
+		return this.eventName;
+	}
+
+	get expression(): string {
+		return this.cronExpression.expression;
+	}
+
+	/** The timezone the expression is read in, or undefined for the server's */
+	get timezoneName(): string | undefined {
+		return this.tz ?? scheduleConfig.timezone;
+	}
+
+	get preventsOverlaps(): boolean {
+		return this.overlapMinutes !== null;
+	}
+
+	/**
+	 * Rename the task. Names key the overlap guard, so give each copy of a job
+	 * scheduled with different data its own name.
+	 */
+	named(name: string): this {
+		this.eventName = name;
+		return this;
+	}
+
+	/**
+	 * Run on a five-field cron expression, e.g. `0 3 * * *`
+	 */
+	cron(expression: string): this {
+		this.cronExpression = new CronExpression(expression);
+		return this;
+	}
+
+	everyMinute(): this {
+		return this.cron('* * * * *');
+	}
+
+	everyTwoMinutes(): this {
+		return this.cron('*/2 * * * *');
+	}
+
+	everyFiveMinutes(): this {
+		return this.cron('*/5 * * * *');
+	}
+
+	everyTenMinutes(): this {
+		return this.cron('*/10 * * * *');
+	}
+
+	everyFifteenMinutes(): this {
+		return this.cron('*/15 * * * *');
+	}
+
+	everyThirtyMinutes(): this {
+		return this.cron('*/30 * * * *');
+	}
+
+	hourly(): this {
+		return this.cron('0 * * * *');
+	}
+
+	hourlyAt(minute: number): this {
+		return this.cron(`${minute} * * * *`);
+	}
+
+	daily(): this {
+		return this.cron('0 0 * * *');
+	}
+
+	/** Run once a day at `HH:MM` */
+	dailyAt(time: string): this {
+		const [hour, minute] = parseTime(time);
+		return this.cron(`${minute} ${hour} * * *`);
+	}
+
+	weekly(): this {
+		return this.cron('0 0 * * 0');
+	}
+
+	/** Run once a week, e.g. `weeklyOn('monday', '8:00')` */
+	weeklyOn(day: string | number, time = '0:00'): this {
+		const weekday = typeof day === 'number' ? day : WEEKDAYS.indexOf(day.toLowerCase());
+		if (weekday < 0) throw new Error(`⏰ [Schedule] Unknown weekday '${day}'`);
+		const [hour, minute] = parseTime(time);
+		return this.cron(`${minute} ${hour} * * ${weekday}`);
+	}
+
+	monthly(): this {
+		return this.cron('0 0 1 * *');
+	}
+
+	monthlyOn(day: number, time = '0:00'): this {
+		const [hour, minute] = parseTime(time);
+		return this.cron(`${minute} ${hour} ${day} * *`);
+	}
+
+	/**
+	 * Read the expression in an IANA timezone such as `America/New_York`
+	 */
+	timezone(timezone: string): this {
+		assertTimezone(timezone);
+		this.tz = timezone;
+		return this;
+	}
+
+	/**
+	 * Skip a run while the previous one is still going. Callbacks hold a cache
+	 * lock while they run; jobs are tracked until a worker finishes them. Either
+	 * way the guard expires after `expiresAfter` minutes in case a run dies.
+	 *
+	 * Runs in separate `schedule:run` processes only see each other through a
+	 * shared cache store (redis or filesystem).
+	 */
+	withoutOverlapping(expiresAfter = 1440): this {
+		this.overlapMinutes = expiresAfter;
+		return this;
+	}
+
+	/**
+	 * Whether the task should run in the minute containing `date`
+	 */
+	isDue(date = new Date()): boolean {
+		return this.cronExpression.matches(date, this.timezoneName);
+	}
+
+	/**
+	 * The next time the task is due after `from`
+	 */
+	nextRunDate(from = new Date()): Date {
+		return this.cronExpression.next(from, this.timezoneName);
+	}
+
+	/**
+	 * Run the task now, resolving `skipped` if a previous run is still going
+	 */
+	async run(): Promise<'ran' | 'skipped'> {
+		if (this.overlapMinutes === null) {
+			await this.start();
+			return 'ran';
+		}
+
+		const { task } = this;
+		const seconds = this.overlapMinutes * 60;
+		if (task.type === 'callback') {
+			const ran = await lock(`schedule:${this.eventName}`, seconds).get(() => this.start());
+			return ran === false ? 'skipped' : 'ran';
+		}
+
+		// A job outlives this process, so dispatch it as a one-job batch and
+		// remember the batch until a worker marks it finished
+		const key = `schedule:${this.eventName}:batch`;
+		const ran = await lock(`schedule:${this.eventName}`, 60).get(async () => {
+			const previous = await getCached<string>(key);
+			const running = previous ? await findBatch(previous) : null;
+			if (running && !running.finished) return false;
+
+			const started = await batch(
+				[{ name: task.name, data: task.data, options: task.options }],
+				`schedule:${this.eventName}`
+			).dispatch();
+			await setCached(key, started.id, seconds);
+			return true;
+		});
+		return ran ? 'ran' : 'skipped';
+	}
+
+	private async start() {
+		if (this.task.type === 'callback') {
+			await this.task.callback();
+		} else {
+			await dispatch(this.task.name, this.task.data, this.task.options);
+		}
+	}
+}
+
+/**
+ * Schedule a queue job, dispatched with `data` and `options` whenever it is due
+ */
+export function job(name: string, data?: unknown, options?: JobOptions): ScheduledEvent {
+	return register(new ScheduledEvent(name, { type: 'job', name, data, options }));
+}
+
+/**
+ * Schedule a callback to run in the `schedule:run` process
+ */
+export function call(name: string, callback: () => unknown | Promise<unknown>): ScheduledEvent {
+	return register(new ScheduledEvent(name, { type: 'callback', callback }));
+}
+
+function register(event: ScheduledEvent): ScheduledEvent {
+	events.push(event);
+	return event;
+}
+
+/**
+ * Every registered task, in registration order
+ */
+export function scheduledEvents(): ScheduledEvent[] {
+	return [...events];
+}
+
+/**
+ * Tasks due in the minute containing `date`
+ */
+export function dueEvents(date = new Date()): ScheduledEvent[] {
+	return scheduledEvents().filter((event) => event.isDue(date));
+}
+
+/**
+ * Run every task due in the minute containing `date`. Tasks start together,
+ * and one failing does not stop the others.
+ */
+export async function runDueEvents(date = new Date()): Promise<ScheduleRunResult[]> {
+	return Promise.all(
+		dueEvents(date).map(async (event): Promise<ScheduleRunResult> => {
+			try {
+				const status = await event.run();
+				if (status === 'skipped') {
+					console.log(`⏰ [Schedule] Skipped ${event.name}: previous run still in progress`);
+				} else {
+					console.log(`✅ [Schedule] Ran ${event.name}`);
+				}
+				return { name: event.name, status };
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				console.error(`❌ [Schedule] ${event.name} failed: ${message}`);
+				return { name: event.name, status: 'failed', error: message };
+			}
+		})
+	);
+}
+
+/**
+ * Remove every scheduled task
+ */
+export function clearSchedule(): void {
+	events.length = 0;
+}
+
+function parseTime(time: string): [number, number] {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+	const hour = Number(match?.[1]);
+	const minute = Number(match?.[2]);
+	if (!match || hour > 23 || minute > 59) {
+		throw new Error(`⏰ [Schedule] Expected a time like '13:30' (got '${time}')`);
+	}
+	return [hour, minute];
+}
+
+function assertTimezone(timezone: string) {
+	try {
+		dateParts(new Date(), timezone);
+	} catch {
+		throw new Error(`⏰ [Schedule] Unknown timezone '${timezone}'`);
+	}
+}
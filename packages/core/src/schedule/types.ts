@@ -0,0 +1,24 @@
+/**
+ * Omni Schedule - Shared types
+ */
+
+import type { JobOptions } from '../queue/types.js';
+
+export interface ScheduleConfig {
+	/** IANA timezone used for tasks without their own `timezone()` (defaults to the server's) */
+	timezone?: string;
+}
+
+export type ScheduledTask =
+	| { type: 'job'; name: string; data?: unknown; options?: JobOptions }
+	| { type: 'callback'; callback: () => unknown | Promise<unknown> };
+
+/**
+ * Outcome of running one due task. `skipped` means the previous run was still
+ * going and the task prevents overlaps.
+ */
+export interface ScheduleRunResult {
+	name: string;
+	status: 'ran' | 'skipped' | 'failed';
+	error?: string;
+}
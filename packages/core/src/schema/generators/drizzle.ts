@@ -143,10 +143,9 @@ export class DrizzleGenerator {
 	generate(): string {
 		const imports = this.generateImports();
 		const tableDefinition = this.generateTableDefinition();
-		const indexes = this.generateIndexes();
 		const exports = this.generateExports();
 
-		return `${imports}\n\n${tableDefinition}\n\n${indexes}\n\n${exports}`;
+		return `${imports}\n\n${tableDefinition}\n\n${exports}`;
 	}
 
 	// New method for multiple schemas with output config
@@ -169,7 +168,6 @@ export class DrizzleGenerator {
 			// Generate single file with all schemas
 			const allImports = new Set<string>();
 			const allSchemas: string[] = [];
-			const allIndexes: string[] = [];
 			const allTypes: string[] = [];
 
 			// Collect all necessary imports
@@ -188,11 +186,9 @@ export class DrizzleGenerator {
 			schemas.forEach((schema) => {
 				const generator = new DrizzleGenerator(schema);
 				const tableDefinition = generator.generateTableDefinition();
-				const indexes = generator.generateIndexes();
 				const exports = generator.generateExports();
 
 				allSchemas.push(tableDefinition);
-				if (indexes) allIndexes.push(indexes);
 				allTypes.push(exports);
 			});
 
@@ -202,8 +198,6 @@ import { ${Array.from(allImports).join(', ')} } from 'drizzle-orm/pg-core';
 
 ${allSchemas.join('\n\n')}
 
-${allIndexes.filter(Boolean).join('\n\n')}
-
 ${allTypes.join('\n\n')}`;
 
 			outputs.push({
@@ -277,9 +271,8 @@ ${allTypes.join('\n\n')}`;
 
 		// Always include pgTable and index functions
 		types.add('pgTable');
-		if (this.schema.config?.indexes?.length) {
-			types.add('index');
-			types.add('uniqueIndex');
+		for (const index of this.generateIndexes()) {
+			types.add(index.startsWith('uniqueIndex(') ? 'uniqueIndex' : 'index');
 		}
 
 		return `import { ${Array.from(types).join(', ')} } from 'drizzle-orm/pg-core';`;
@@ -304,9 +297,17 @@ ${allTypes.join('\n\n')}`;
   deletedAt: timestamp('deleted_at')`;
 		}
 
+		// Indexes go in the extra-config callback, where drizzle-kit picks them up
+		const indexes = this.generateIndexes();
+		const extraConfig = indexes.length
+			? `, (table) => [
+  ${indexes.join(',\n  ')}
+]`
+			: '';
+
 		return `export const ${tableName} = pgTable('${tableName}', {
   ${columns}${timestampColumns}
-});`;
+}${extraConfig});`;
 	}
 
 	private generateColumnDefinition(name: string, field: FieldDefinition): string {
@@ -382,33 +383,25 @@ ${allTypes.join('\n\n')}`;
 		return `${name}: ${columnDef}`;
 	}
 
-	private generateIndexes(): string {
-		if (!this.schema.config?.indexes?.length) return '';
-
-		return this.schema.config.indexes
-			.map((index) => {
-				let indexFields: string[];
-				let isUnique = false;
+	private generateIndexes(): string[] {
+		return (this.schema.config?.indexes ?? []).map((index) => {
+			let indexFields: string[];
+			let isUnique = false;
 
-				if (typeof index === 'string') {
-					indexFields = [index];
-				} else if (Array.isArray(index)) {
-					indexFields = index;
-				} else {
-					indexFields = index.fields;
-					isUnique = index.unique === true;
-				}
+			if (typeof index === 'string') {
+				indexFields = [index];
+			} else if (Array.isArray(index)) {
+				indexFields = index;
+			} else {
+				indexFields = index.fields;
+				isUnique = index.unique === true;
+			}
 
-				const indexName = `${this.schema.name}_${indexFields.join('_')}_idx`;
-				const fields = indexFields.map((field) => `${this.schema.name}.${field}`).join(', ');
+			const indexName = `${this.schema.name}_${indexFields.join('_')}_idx`;
+			const fields = indexFields.map((field) => `table.${field}`).join(', ');
 
-				if (isUnique) {
-					return `export const ${indexName} = uniqueIndex('${indexName}').on(${fields});`;
-				} else {
-					return `export const ${indexName} = index('${indexName}').on(${fields});`;
-				}
-			})
-			.join('\n');
+			return `${isUnique ? 'uniqueIndex' : 'index'}('${indexName}').on(${fields})`;
+		});
 	}
 
 	private generateExports(): string {
@@ -317,17 +317,38 @@ export class RegexSchemaParser implements ISchemaParser {
 			}
 
 			// Parse indexes
-			const indexMatch = configContent.match(/indexes:\s*\[([\s\S]*?)\]/);
-			if (indexMatch) {
-				config.indexes = [];
-				// Simple parsing for now - could be enhanced
-			}
+			const indexes = this.extractIndexes(configContent);
+			if (indexes) config.indexes = indexes;
 		} catch (error) {
 			console.warn('Error parsing config:', error);
 		}
 
 		return config;
 	}
+
+	/**
+	 * Read `indexes: [...]` written as string, array or `{ fields, unique }`
+	 * literals, by rewriting the array as JSON
+	 */
+	private extractIndexes(configContent: string): any[] | undefined {
+		const start = configContent.search(/indexes:\s*\[/);
+		if (start === -1) return undefined;
+
+		const open = configContent.indexOf('[', start);
+		let depth = 0;
+		let end = open;
+		for (; end < configContent.length; end++) {
+			if (configContent[end] === '[') depth++;
+			else if (configContent[end] === ']' && --depth === 0) break;
+		}
+
+		const json = configContent
+			.slice(open, end + 1)
+			.replace(/'/g, '"')
+			.replace(/([{,]\s*)(\w+)\s*:/g, '$1"$2":')
+			.replace(/,(\s*[\]}])/g, '$1');
+		return JSON.parse(json);
+	}
 }
 
 /**
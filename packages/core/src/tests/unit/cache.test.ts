@@ -0,0 +1,698 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as cache from '../../cache/index.js';
+import { FilesystemStore, MemoryStore, RedisStore, type CacheStore } from '../../cache/index.js';
+import { parseReply } from '../../cache/redis-client.js';
+
+/**
+ * In-process stand-in for Redis that speaks just enough RESP for the cache
+ * driver: strings with expiry and NX, counters, DEL, the lock release script
+ * and cursor-based SCAN.
+ */
+function createRespServer(options: { password?: string } = {}) {
+	const data = new Map<string, { value: string; expiresAt: number | null }>();
+	const commands: string[][] = [];
+
+	const live = (key: string) => {
+		const entry = data.get(key);
+		if (entry?.expiresAt && Date.now() > entry.expiresAt) data.delete(key);
+		return data.get(key);
+	};
+	const bulk = (value: string | null) =>
+		value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+	const globToRegex = (glob: string) =>
+		new RegExp(
+			'^' +
+				glob.replace(/\\(.)|([.+^${}()|])|(\*)|(\?)/g, (_, escaped, special, star, question) =>
+					escaped ? `\\${escaped}` : special ? `\\${special}` : star ? '.*' : question ? '.' : ''
+				) +
+				'$'
+		);
+
+	function execute(args: string[], session: { authed: boolean; scan: string[] }): string {
+		const [name, ...rest] = args;
+		const command = name.toUpperCase();
+		if (command === 'AUTH') {
+			session.authed = rest[0] === options.password;
+			return session.authed ? '+OK\r\n' : '-WRONGPASS invalid password\r\n';
+		}
+		if (options.password && !session.authed) return '-NOAUTH Authentication required.\r\n';
+
+		switch (command) {
+			case 'PING':
+				return '+PONG\r\n';
+			case 'SELECT':
+			case 'QUIT':
+				return '+OK\r\n';
+			case 'GET':
+				return bulk(live(rest[0])?.value ?? null);
+			case 'SET': {
+				const [key, value, ...flags] = rest;
+				const ex = flags.findIndex((flag) => flag.toUpperCase() === 'EX');
+				if (flags.some((flag) => flag.toUpperCase() === 'NX') && live(key)) return '$-1\r\n';
+				data.set(key, {
+					value,
+					expiresAt: ex === -1 ? null : Date.now() + Number(flags[ex + 1]) * 1000
+				});
+				return '+OK\r\n';
+			}
+			case 'INCRBY':
+			case 'INCRBYFLOAT': {
+				const entry = live(rest[0]);
+				const value = Number(entry?.value ?? 0) + Number(rest[1]);
+				data.set(rest[0], { value: String(value), expiresAt: entry?.expiresAt ?? null });
+				return command === 'INCRBY' ? `:${value}\r\n` : bulk(String(value));
+			}
+			case 'EVAL': {
+				// The driver only sends its compare-and-delete script
+				const [, , key, expected] = rest;
+				if (live(key)?.value !== expected) return ':0\r\n';
+				data.delete(key);
+				return ':1\r\n';
+			}
+			case 'DEL':
+				return `:${rest.filter((key) => live(key) && data.delete(key)).length}\r\n`;
+			case 'SCAN': {
+				const cursor = Number(rest[0]);
+				const pattern = globToRegex(rest[rest.findIndex((a) => a.toUpperCase() === 'MATCH') + 1]);
+				const count = Number(rest[rest.findIndex((a) => a.toUpperCase() === 'COUNT') + 1]);
+				// Snapshot keys when a scan starts so deletes between calls don't shift the cursor
+				if (cursor === 0) session.scan = [...data.keys()];
+				const keys = session.scan;
+				const page = keys
+					.slice(cursor, cursor + count)
+					.filter((key) => data.has(key) && pattern.test(key));
+				const next = cursor + count >= keys.length ? 0 : cursor + count;
+				return `*2\r\n${bulk(String(next))}*${page.length}\r\n${page.map(bulk).join('')}`;
+			}
+			default:
+				return `-ERR unknown command '${name}'\r\n`;
+		}
+	}
+
+	const server: Server = createServer((socket) => {
+		const session = { authed: false, scan: [] as string[] };
+		let buffer: Buffer = Buffer.alloc(0);
+		socket.on('data', (chunk) => {
+			buffer = Buffer.concat([buffer, chunk]);
+			let parsed = parseReply(buffer, 0);
+			while (parsed) {
+				const args = parsed.value as string[];
+				commands.push(args);
+				socket.write(execute(args, session));
+				buffer = buffer.subarray(parsed.offset);
+				parsed = buffer.length ? parseReply(buffer, 0) : null;
+			}
+		});
+	});
+
+	return {
+		data,
+		commands,
+		listen: () =>
+			new Promise<number>((resolve) =>
+				server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+			),
+		close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+	};
+}
+
+describe('cache', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+		cache.configureCache({ driver: 'memory', prefix: 'omni:' });
+	});
+
+	describe('memory driver', () => {
+		beforeEach(async () => {
+			cache.configureCache({ driver: 'memory', prefix: 'test:' });
+			await cache.flush();
+		});
+
+		it('stores and retrieves values', async () => {
+			await cache.set('greeting', { text: 'hello' });
+			expect(await cache.get('greeting')).toEqual({ text: 'hello' });
+			expect(await cache.has('greeting')).toBe(true);
+		});
+
+		it('expires entries after their ttl', async () => {
+			vi.useFakeTimers();
+			await cache.set('short', 1, 1);
+			vi.advanceTimersByTime(1500);
+			expect(await cache.get('short')).toBeNull();
+		});
+
+		it('only calls the remember callback on a miss', async () => {
+			const callback = vi.fn(() => 42);
+			expect(await cache.remember('answer', 60, callback)).toBe(42);
+			expect(await cache.remember('answer', 60, callback)).toBe(42);
+			expect(callback).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('filesystem driver', () => {
+		let directory: string;
+
+		beforeEach(async () => {
+			directory = await mkdtemp(join(tmpdir(), 'omni-cache-'));
+			cache.configureCache({
+				driver: 'filesystem',
+				prefix: 'test:',
+				filesystem: { path: directory }
+			});
+		});
+
+		afterEach(async () => {
+			await rm(directory, { recursive: true, force: true });
+		});
+
+		it('persists values across store instances', async () => {
+			await cache.set('user:1', { name: 'Ada' }, 60);
+
+			const store = new FilesystemStore(directory);
+			expect(await store.get('test:user:1')).toEqual({ name: 'Ada' });
+		});
+
+		it('leaves no temp files behind after writing', async () => {
+			await cache.set('a', 1);
+			await cache.set('a', 2);
+
+			const shards = await readdir(directory);
+			const files = await readdir(join(directory, shards[0]));
+			expect(files).toHaveLength(1);
+			expect(files[0]).toMatch(/^[0-9a-f]{40}\.json$/);
+			expect(await cache.get('a')).toBe(2);
+		});
+
+		it('expires entries on read and removes the file', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			await cache.set('stale', 'value', 1);
+			vi.setSystemTime(Date.now() + 2000);
+
+			expect(await cache.get('stale')).toBeNull();
+			const shards = await readdir(directory);
+			expect(await readdir(join(directory, shards[0]))).toHaveLength(0);
+		});
+
+		it('garbage collects expired files that were never read', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			await cache.set('old', 1, 1);
+			await cache.set('forever', 2, 0);
+			vi.setSystemTime(Date.now() + 2000);
+
+			expect(await cache.gc()).toBe(1);
+			expect(await cache.get('forever')).toBe(2);
+		});
+
+		it('only releases the read-modify-write mutex it still holds', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			const store = new FilesystemStore(directory);
+			const exclusive = (callback: () => Promise<void>): Promise<void> =>
+				(store as any).exclusive('counter', callback);
+			let releaseFirst!: () => void;
+			const first = exclusive(() => new Promise<void>((done) => (releaseFirst = done)));
+			await vi.waitFor(() => expect(releaseFirst).toBeDefined());
+
+			// The first holder outlives the mutex, so a second caller takes it over
+			vi.setSystemTime(Date.now() + 6000);
+			let releaseSecond!: () => void;
+			const second = exclusive(() => new Promise<void>((done) => (releaseSecond = done)));
+			await vi.waitFor(() => expect(releaseSecond).toBeDefined());
+
+			releaseFirst();
+			await first;
+
+			let thirdRan = false;
+			const third = exclusive(async () => {
+				thirdRan = true;
+			});
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			expect(thirdRan).toBe(false);
+
+			releaseSecond();
+			await Promise.all([second, third]);
+			expect(thirdRan).toBe(true);
+		});
+
+		it('forgets and flushes without removing the directory', async () => {
+			await cache.set('one', 1);
+			await cache.set('two', 2);
+			await writeFile(join(directory, 'unrelated.txt'), 'keep me');
+
+			expect(await cache.forget('one')).toBe(true);
+			expect(await cache.forget('one')).toBe(false);
+
+			await cache.flush();
+			expect(await cache.get('two')).toBeNull();
+			expect(existsSync(join(directory, 'unrelated.txt'))).toBe(true);
+		});
+	});
+
+	describe('redis driver', () => {
+		const redis = createRespServer({ password: 'secret' });
+		let port: number;
+
+		beforeAll(async () => {
+			port = await redis.listen();
+		});
+
+		afterAll(async () => {
+			await cache.disconnectCache();
+			await redis.close();
+		});
+
+		beforeEach(() => {
+			redis.data.clear();
+			redis.commands.length = 0;
+			cache.configureCache({
+				driver: 'redis',
+				prefix: 'app:',
+				redis: { host: '127.0.0.1', port, password: 'secret', db: 2 }
+			});
+		});
+
+		it('authenticates, selects the database and round-trips JSON values', async () => {
+			await cache.set('user:1', { name: 'Ada', roles: ['admin'] }, 60);
+
+			expect(await cache.get('user:1')).toEqual({ name: 'Ada', roles: ['admin'] });
+			expect(redis.commands.slice(0, 2)).toEqual([
+				['AUTH', 'secret'],
+				['SELECT', '2']
+			]);
+			expect(redis.commands[2]).toEqual(['SET', 'app:user:1', expect.any(String), 'EX', '60']);
+		});
+
+		it('stores values without expiry when the ttl is zero', async () => {
+			await cache.set('forever', 1, 0);
+			expect(redis.data.get('app:forever')?.expiresAt).toBeNull();
+		});
+
+		it('returns null for missing keys and reports deletions', async () => {
+			expect(await cache.get('missing')).toBeNull();
+			await cache.set('temp', 'x');
+			expect(await cache.forget('temp')).toBe(true);
+			expect(await cache.forget('temp')).toBe(false);
+		});
+
+		it('pipelines concurrent commands on one connection', async () => {
+			await Promise.all(Array.from({ length: 20 }, (_, i) => cache.set(`n:${i}`, i)));
+			const values = await Promise.all(Array.from({ length: 20 }, (_, i) => cache.get(`n:${i}`)));
+			expect(values).toEqual(Array.from({ length: 20 }, (_, i) => i));
+			expect(redis.commands.filter(([name]) => name === 'AUTH')).toHaveLength(1);
+		});
+
+		it('flushes only keys under the prefix using SCAN', async () => {
+			redis.data.set('other:keep', { value: '"kept"', expiresAt: null });
+			for (let i = 0; i < 1200; i++)
+				redis.data.set(`app:bulk:${i}`, { value: '1', expiresAt: null });
+
+			await cache.flush();
+
+			expect([...redis.data.keys()]).toEqual(['other:keep']);
+			expect(redis.commands.some(([name]) => name === 'FLUSHDB')).toBe(false);
+			expect(redis.commands.filter(([name]) => name === 'SCAN').length).toBeGreaterThan(1);
+		});
+
+		it('escapes glob characters in the prefix', async () => {
+			cache.configureCache({
+				driver: 'redis',
+				prefix: 'a*:',
+				redis: { host: '127.0.0.1', port, password: 'secret' }
+			});
+			redis.data.set('ab:keep', { value: '1', expiresAt: null });
+			redis.data.set('a*:drop', { value: '1', expiresAt: null });
+
+			await cache.flush();
+			expect([...redis.data.keys()]).toEqual(['ab:keep']);
+		});
+
+		it('supports tagged entries', async () => {
+			await cache.tags(['users', 'user:42']).set('profile', { name: 'Ada' });
+			expect(await cache.tags(['users', 'user:42']).get('profile')).toEqual({ name: 'Ada' });
+
+			await cache.tags('user:42').flush();
+			expect(await cache.tags(['users', 'user:42']).has('profile')).toBe(false);
+		});
+
+		it('waits for another process holding the remember lock', async () => {
+			redis.data.set('app:report:lock', { value: '"other-worker"', expiresAt: null });
+			setTimeout(() => redis.data.set('app:report', { value: '"computed"', expiresAt: null }), 80);
+
+			const callback = vi.fn(() => 'duplicate');
+			expect(await cache.remember('report', 60, callback, { lock: true })).toBe('computed');
+			expect(callback).not.toHaveBeenCalled();
+		});
+
+		it('increments atomically and keeps the key ttl', async () => {
+			await cache.set('hits', 5, 60);
+			const results = await Promise.all(Array.from({ length: 10 }, () => cache.increment('hits')));
+
+			expect(Math.max(...results)).toBe(15);
+			expect(await cache.decrement('hits', 5)).toBe(10);
+			expect(await cache.get('hits')).toBe(10);
+			expect(redis.data.get('app:hits')?.expiresAt).not.toBeNull();
+		});
+
+		it('releases locks with a compare-and-delete script', async () => {
+			const first = cache.lock('task', 30);
+			expect(await first.get()).toBe(true);
+			expect(await cache.lock('task', 30).get()).toBe(false);
+
+			expect(await cache.restoreLock('task', 'someone-else').release()).toBe(false);
+			expect(await first.release()).toBe(true);
+			expect(redis.commands.some(([name]) => name === 'EVAL')).toBe(true);
+		});
+
+		it('rejects commands with the server error message', async () => {
+			const store = new RedisStore({ host: '127.0.0.1', port, password: 'wrong' });
+			await expect(store.get('key')).rejects.toThrow(/WRONGPASS/);
+			await store.close();
+		});
+	});
+
+	describe('tags', () => {
+		let directory: string;
+
+		beforeAll(async () => {
+			directory = await mkdtemp(join(tmpdir(), 'omni-cache-tags-'));
+		});
+
+		afterAll(async () => {
+			await rm(directory, { recursive: true, force: true });
+		});
+
+		describe.each(['memory', 'filesystem'])('%s driver', (driver) => {
+			beforeEach(async () => {
+				cache.configureCache({ driver, prefix: 'tags:', filesystem: { path: directory } });
+				await cache.flush();
+			});
+
+			it('flushing a tag invalidates every entry written under it', async () => {
+				await cache.tags(['users', 'user:42']).set('profile', 'ada');
+				await cache.tags(['users', 'user:7']).set('profile', 'grace');
+				await cache.tags('posts').set('latest', [1, 2]);
+
+				await cache.tags('user:42').flush();
+
+				expect(await cache.tags(['users', 'user:42']).get('profile')).toBeNull();
+				expect(await cache.tags(['users', 'user:7']).get('profile')).toBe('grace');
+
+				await cache.tags('users').flush();
+				expect(await cache.tags(['users', 'user:7']).get('profile')).toBeNull();
+				expect(await cache.tags('posts').get('latest')).toEqual([1, 2]);
+			});
+
+			it('agrees on one version when a tag is first used concurrently', async () => {
+				await Promise.all([
+					cache.tags('fresh').set('first', 1),
+					cache.tags('fresh').set('second', 2)
+				]);
+
+				expect(await cache.tags('fresh').get('first')).toBe(1);
+				expect(await cache.tags('fresh').get('second')).toBe(2);
+			});
+
+			it('runs the callback once for concurrent tagged misses', async () => {
+				let release!: (value: string) => void;
+				const callback = vi.fn(() => new Promise<string>((resolve) => (release = resolve)));
+
+				const results = Promise.all(
+					Array.from({ length: 5 }, () => cache.tags('users').remember('hot', 60, callback))
+				);
+				await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+				release('value');
+
+				expect(await results).toEqual(Array(5).fill('value'));
+				expect(callback).toHaveBeenCalledTimes(1);
+			});
+
+			it('keeps tagged entries apart from untagged keys', async () => {
+				await cache.set('profile', 'plain');
+				await cache.tags('users').set('profile', 'tagged');
+
+				await cache.tags('users').flush();
+				expect(await cache.get('profile')).toBe('plain');
+			});
+
+			it('remembers values until the tag is flushed', async () => {
+				const callback = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+				const scope = cache.tags(['user:42', 'users']);
+
+				expect(await scope.remember('name', 60, callback)).toBe('first');
+				expect(await cache.tags(['users', 'user:42']).remember('name', 60, callback)).toBe('first');
+
+				await cache.tags('user:42').flush();
+				expect(await scope.remember('name', 60, callback)).toBe('second');
+				expect(callback).toHaveBeenCalledTimes(2);
+			});
+		});
+	});
+
+	describe('stampede protection', () => {
+		let directory: string;
+
+		beforeEach(async () => {
+			directory = await mkdtemp(join(tmpdir(), 'omni-cache-lock-'));
+			cache.configureCache({ driver: 'memory', prefix: 'sp:' });
+			await cache.flush();
+		});
+
+		afterEach(async () => {
+			await rm(directory, { recursive: true, force: true });
+		});
+
+		it('runs the callback once for concurrent misses', async () => {
+			let release!: (value: string) => void;
+			const callback = vi.fn(() => new Promise<string>((resolve) => (release = resolve)));
+
+			const results = Promise.all(
+				Array.from({ length: 10 }, () => cache.remember('hot', 60, callback))
+			);
+			await vi.waitFor(() => expect(callback).toHaveBeenCalled());
+			release('value');
+
+			expect(await results).toEqual(Array(10).fill('value'));
+			expect(callback).toHaveBeenCalledTimes(1);
+		});
+
+		it('shares failures with waiters and retries on the next call', async () => {
+			const callback = vi.fn().mockRejectedValueOnce(new Error('db down')).mockResolvedValue('ok');
+
+			const attempts = await Promise.allSettled([
+				cache.remember('flaky', 60, callback),
+				cache.remember('flaky', 60, callback)
+			]);
+			expect(attempts.map((a) => a.status)).toEqual(['rejected', 'rejected']);
+
+			expect(await cache.remember('flaky', 60, callback)).toBe('ok');
+			expect(callback).toHaveBeenCalledTimes(2);
+		});
+
+		it('uses the value written by the lock holder in another process', async () => {
+			cache.configureCache({ driver: 'filesystem', filesystem: { path: directory } });
+			const otherProcess = new FilesystemStore(directory);
+			expect(await otherProcess.add('sp:report:lock', 'other', 10)).toBe(true);
+			expect(await otherProcess.add('sp:report:lock', 'again', 10)).toBe(false);
+
+			setTimeout(() => otherProcess.set('sp:report', 'from-other', 60), 80);
+			const callback = vi.fn(() => 'duplicate');
+
+			expect(await cache.remember('report', 60, callback, { lock: true })).toBe('from-other');
+			expect(callback).not.toHaveBeenCalled();
+		});
+
+		it('computes anyway when the lock holder takes too long', async () => {
+			const store = cache.getCacheStore();
+			await store.add!('sp:slow:lock', 'stuck', 10);
+
+			const value = await cache.remember('slow', 60, () => 'fallback', { lock: true, wait: 100 });
+			expect(value).toBe('fallback');
+			expect(await store.get('sp:slow:lock')).toBe('stuck');
+		});
+
+		it('releases the lock after computing', async () => {
+			await cache.remember('locked', 60, () => 'v', { lock: true });
+			expect(await cache.getCacheStore().get('sp:locked:lock')).toBeNull();
+		});
+
+		it('serves stale values while refreshing once in the background', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			const callback = vi.fn().mockResolvedValueOnce('v1').mockResolvedValueOnce('v2');
+
+			expect(await cache.rememberStale('feed', 10, 60, callback)).toBe('v1');
+			expect(await cache.rememberStale('feed', 10, 60, callback)).toBe('v1');
+			expect(callback).toHaveBeenCalledTimes(1);
+
+			vi.setSystemTime(Date.now() + 15_000);
+			const [first, second] = await Promise.all([
+				cache.rememberStale('feed', 10, 60, callback),
+				cache.rememberStale('feed', 10, 60, callback)
+			]);
+			expect([first, second]).toEqual(['v1', 'v1']);
+
+			await vi.waitFor(async () =>
+				expect(await cache.rememberStale('feed', 10, 60, callback)).toBe('v2')
+			);
+			expect(callback).toHaveBeenCalledTimes(2);
+		});
+
+		it('recomputes synchronously once the stale window has passed', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			const callback = vi.fn().mockResolvedValueOnce('v1').mockResolvedValueOnce('v2');
+
+			await cache.rememberStale('feed', 10, 5, callback);
+			vi.setSystemTime(Date.now() + 20_000);
+
+			expect(await cache.rememberStale('feed', 10, 5, callback)).toBe('v2');
+		});
+
+		it('keeps serving the stale value when the background refresh fails', async () => {
+			vi.useFakeTimers({ toFake: ['Date'] });
+			const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const callback = vi.fn().mockResolvedValueOnce('v1').mockRejectedValueOnce(new Error('boom'));
+
+			await cache.rememberStale('feed', 10, 60, callback);
+			vi.setSystemTime(Date.now() + 15_000);
+
+			expect(await cache.rememberStale('feed', 10, 60, callback)).toBe('v1');
+			await vi.waitFor(() => expect(error).toHaveBeenCalled());
+			error.mockRestore();
+		});
+	});
+
+	describe('atomic operations', () => {
+		let directory: string;
+
+		beforeAll(async () => {
+			directory = await mkdtemp(join(tmpdir(), 'omni-cache-atomic-'));
+		});
+
+		afterAll(async () => {
+			await rm(directory, { recursive: true, force: true });
+		});
+
+		describe.each(['memory', 'filesystem'])('%s driver', (driver) => {
+			beforeEach(async () => {
+				cache.configureCache({ driver, prefix: 'atomic:', filesystem: { path: directory } });
+				await cache.flush();
+			});
+
+			it('increments and decrements counters without losing updates', async () => {
+				await Promise.all(Array.from({ length: 25 }, () => cache.increment('requests')));
+				expect(await cache.get('requests')).toBe(25);
+
+				expect(await cache.increment('requests', 5)).toBe(30);
+				expect(await cache.decrement('requests', 10)).toBe(20);
+				expect(await cache.decrement('fresh')).toBe(-1);
+			});
+
+			it('keeps the expiry of an existing counter', async () => {
+				vi.useFakeTimers({ toFake: ['Date'] });
+				await cache.set('window', 1, 10);
+				await cache.increment('window');
+				vi.setSystemTime(Date.now() + 11_000);
+
+				expect(await cache.get('window')).toBeNull();
+			});
+
+			it('refuses to increment non-numeric values', async () => {
+				await cache.set('name', 'ada');
+				await expect(cache.increment('name')).rejects.toThrow(/non-numeric/);
+			});
+
+			it('adds only when the key is absent', async () => {
+				expect(await cache.add('first', 'a')).toBe(true);
+				expect(await cache.add('first', 'b')).toBe(false);
+				expect(await cache.get('first')).toBe('a');
+			});
+
+			it('pulls values out of the cache', async () => {
+				await cache.set('token', 'abc');
+				expect(await cache.pull('token')).toBe('abc');
+				expect(await cache.pull('token')).toBeNull();
+			});
+
+			it('reads and writes many keys', async () => {
+				await cache.putMany({ a: 1, b: 2 }, 60);
+				expect(await cache.many(['a', 'b', 'c'])).toEqual({ a: 1, b: 2, c: null });
+			});
+
+			it('lets only one holder run a locked block at a time', async () => {
+				const running: number[] = [];
+				let overlap = false;
+
+				await Promise.all(
+					Array.from({ length: 3 }, (_, i) =>
+						cache.lock('scheduled-task', 10).block(5, async () => {
+							if (running.length > 0) overlap = true;
+							running.push(i);
+							await new Promise((resolve) => setTimeout(resolve, 20));
+							running.pop();
+						})
+					)
+				);
+
+				expect(overlap).toBe(false);
+				expect(await cache.lock('scheduled-task', 10).get()).toBe(true);
+			});
+
+			it('throws when a lock cannot be acquired in time', async () => {
+				await cache.lock('busy', 10).get();
+				await expect(cache.lock('busy', 10).block(0.1)).rejects.toBeInstanceOf(
+					cache.LockTimeoutError
+				);
+			});
+
+			it('only releases a lock for its owner', async () => {
+				const held = cache.lock('owned', 10);
+				await held.get();
+
+				expect(await cache.restoreLock('owned', 'intruder').release()).toBe(false);
+				expect(await cache.lock('owned', 10).get()).toBe(false);
+
+				expect(await cache.restoreLock('owned', held.owner).release()).toBe(true);
+				expect(await cache.lock('owned', 10).get(() => 'ran')).toBe('ran');
+			});
+
+			it('releases the lock when the callback throws', async () => {
+				await expect(
+					cache.lock('failing', 10).get(() => {
+						throw new Error('task failed');
+					})
+				).rejects.toThrow('task failed');
+				expect(await cache.lock('failing', 10).get()).toBe(true);
+			});
+		});
+	});
+
+	describe('custom stores', () => {
+		it('uses a registered store for its driver name', async () => {
+			const backing = new MemoryStore();
+			const store: CacheStore = {
+				get: vi.fn((key) => backing.get(key)),
+				set: vi.fn((key, value, seconds) => backing.set(key, value, seconds)),
+				forget: vi.fn((key) => backing.forget(key)),
+				flush: vi.fn(() => backing.flush())
+			};
+			const factory = vi.fn(() => store);
+
+			cache.registerCacheStore('custom', factory);
+			cache.configureCache({ driver: 'custom', prefix: 'app:', ttl: 30 });
+
+			await cache.set('key', 'value');
+			expect(await cache.get('key')).toBe('value');
+			expect(store.set).toHaveBeenCalledWith('app:key', 'value', 30);
+			expect(factory).toHaveBeenCalledTimes(1);
+			expect(await cache.gc()).toBe(0);
+		});
+
+		it('throws for drivers that are not registered', async () => {
+			cache.configureCache({ driver: 'missing' });
+			await expect(cache.get('key')).rejects.toThrow(/not registered/);
+		});
+	});
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushSync } from 'svelte';
+import { NotificationState } from '../../notifications/client.svelte.js';
+
+class FakeEventSource extends EventTarget {
+	static opened: FakeEventSource[] = [];
+	onopen: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+	closed = false;
+
+	constructor(readonly url: string) {
+		super();
+		FakeEventSource.opened.push(this);
+	}
+
+	close(): void {
+		this.closed = true;
+	}
+}
+
+describe('NotificationState', () => {
+	beforeEach(() => {
+		FakeEventSource.opened = [];
+		vi.stubGlobal('EventSource', FakeEventSource);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('closes its stream when the owning component is destroyed', () => {
+		let notifications!: NotificationState;
+		const destroy = $effect.root(() => {
+			notifications = new NotificationState('/api/notifications');
+		});
+		flushSync();
+
+		const [source] = FakeEventSource.opened;
+		expect(source.url).toBe('/api/notifications');
+		source.onopen?.();
+		expect(notifications.connected).toBe(true);
+
+		destroy();
+
+		expect(source.closed).toBe(true);
+		expect(notifications.connected).toBe(false);
+		expect(FakeEventSource.opened).toHaveLength(1);
+	});
+});
@@ -0,0 +1,953 @@
+import { getTableColumns } from 'drizzle-orm';
+import * as pgCore from 'drizzle-orm/pg-core';
+import { getTableConfig, type PgTable } from 'drizzle-orm/pg-core';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NOTIFICATIONS_SCHEMA } from '../../cli/commands/generate.js';
+import { configureMail, Mail } from '../../mail/index.js';
+import {
+	BaseNotification,
+	configureNotifications,
+	deleteNotifications,
+	getNotifications,
+	markAllAsRead,
+	markAsRead,
+	notificationDigestsTable,
+	notificationPreferencesTable,
+	notificationsTable,
+	notify,
+	paginateNotifications,
+	NotificationChannelError,
+	registerChannel,
+	registerNotificationStore,
+	signWebhookPayload,
+	getNotificationPreferences,
+	handleNotificationRequest,
+	sendNotificationDigests,
+	unreadCount,
+	updateNotificationPreferences,
+	verifyWebhookSignature,
+	type NotificationRecipient
+} from '../../notifications/index.js';
+import { hasNotificationListeners } from '../../notifications/stream.js';
+import { DrizzleGenerator } from '../../schema/generators/drizzle.js';
+import { ASTSchemaParser, RegexSchemaParser } from '../../schema/parser.js';
+
+/**
+ * Fake postgres-js client: records every statement with its bindings and
+ * answers with whatever rows the test queued up next.
+ */
+const client = vi.hoisted(() => {
+	const statements: Array<{ query: string; params: unknown[] }> = [];
+	const results: unknown[][][] = [];
+
+	const unsafe = (query: string, params: unknown[] = []) => {
+		statements.push({ query, params });
+		const result = results.shift() ?? [];
+		const promise: any = Promise.resolve(result);
+		promise.values = () => Promise.resolve(result);
+		return promise;
+	};
+
+	return { statements, results, unsafe, options: { parsers: {}, serializers: {} } };
+});
+
+vi.mock('../../database/database.js', async () => {
+	const { drizzle } = await import('drizzle-orm/postgres-js');
+	const db = drizzle(client as any);
+	return { getDatabase: () => db };
+});
+
+const ana = { id: 'ana', email: 'ana@example.com' };
+const bo = { id: 'bo', email: 'bo@example.com' };
+
+async function send(recipient: { id: string; type?: string }, title: string) {
+	return notify(recipient, { type: 'comment', channels: ['database'], data: { title } });
+}
+
+describe('memory store', () => {
+	beforeEach(() => {
+		// A fresh store per test
+		configureNotifications({
+			channels: [{ name: 'database', driver: 'database' }],
+			store: 'memory'
+		});
+	});
+
+	it('stores notifications per recipient', async () => {
+		await send(ana, 'For Ana');
+		await send(bo, 'For Bo');
+		await send({ id: 'ana', type: 'team' }, 'For team Ana');
+
+		expect((await getNotifications('ana')).map((n) => n.data.title)).toEqual(['For Ana']);
+		expect((await getNotifications({ id: 'ana', type: 'team' })).map((n) => n.data.title)).toEqual([
+			'For team Ana'
+		]);
+		expect(await getNotifications('ana')).toEqual([
+			expect.objectContaining({
+				type: 'comment',
+				notifiableType: 'user',
+				notifiableId: 'ana',
+				readAt: null
+			})
+		]);
+	});
+
+	it('only stores notifications sent through the database channel', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		await notify(ana, { type: 'alert', channels: ['sms'], data: {} });
+
+		expect(await getNotifications('ana')).toEqual([]);
+		vi.restoreAllMocks();
+	});
+
+	it('paginates newest first', async () => {
+		vi.useFakeTimers();
+		try {
+			for (let i = 1; i <= 5; i++) {
+				vi.setSystemTime(new Date(2026, 0, i));
+				await send(ana, `#${i}`);
+			}
+		} finally {
+			vi.useRealTimers();
+		}
+
+		const page = await paginateNotifications('ana', { page: 2, perPage: 2 });
+
+		expect(page.data.map((n) => n.data.title)).toEqual(['#3', '#2']);
+		expect(page.meta).toEqual({
+			current_page: 2,
+			per_page: 2,
+			total: 5,
+			last_page: 3,
+			from: 3,
+			to: 4,
+			has_more: true,
+			links: { first: 1, last: 3, prev: 1, next: 3 }
+		});
+		expect((await getNotifications('ana', { limit: 1 })).map((n) => n.data.title)).toEqual(['#5']);
+	});
+
+	it('keeps read state per user', async () => {
+		const first = await send(ana, 'First');
+		await send(ana, 'Second');
+		const other = await send(bo, 'Other');
+
+		expect(await markAsRead('ana', other.id!)).toBe(0);
+		expect(await markAsRead('ana', first.id!)).toBe(1);
+		expect(await markAsRead('ana', first.id!)).toBe(0);
+
+		expect(await unreadCount('ana')).toBe(1);
+		expect(await unreadCount('bo')).toBe(1);
+		expect((await getNotifications('ana', { unreadOnly: true })).map((n) => n.data.title)).toEqual([
+			'Second'
+		]);
+
+		expect(await markAllAsRead('ana')).toBe(1);
+		expect(await unreadCount('ana')).toBe(0);
+		expect(await unreadCount('bo')).toBe(1);
+		expect((await getNotifications('ana'))[0].readAt).toBeInstanceOf(Date);
+	});
+
+	it('still marks a notification read by id alone', async () => {
+		const first = await send(ana, 'First');
+		await send(bo, 'Other');
+
+		expect(await markAsRead(first.id!)).toBe(1);
+		expect(await markAsRead(first.id!)).toBe(0);
+		expect(await markAsRead('missing')).toBe(0);
+
+		expect(await unreadCount('ana')).toBe(0);
+		expect(await unreadCount('bo')).toBe(1);
+	});
+
+	it('deletes only notifications of the recipient', async () => {
+		const mine = await send(ana, 'Mine');
+		const theirs = await send(bo, 'Theirs');
+
+		expect(await deleteNotifications('ana', [mine.id!, theirs.id!])).toBe(1);
+		expect(await getNotifications('ana')).toEqual([]);
+		expect(await getNotifications('bo')).toHaveLength(1);
+	});
+
+	it('reports unknown stores', async () => {
+		configureNotifications({ channels: [], store: 'redis' });
+
+		await expect(unreadCount('ana')).rejects.toThrow(
+			"Store 'redis' is not registered. Use registerNotificationStore() to add it."
+		);
+
+		registerNotificationStore('redis', () => ({
+			insert: async () => {},
+			find: async () => null,
+			list: async () => ({ data: [], total: 0 }),
+			unreadCount: async () => 7,
+			markAsRead: async () => 0,
+			delete: async () => 0,
+			getPreferences: async () => null,
+			savePreferences: async () => {},
+			addDigestItem: async () => {},
+			takeDigestItems: async () => []
+		}));
+		expect(await unreadCount('ana')).toBe(7);
+	});
+});
+
+describe('database store', () => {
+	beforeEach(() => {
+		client.statements.length = 0;
+		client.results.length = 0;
+		configureNotifications({ channels: [], store: 'database' });
+	});
+
+	afterEach(() => {
+		configureNotifications({ channels: [], store: 'memory' });
+	});
+
+	it('inserts one row per recipient with JSON data', async () => {
+		const notification = await send({ id: '42', type: 'team' }, 'Hello');
+
+		const [preferences, insert] = client.statements;
+		expect(preferences.query).toMatch(/^select "preferences" from "notification_preferences"/);
+		expect(preferences.params).toEqual(['team', '42', 1]);
+		expect(insert.query).toMatch(/^insert into "notifications"/);
+		expect(insert.params).toEqual(
+			expect.arrayContaining([notification.id, 'comment', 'team', '42', '{"title":"Hello"}'])
+		);
+	});
+
+	it('scopes reads to the notifiable and paginates in SQL', async () => {
+		const createdAt = new Date('2026-01-02T00:00:00Z');
+		client.results.push(
+			[['n1', 'comment', 'user', 'ana', '{"title":"Hi"}', null, createdAt, createdAt]],
+			[[3]]
+		);
+
+		const page = await paginateNotifications('ana', { page: 2, perPage: 1, unreadOnly: true });
+
+		const [select, count] = client.statements;
+		expect(select.query).toContain(
+			'("notifications"."notifiable_type" = $1 and "notifications"."notifiable_id" = $2)'
+		);
+		expect(select.query).toContain('"notifications"."read_at" is null');
+		expect(select.query).toContain('order by "notifications"."created_at" desc');
+		expect(select.params).toEqual(['user', 'ana', 1, 1]);
+		expect(count.query).toContain('count(*)::int');
+		expect(page.data).toEqual([
+			{
+				id: 'n1',
+				type: 'comment',
+				notifiableType: 'user',
+				notifiableId: 'ana',
+				data: { title: 'Hi' },
+				readAt: null,
+				createdAt
+			}
+		]);
+		expect(page.meta.total).toBe(3);
+	});
+
+	it('marks only unread notifications of the notifiable as read', async () => {
+		client.results.push([['n1'], ['n2']]);
+
+		expect(await markAsRead('ana', ['n1', 'n2', 'n3'])).toBe(2);
+
+		const [update] = client.statements;
+		expect(update.query).toMatch(/^update "notifications" set "read_at" = \$1/);
+		expect(update.query).toContain('"notifications"."read_at" is null');
+		expect(update.query).toContain('"notifications"."id" in ($5, $6, $7)');
+		expect(update.params.slice(2)).toEqual(['user', 'ana', 'n1', 'n2', 'n3']);
+	});
+
+	it('looks up the owner when marking by id alone', async () => {
+		const createdAt = new Date('2026-01-02T00:00:00Z');
+		client.results.push(
+			[['n1', 'comment', 'team', '42', '{"title":"Hi"}', null, createdAt, createdAt]],
+			[['n1']]
+		);
+
+		expect(await markAsRead('n1')).toBe(1);
+
+		const [find, update] = client.statements;
+		expect(find.query).toMatch(/^select .* from "notifications" where "notifications"."id" = \$1/);
+		expect(find.params).toEqual(['n1', 1]);
+		expect(update.params.slice(2)).toEqual(['team', '42', 'n1']);
+	});
+
+	it('upserts preferences on the notifiable', async () => {
+		client.results.push([], [], [['{"optOuts":{"comment":["mail"]}}']], []);
+
+		await updateNotificationPreferences('ana', { optOuts: { comment: ['mail'] } });
+		await updateNotificationPreferences('ana', { digest: 'hourly' });
+
+		const [, insert, , secondInsert] = client.statements;
+		expect(insert.query).toMatch(/^insert into "notification_preferences"/);
+		expect(insert.query).toContain(
+			'on conflict ("notifiable_type","notifiable_id") do update set "preferences" = '
+		);
+		expect(insert.params).toEqual(
+			expect.arrayContaining(['user', 'ana', '{"optOuts":{"comment":["mail"]}}'])
+		);
+		expect(secondInsert.params).toEqual(
+			expect.arrayContaining(['{"optOuts":{"comment":["mail"]},"digest":"hourly"}'])
+		);
+		expect(client.statements).toHaveLength(4);
+	});
+
+	it('takes due digest items in a single delete', async () => {
+		const until = new Date('2026-01-02T09:00:00Z');
+		client.results.push([
+			[
+				'd1',
+				'user',
+				'ana',
+				'daily',
+				'"ana@example.com"',
+				'comment',
+				'New comment',
+				null,
+				'https://app.test/c/1',
+				until,
+				until
+			]
+		]);
+
+		configureMail({ provider: 'console' });
+		const mail = Mail.fake();
+		try {
+			expect(await sendNotificationDigests('daily', until)).toBe(1);
+		} finally {
+			Mail.restore();
+		}
+
+		const [take] = client.statements;
+		expect(take.query).toMatch(/^delete from "notification_digests" where/);
+		expect(take.query).toContain('returning');
+		expect(take.params).toEqual(['daily', until.toISOString()]);
+		expect(mail.last).toMatchObject({ to: ['ana@example.com'] });
+	});
+});
+
+describe('channels', () => {
+	const fetchMock = vi.fn();
+
+	beforeEach(() => {
+		fetchMock.mockReset().mockResolvedValue(new Response('ok'));
+		vi.stubGlobal('fetch', fetchMock);
+		configureNotifications({
+			channels: [
+				{
+					name: 'hooks',
+					driver: 'webhook',
+					config: { url: 'https://hooks.test/in', secret: 's3cret' }
+				},
+				{
+					name: 'ops',
+					driver: 'slack',
+					config: { webhookUrl: 'https://hooks.slack.test/T1', username: 'Omni' }
+				}
+			],
+			store: 'memory'
+		});
+	});
+
+	afterEach(() => {
+		Mail.restore();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('sends mail to the recipient email', async () => {
+		const mail = Mail.fake();
+		configureMail({ provider: 'console', from: 'app@example.com' });
+
+		await notify(ana, {
+			type: 'invoice.paid',
+			channels: ['mail'],
+			data: { subject: 'Invoice paid', message: 'Thanks!' }
+		});
+
+		mail.assertSentCount(1);
+		expect(mail.last).toMatchObject({
+			to: 'ana@example.com',
+			from: 'app@example.com',
+			subject: 'Invoice paid',
+			text: 'Thanks!'
+		});
+	});
+
+	it('logs recipients without an email address', async () => {
+		const mail = Mail.fake();
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await notify({ id: 'no-mail' }, { type: 'x', channels: ['mail'], data: {} });
+
+		mail.assertNothingSent();
+		expect(error).toHaveBeenCalledWith(
+			"🔔 [Notifications] Failed to send via 'mail':",
+			expect.objectContaining({ message: "Recipient 'no-mail' has no email address" })
+		);
+	});
+
+	it('posts signed JSON to webhooks', async () => {
+		const notification = await notify(
+			{ id: '7', type: 'team' },
+			{ type: 'deploy.finished', channels: ['hooks'], data: { ok: true } }
+		);
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('https://hooks.test/in');
+		expect(JSON.parse(init.body)).toEqual({
+			id: notification.id,
+			type: 'deploy.finished',
+			notifiable: { type: 'team', id: '7' },
+			data: { ok: true },
+			createdAt: notification.createdAt!.toISOString()
+		});
+		expect(init.headers).toMatchObject({
+			'Content-Type': 'application/json',
+			'X-Omni-Event': 'deploy.finished',
+			'X-Omni-Delivery': notification.id
+		});
+
+		const signature = init.headers['X-Omni-Signature'];
+		expect(signature).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+		expect(verifyWebhookSignature(init.body, signature, 's3cret')).toBe(true);
+		expect(verifyWebhookSignature(init.body, signature, 'wrong')).toBe(false);
+		expect(verifyWebhookSignature(`${init.body} `, signature, 's3cret')).toBe(false);
+	});
+
+	it('rejects stale webhook signatures', () => {
+		const stale = signWebhookPayload('{}', 's3cret', Math.floor(Date.now() / 1000) - 600);
+
+		expect(verifyWebhookSignature('{}', stale, 's3cret')).toBe(false);
+		expect(verifyWebhookSignature('{}', stale, 's3cret', 900)).toBe(true);
+		expect(verifyWebhookSignature('{}', undefined, 's3cret')).toBe(false);
+	});
+
+	it('posts Block Kit messages to Slack', async () => {
+		await notify(ana, {
+			type: 'deploy.failed',
+			channels: ['ops'],
+			data: {
+				title: 'Deploy failed',
+				message: '*api* failed on step `migrate`',
+				url: 'https://ci.test/1',
+				actionText: 'Open build'
+			}
+		});
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('https://hooks.slack.test/T1');
+		expect(JSON.parse(init.body)).toEqual({
+			text: '*api* failed on step `migrate`',
+			username: 'Omni',
+			blocks: [
+				{ type: 'header', text: { type: 'plain_text', text: 'Deploy failed', emoji: true } },
+				{ type: 'section', text: { type: 'mrkdwn', text: '*api* failed on step `migrate`' } },
+				{
+					type: 'actions',
+					elements: [
+						{
+							type: 'button',
+							text: { type: 'plain_text', text: 'Open build', emoji: true },
+							url: 'https://ci.test/1'
+						}
+					]
+				}
+			]
+		});
+	});
+
+	it('reports failed deliveries and keeps going', async () => {
+		fetchMock.mockResolvedValueOnce(new Response('invalid_token', { status: 403 }));
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await notify(ana, { type: 'x', channels: ['ops', 'database'], data: { title: 'Hi' } });
+
+		const [, reason] = error.mock.calls[0];
+		expect(reason).toBeInstanceOf(NotificationChannelError);
+		expect(reason.message).toBe('Slack responded with 403: invalid_token');
+		expect(await getNotifications('ana')).toHaveLength(1);
+	});
+
+	it('prefers handlers added with registerChannel()', async () => {
+		const handler = vi.fn(async () => {});
+		registerChannel('hooks', handler);
+
+		await notify(ana, { type: 'x', channels: ['hooks'], data: {} });
+
+		expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'x' }), ana);
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+});
+
+describe('notification classes', () => {
+	const fetchMock = vi.fn();
+
+	class InvoicePaid extends BaseNotification {
+		constructor(private invoice: { id: string; amount: number }) {
+			super();
+		}
+
+		via(recipient: NotificationRecipient) {
+			return recipient.routeNotificationFor?.('slack')
+				? ['slack', 'database']
+				: ['mail', 'webhook'];
+		}
+
+		toMail() {
+			return {
+				subject: `Invoice ${this.invoice.id} paid`,
+				text: `We received $${this.invoice.amount}.`
+			};
+		}
+
+		toDatabase() {
+			return { invoiceId: this.invoice.id, amount: this.invoice.amount };
+		}
+
+		toWebhook() {
+			return { invoice: this.invoice };
+		}
+
+		toSlack() {
+			return { text: `:moneybag: Invoice ${this.invoice.id} paid` };
+		}
+	}
+
+	beforeEach(() => {
+		fetchMock.mockReset().mockResolvedValue(new Response('ok'));
+		vi.stubGlobal('fetch', fetchMock);
+		configureNotifications({
+			channels: [{ name: 'webhook', driver: 'webhook', config: { url: 'https://hooks.test/in' } }],
+			store: 'memory'
+		});
+	});
+
+	afterEach(() => {
+		Mail.restore();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('formats the notification for each channel from via()', async () => {
+		const mail = Mail.fake();
+
+		const notification = await notify(ana, new InvoicePaid({ id: 'INV-1', amount: 40 }));
+
+		expect(notification).toMatchObject({ type: 'InvoicePaid', channels: ['mail', 'webhook'] });
+		expect(mail.last).toMatchObject({
+			to: 'ana@example.com',
+			subject: 'Invoice INV-1 paid',
+			text: 'We received $40.'
+		});
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('https://hooks.test/in');
+		expect(JSON.parse(init.body)).toMatchObject({
+			type: 'InvoicePaid',
+			data: { invoice: { id: 'INV-1', amount: 40 } }
+		});
+		expect(await getNotifications('ana')).toHaveLength(0);
+	});
+
+	it('routes each channel through routeNotificationFor()', async () => {
+		const mail = Mail.fake();
+		const team = {
+			id: 'billing',
+			type: 'team',
+			routeNotificationFor: (channel: string) =>
+				({ slack: 'https://hooks.slack.test/billing', mail: ['a@team.test', 'b@team.test'] })[
+					channel
+				] ?? null
+		};
+
+		await notify(team, new InvoicePaid({ id: 'INV-2', amount: 15 }));
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe('https://hooks.slack.test/billing');
+		expect(JSON.parse(init.body)).toMatchObject({ text: ':moneybag: Invoice INV-2 paid' });
+		expect(await getNotifications({ type: 'team', id: 'billing' })).toMatchObject([
+			{ type: 'InvoicePaid', data: { invoiceId: 'INV-2', amount: 15 } }
+		]);
+		mail.assertNothingSent();
+
+		await notify(team, {
+			type: 'x',
+			channels: ['mail'],
+			data: { subject: 'Hi' }
+		});
+		expect(mail.last?.to).toEqual(['a@team.test', 'b@team.test']);
+	});
+
+	it('falls back to toArray() and names the missing formatter', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const sms = vi.fn(async () => {});
+		registerChannel('sms', sms);
+
+		class Welcome extends BaseNotification {
+			via() {
+				return ['sms', 'database'];
+			}
+
+			toSms() {
+				return { body: 'Welcome!' };
+			}
+		}
+		class Ping extends BaseNotification {
+			type() {
+				return 'ping';
+			}
+
+			via() {
+				return ['database', 'sms'];
+			}
+
+			toArray() {
+				return { pong: true };
+			}
+		}
+
+		await notify(ana, new Welcome());
+		await notify(ana, new Ping());
+
+		expect(sms).toHaveBeenCalledWith(expect.objectContaining({ data: { body: 'Welcome!' } }), ana);
+		expect(sms).toHaveBeenCalledWith(expect.objectContaining({ data: { pong: true } }), ana);
+		expect(await getNotifications('ana')).toMatchObject([{ type: 'ping', data: { pong: true } }]);
+		expect(error).toHaveBeenCalledWith(
+			"🔔 [Notifications] Failed to send via 'database':",
+			expect.objectContaining({
+				message: 'Welcome has no toDatabase() or toArray() for this channel'
+			})
+		);
+	});
+
+	it('needs a URL from the channel or the recipient', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await notify(ana, { type: 'x', channels: ['slack'], data: {} });
+
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(error.mock.calls[0][1].message).toBe(
+			"No slack URL for recipient 'ana'. Set one in the channel config or route it with routeNotificationFor()."
+		);
+	});
+});
+
+describe('preferences and digests', () => {
+	class Mentioned extends BaseNotification {
+		constructor(private by: string) {
+			super();
+		}
+
+		via() {
+			return ['mail', 'database'];
+		}
+
+		priority() {
+			return 'low' as const;
+		}
+
+		toMail() {
+			return { subject: `${this.by} mentioned you`, text: 'In #general' };
+		}
+
+		toDatabase() {
+			return { by: this.by };
+		}
+	}
+
+	beforeEach(() => {
+		configureNotifications({ channels: [], store: 'memory', digest: undefined });
+	});
+
+	afterEach(() => {
+		Mail.restore();
+		vi.restoreAllMocks();
+	});
+
+	it('skips channels the recipient opted out of', async () => {
+		const mail = Mail.fake();
+		await updateNotificationPreferences('ana', {
+			optOuts: { comment: ['database'], '*': ['sms'] }
+		});
+
+		const sent = await notify(ana, {
+			type: 'comment',
+			channels: ['mail', 'database', 'sms'],
+			data: { subject: 'New comment' }
+		});
+		await notify(ana, { type: 'invoice.paid', channels: ['database'], data: {} });
+
+		expect(sent.channels).toEqual(['mail']);
+		mail.assertSentCount(1);
+		expect(await getNotifications('ana')).toMatchObject([{ type: 'invoice.paid' }]);
+
+		const preferences = await updateNotificationPreferences('ana', { optOuts: { comment: [] } });
+		expect(preferences).toEqual({ optOuts: { '*': ['sms'] } });
+		expect(await getNotificationPreferences({ id: 'ana' })).toEqual(preferences);
+	});
+
+	it('batches low-priority mail into one digest per recipient', async () => {
+		const mail = Mail.fake();
+
+		await notify(ana, new Mentioned('Bo'));
+		await notify(ana, new Mentioned('Cy'));
+		await notify(bo, new Mentioned('Ana'));
+
+		mail.assertNothingSent();
+		expect(await getNotifications('ana')).toHaveLength(2);
+		expect(await sendNotificationDigests('hourly')).toBe(0);
+
+		expect(await sendNotificationDigests('daily')).toBe(2);
+		mail.assertSentCount(2);
+		mail.assertSent(
+			(message) =>
+				message.to[0] === 'ana@example.com' &&
+				message.subject === 'Your daily digest: 2 new notifications' &&
+				/Bo mentioned you[\s\S]*Cy mentioned you/.test(message.text ?? '')
+		);
+		expect(await sendNotificationDigests('daily')).toBe(0);
+	});
+
+	it('follows the recipient digest frequency', async () => {
+		const mail = Mail.fake();
+		await updateNotificationPreferences('ana', { digest: 'hourly' });
+		await updateNotificationPreferences('bo', { digest: 'immediate' });
+
+		await notify(ana, new Mentioned('Bo'));
+		await notify(bo, new Mentioned('Ana'));
+
+		mail.assertSentCount(1);
+		expect(mail.last).toMatchObject({ to: 'bo@example.com', subject: 'Ana mentioned you' });
+		expect(await sendNotificationDigests('daily')).toBe(0);
+		expect(await sendNotificationDigests('hourly')).toBe(1);
+		expect(mail.last?.subject).toBe('Your hourly digest: 1 new notification');
+	});
+
+	it('keeps digests that fail to send for the next run', async () => {
+		Mail.fake();
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const subject = vi
+			.fn()
+			.mockImplementationOnce(() => {
+				throw new Error('SMTP down');
+			})
+			.mockReturnValue('Catch up');
+		configureNotifications({ channels: [], digest: { subject } });
+
+		await notify(ana, new Mentioned('Bo'));
+
+		expect(await sendNotificationDigests('daily')).toBe(0);
+		expect(error.mock.calls[0][0]).toBe(
+			"🔔 [Notifications] Failed to send the daily digest to 'ana':"
+		);
+		expect(await sendNotificationDigests('daily')).toBe(1);
+		expect(subject).toHaveBeenLastCalledWith('daily', 1);
+	});
+});
+
+describe('live stream', () => {
+	const endpoint = 'http://app.test/api/notifications';
+
+	/** Read `count` server-sent events as `{ event, id, data }` */
+	async function readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, count: number) {
+		const decoder = new TextDecoder();
+		let buffer = '';
+		while (buffer.split('\n\n').length <= count) {
+			const { value, done } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value);
+		}
+		return buffer
+			.split('\n\n')
+			.slice(0, count)
+			.map((block) => {
+				const fields = Object.fromEntries(
+					block
+						.split('\n')
+						.map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+				);
+				return { event: fields.event, id: fields.id, data: JSON.parse(fields.data) };
+			});
+	}
+
+	beforeEach(() => {
+		configureNotifications({ channels: [], store: 'memory' });
+	});
+
+	it('streams a snapshot, then new notifications and unread counts', async () => {
+		const existing = await send(ana, 'Earlier');
+		const controller = new AbortController();
+
+		const response = await handleNotificationRequest(
+			new Request(endpoint, {
+				headers: { Accept: 'text/event-stream' },
+				signal: controller.signal
+			}),
+			'ana'
+		);
+		expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+		const reader = response.body!.getReader();
+
+		const [snapshot] = await readEvents(reader, 1);
+		expect(snapshot.event).toBe('snapshot');
+		expect(snapshot.data).toMatchObject({
+			notifications: [{ id: existing.id, data: { title: 'Earlier' } }],
+			unreadCount: 1
+		});
+
+		const fresh = await send(ana, 'Now');
+		await send(bo, 'Not for ana');
+		const [notification, unread] = await readEvents(reader, 2);
+		expect(notification).toMatchObject({
+			event: 'notification',
+			id: fresh.id,
+			data: { id: fresh.id, notifiableId: 'ana', data: { title: 'Now' }, readAt: null }
+		});
+		expect(unread).toEqual({ event: 'unread', id: undefined, data: { count: 2 } });
+
+		await markAllAsRead('ana');
+		expect(await readEvents(reader, 1)).toEqual([
+			{ event: 'unread', id: undefined, data: { count: 0 } }
+		]);
+
+		controller.abort();
+		expect((await reader.read()).done).toBe(true);
+		expect(hasNotificationListeners('user', 'ana')).toBe(false);
+	});
+
+	it('closes at once when the client is already gone', async () => {
+		const controller = new AbortController();
+		controller.abort();
+
+		const response = await handleNotificationRequest(
+			new Request(endpoint, {
+				headers: { Accept: 'text/event-stream' },
+				signal: controller.signal
+			}),
+			'ana'
+		);
+
+		expect((await response.body!.getReader().read()).done).toBe(true);
+		expect(hasNotificationListeners('user', 'ana')).toBe(false);
+	});
+
+	it('pages and marks notifications as read over JSON', async () => {
+		const first = await send(ana, 'One');
+		await send(ana, 'Two');
+
+		const page = await handleNotificationRequest(new Request(`${endpoint}?perPage=1`), 'ana');
+		const { data, meta } = await page.json();
+		expect(data).toHaveLength(1);
+		expect(meta).toMatchObject({ per_page: 1, total: 2, last_page: 2 });
+
+		const capped = await handleNotificationRequest(
+			new Request(`${endpoint}?perPage=1000000`),
+			'ana'
+		);
+		expect((await capped.json()).meta.per_page).toBe(100);
+
+		const marked = await handleNotificationRequest(
+			new Request(endpoint, { method: 'POST', body: JSON.stringify({ ids: [first.id] }) }),
+			'ana'
+		);
+		expect(await marked.json()).toEqual({ unreadCount: 1 });
+
+		const all = await handleNotificationRequest(
+			new Request(endpoint, { method: 'POST', body: JSON.stringify({ all: true }) }),
+			'ana'
+		);
+		expect(await all.json()).toEqual({ unreadCount: 0 });
+	});
+
+	it('rejects POST bodies that do not say which notifications to mark', async () => {
+		await send(ana, 'One');
+
+		for (const body of [undefined, 'not json', '{}', '{"ids":"n1"}', '{"ids":[1]}']) {
+			const response = await handleNotificationRequest(
+				new Request(endpoint, { method: 'POST', body }),
+				'ana'
+			);
+			expect(response.status).toBe(400);
+		}
+		expect(await unreadCount('ana')).toBe(1);
+	});
+
+	it('rejects requests without a signed-in user', async () => {
+		const response = await handleNotificationRequest(new Request(endpoint), undefined);
+
+		expect(response.status).toBe(401);
+	});
+});
+
+describe('notifications schema', () => {
+	// Run generated drizzle code against the real pg-core builders
+	function loadGeneratedTable(code: string, name: string): PgTable {
+		const body = code
+			.replace(/^import .*$/m, '')
+			.replace(/^export type .*$/gm, '')
+			.replace(/^export const /gm, 'const ');
+		const names = Object.keys(pgCore);
+		return new Function(...names, `${body}\nreturn ${name};`)(
+			...names.map((key) => (pgCore as any)[key])
+		);
+	}
+
+	it('generates the columns the database store uses', async () => {
+		const directory = mkdtempSync(join(tmpdir(), 'omni-notifications-'));
+		try {
+			const file = join(directory, 'notifications.schema.ts');
+			writeFileSync(file, NOTIFICATIONS_SCHEMA);
+
+			const schemas = await new RegexSchemaParser({} as any).parseSchemas(file);
+			const tables = [notificationsTable, notificationPreferencesTable, notificationDigestsTable];
+			expect(schemas.map((schema) => schema.name)).toEqual(
+				tables.map((table) => getTableConfig(table).name)
+			);
+
+			const generated = schemas.map((schema) => new DrizzleGenerator(schema).generate());
+			tables.forEach((table, index) => {
+				for (const column of Object.values(getTableColumns(table))) {
+					expect(generated[index]).toContain(`('${column.name}'`);
+				}
+			});
+
+			const [notifications, preferences, digests] = generated;
+			expect(notifications).toContain("varchar('notifiable_id', { length: 255 }).notNull()");
+			expect(notifications).toContain("text('data').notNull()");
+			expect(notifications).toContain("timestamp('read_at')");
+			expect(preferences).toContain("text('preferences').notNull()");
+			expect(digests).toContain("text('subject').notNull()");
+
+			// Preferences are upserted on (notifiable_type, notifiable_id), so the
+			// generated table must carry that unique index for drizzle-kit to create it
+			for (const parser of [new RegexSchemaParser({} as any), new ASTSchemaParser({} as any)]) {
+				const generatedTables = (await parser.parseSchemas(file)).map((schema) =>
+					getTableConfig(loadGeneratedTable(new DrizzleGenerator(schema).generate(), schema.name))
+				);
+				const indexes = generatedTables.map(({ indexes }) =>
+					indexes.map(({ config }) => ({
+						name: config.name,
+						unique: config.unique,
+						columns: config.columns.map((column: any) => column.name)
+					}))
+				);
+				expect(indexes).toEqual(
+					tables.map((table) =>
+						getTableConfig(table).indexes.map(({ config }) => ({
+							name: config.name,
+							unique: config.unique,
+							columns: config.columns.map((column: any) => column.name)
+						}))
+					)
+				);
+			}
+			expect(getTableConfig(notificationPreferencesTable).indexes[0].config.unique).toBe(true);
+		} finally {
+			rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
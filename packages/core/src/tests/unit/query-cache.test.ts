@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { boolean, pgTable, serial, text } from 'drizzle-orm/pg-core';
+import { Model } from '../../database/model.js';
+import * as cache from '../../cache/index.js';
+
+/**
+ * Fake postgres-js client: records every statement and answers SELECTs from
+ * an in-memory row list, so cached queries can be observed by call count.
+ */
+const client = vi.hoisted(() => {
+	const rows: unknown[][] = [];
+	const statements: string[] = [];
+
+	const unsafe = (query: string) => {
+		statements.push(query);
+		let result: unknown[][] = [];
+		if (query.startsWith('select')) result = rows;
+		if (query.startsWith('insert')) result = [[rows.length + 1, 'New', false]];
+
+		const promise: any = Promise.resolve(result);
+		promise.values = () => Promise.resolve(result);
+		return promise;
+	};
+
+	return { rows, statements, unsafe, options: { parsers: {}, serializers: {} } };
+});
+
+vi.mock('../../database/database.js', async () => {
+	const { drizzle } = await import('drizzle-orm/postgres-js');
+	const db = drizzle(client as any);
+	return { getDatabase: () => db };
+});
+
+const posts = pgTable('posts', {
+	id: serial('id').primaryKey(),
+	title: text('title'),
+	published: boolean('published')
+});
+
+const authors = pgTable('authors', {
+	id: serial('id').primaryKey(),
+	name: text('name')
+});
+
+class Post extends Model {
+	static table = posts;
+	static timestamps = false;
+	static hooks = {};
+}
+
+const selects = () => client.statements.filter((s) => s.startsWith('select')).length;
+
+describe('QueryBuilder.cache()', () => {
+	beforeEach(async () => {
+		cache.configureCache({ driver: 'memory', prefix: 'qc:' });
+		await cache.flush();
+		client.statements.length = 0;
+		client.rows.splice(0, client.rows.length, [1, 'Hello', true]);
+	});
+
+	it('serves repeated queries from the cache', async () => {
+		const first = await Post.query().where('published', true).cache(60).get();
+		const second = await Post.query().where('published', true).cache(60).get();
+
+		expect(first.map((p) => p.toJSON())).toEqual([{ id: 1, title: 'Hello', published: true }]);
+		expect(second.map((p) => p.toJSON())).toEqual(first.map((p) => p.toJSON()));
+		expect(second[0].exists).toBe(true);
+		expect(selects()).toBe(1);
+	});
+
+	it('keys entries by the compiled SQL and bindings', async () => {
+		await Post.query().where('published', true).cache(60).get();
+		await Post.query().where('published', false).cache(60).get();
+		await Post.query().where('published', true).limit(5).cache(60).get();
+
+		expect(selects()).toBe(3);
+	});
+
+	it('does not cache queries without cache()', async () => {
+		await Post.query().where('published', true).get();
+		await Post.query().where('published', true).get();
+
+		expect(selects()).toBe(2);
+	});
+
+	it('caches first()', async () => {
+		await Post.query().cache(60).first();
+		const post = await Post.query().cache(60).first();
+
+		expect(post?.getAttribute('title')).toBe('Hello');
+		expect(selects()).toBe(1);
+	});
+
+	it('invalidates cached queries when a model is inserted', async () => {
+		await Post.query().cache(60).get();
+		await Post.create({ title: 'New', published: false });
+		await Post.query().cache(60).get();
+
+		expect(selects()).toBe(2);
+	});
+
+	it('invalidates cached queries when a model is updated or deleted', async () => {
+		const [post] = await Post.query().cache(60).get();
+
+		await post.update({ title: 'Changed' });
+		await Post.query().cache(60).get();
+		expect(selects()).toBe(2);
+
+		await post.delete();
+		await Post.query().cache(60).get();
+		expect(selects()).toBe(3);
+	});
+
+	it('tags joined tables so their writes invalidate too', async () => {
+		class Author extends Model {
+			static table = authors;
+			static timestamps = false;
+			static hooks = {};
+		}
+
+		await Post.query().join(authors, 'id', '=', 'id').cache(60).get();
+		await Author.flushQueryCache();
+		await Post.query().join(authors, 'id', '=', 'id').cache(60).get();
+
+		expect(selects()).toBe(2);
+	});
+
+	it('tags tables read by subqueries', async () => {
+		class Author extends Model {
+			static table = authors;
+			static timestamps = false;
+			static hooks = {};
+		}
+		const inSubquery = () => Post.query().whereIn('id', Author.query()).cache(60).get();
+		const existsSubquery = () =>
+			Post.query()
+				.whereExists((query) => query.join(authors, 'id', '=', 'id'))
+				.cache(60)
+				.get();
+
+		await inSubquery();
+		await existsSubquery();
+		await Author.flushQueryCache();
+		await inSubquery();
+		await existsSubquery();
+
+		expect(selects()).toBe(4);
+	});
+});
@@ -0,0 +1,1061 @@
+import { integer, pgTable, varchar } from 'drizzle-orm/pg-core';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+import * as cache from '../../cache/index.js';
+import { Model } from '../../database/model.js';
+import * as queue from '../../queue/index.js';
+import {
+	JobTimeoutError,
+	JobValidationError,
+	MemoryQueueDriver,
+	PermanentJobError,
+	type Job
+} from '../../queue/index.js';
+import { backoffDelay } from '../../queue/utils.js';
+
+/**
+ * Fake postgres-js client: records every statement with its bindings and
+ * answers with whatever rows the test queued up next.
+ */
+const client = vi.hoisted(() => {
+	const statements: Array<{ query: string; params: unknown[] }> = [];
+	const results: unknown[][][] = [];
+
+	const unsafe = (query: string, params: unknown[] = []) => {
+		statements.push({ query, params });
+		const result = results.shift() ?? [];
+		const promise: any = Promise.resolve(result);
+		promise.values = () => Promise.resolve(result);
+		return promise;
+	};
+
+	// Transactions run their callback against the same fake connection
+	const begin = async (fn: (tx: unknown) => unknown) => {
+		statements.push({ query: 'begin', params: [] });
+		const result = await fn(fake);
+		statements.push({ query: 'commit', params: [] });
+		return result;
+	};
+
+	const fake = { statements, results, unsafe, begin, options: { parsers: {}, serializers: {} } };
+	return fake;
+});
+
+vi.mock('../../database/database.js', async () => {
+	const { drizzle } = await import('drizzle-orm/postgres-js');
+	const db = drizzle(client as any);
+	return { getDatabase: () => db };
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+	return {
+		id: crypto.randomUUID(),
+		name: 'test',
+		data: {},
+		queue: 'default',
+		status: 'pending',
+		attempts: 0,
+		maxAttempts: 3,
+		priority: 0,
+		availableAt: new Date(),
+		createdAt: new Date(),
+		...overrides
+	};
+}
+
+describe('memory driver', () => {
+	it('reserves the highest priority job first, in dispatch order on ties', async () => {
+		const driver = new MemoryQueueDriver();
+		await driver.push(makeJob({ id: 'low', priority: 1 }));
+		await driver.push(makeJob({ id: 'high-1', priority: 5 }));
+		await driver.push(makeJob({ id: 'high-2', priority: 5 }));
+
+		const order: string[] = [];
+		for (let job = await driver.reserve('default'); job; job = await driver.reserve('default')) {
+			order.push(job.id);
+		}
+
+		expect(order).toEqual(['high-1', 'high-2', 'low']);
+	});
+
+	it('skips delayed jobs and other queues', async () => {
+		const driver = new MemoryQueueDriver();
+		await driver.push(makeJob({ availableAt: new Date(Date.now() + 60_000) }));
+		await driver.push(makeJob({ queue: 'emails' }));
+
+		expect(await driver.reserve('default')).toBeNull();
+		expect((await driver.reserve('emails'))?.attempts).toBe(1);
+	});
+});
+
+describe('backoffDelay', () => {
+	it('uses a fixed delay for numbers', () => {
+		expect(backoffDelay(500, 1)).toBe(500);
+		expect(backoffDelay(500, 4)).toBe(500);
+	});
+
+	it('doubles exponential delays up to maxDelay', () => {
+		const backoff = { type: 'exponential', delay: 100, maxDelay: 500 } as const;
+		expect([1, 2, 3, 4].map((attempt) => backoffDelay(backoff, attempt))).toEqual([
+			100, 200, 400, 500
+		]);
+	});
+
+	it('defaults to exponential backoff from one second', () => {
+		expect(backoffDelay(undefined, 1)).toBe(1000);
+		expect(backoffDelay(undefined, 3)).toBe(4000);
+	});
+
+	it('keeps jittered delays between half and all of the computed delay', () => {
+		for (let i = 0; i < 20; i++) {
+			const delay = backoffDelay({ type: 'fixed', delay: 1000, jitter: true }, 1);
+			expect(delay).toBeGreaterThanOrEqual(500);
+			expect(delay).toBeLessThanOrEqual(1000);
+		}
+	});
+});
+
+describe('job processing', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		queue.configureQueue({ driver: 'memory' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('runs dispatched jobs in process with the memory driver', async () => {
+		const handled: unknown[] = [];
+		queue.defineJob('greet', async (job) => {
+			handled.push(job.data);
+		});
+
+		const job = await queue.dispatch('greet', { name: 'Ada' });
+		await sleep(0);
+
+		expect(handled).toEqual([{ name: 'Ada' }]);
+		expect(job?.status).toBe('completed');
+		expect(await queue.getQueueStatus()).toMatchObject({ completed: 1, pending: 0 });
+	});
+
+	it('honors delay', async () => {
+		queue.defineJob('later', async () => {});
+
+		const job = await queue.dispatch('later', {}, { delay: 30 });
+		await sleep(5);
+		expect(job?.status).toBe('pending');
+
+		await sleep(40);
+		expect(job?.status).toBe('completed');
+	});
+
+	it('retries with the configured backoff until attempts run out', async () => {
+		const runs: number[] = [];
+		queue.defineJob('flaky', async () => {
+			runs.push(Date.now());
+			throw new Error('boom');
+		});
+
+		const job = await queue.dispatch('flaky', {}, { attempts: 2, backoff: 20 });
+		await sleep(5);
+		expect(job).toMatchObject({ status: 'pending', attempts: 1, error: 'boom' });
+
+		await sleep(40);
+		expect(runs).toHaveLength(2);
+		expect(runs[1] - runs[0]).toBeGreaterThanOrEqual(15);
+		expect(job).toMatchObject({ status: 'failed', attempts: 2, error: 'boom' });
+	});
+
+	it('fails straight away on PermanentJobError', async () => {
+		let runs = 0;
+		queue.defineJob('rejected', async () => {
+			runs++;
+			throw new PermanentJobError('mailbox does not exist');
+		});
+
+		const job = await queue.dispatch('rejected', {}, { attempts: 3, backoff: 1 });
+		await sleep(10);
+
+		expect(runs).toBe(1);
+		expect(job).toMatchObject({ status: 'failed', attempts: 1, error: 'mailbox does not exist' });
+	});
+
+	it('backs off exponentially when configured', async () => {
+		const runs: number[] = [];
+		queue.defineJob('exponential', async () => {
+			runs.push(Date.now());
+			throw new Error('boom');
+		});
+
+		await queue.dispatch(
+			'exponential',
+			{},
+			{ attempts: 3, backoff: { type: 'exponential', delay: 15 } }
+		);
+		await sleep(80);
+
+		expect(runs).toHaveLength(3);
+		expect(runs[1] - runs[0]).toBeGreaterThanOrEqual(12);
+		expect(runs[2] - runs[1]).toBeGreaterThanOrEqual(27);
+	});
+
+	it('aborts the handler signal when the timeout passes', async () => {
+		let reason: unknown;
+		queue.defineJob('cancellable', (_job, signal) => {
+			return new Promise<void>((_, reject) => {
+				signal.addEventListener('abort', () => {
+					reason = signal.reason;
+					reject(signal.reason);
+				});
+			});
+		});
+
+		const job = await queue.dispatch('cancellable', {}, { attempts: 1, timeout: 10 });
+		await sleep(30);
+
+		expect(reason).toBeInstanceOf(JobTimeoutError);
+		expect(job?.status).toBe('failed');
+	});
+
+	it('retries timed-out jobs whose handler stops on abort', async () => {
+		let runs = 0;
+		queue.defineJob('stops', (_job, signal) => {
+			runs++;
+			return new Promise<void>((resolve, reject) => {
+				if (runs === 2) return resolve();
+				signal.addEventListener('abort', () => reject(signal.reason));
+			});
+		});
+
+		const job = await queue.dispatch('stops', {}, { attempts: 2, backoff: 1, timeout: 10 });
+		await sleep(60);
+
+		expect(runs).toBe(2);
+		expect(job?.status).toBe('completed');
+	});
+
+	it('fails without retrying when the handler ignores the abort', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		let runs = 0;
+		queue.defineJob('stuck', () => {
+			runs++;
+			return new Promise<void>(() => {});
+		});
+
+		const job = await queue.dispatch('stuck', {}, { attempts: 3, backoff: 1, timeout: 10 });
+		await sleep(250);
+
+		expect(runs).toBe(1);
+		expect(job).toMatchObject({
+			status: 'failed',
+			attempts: 1,
+			error: 'Job timed out after 10ms and ignored its abort signal'
+		});
+	});
+
+	it('fails jobs without a handler', async () => {
+		const job = await queue.dispatch('unknown', {});
+		await sleep(0);
+
+		expect(job).toMatchObject({ status: 'failed', error: 'No handler for job: unknown' });
+	});
+
+	it('throws for drivers that are not registered', async () => {
+		queue.configureQueue({ driver: 'sqs' });
+		await expect(queue.dispatch('greet', {})).rejects.toThrow("Driver 'sqs' is not registered");
+	});
+});
+
+describe('worker', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		// A driver without inline processing, so only the worker runs jobs
+		queue.registerQueueDriver('worker-test', () => new MemoryQueueDriver());
+		queue.configureQueue({ driver: 'worker-test', concurrency: 1 });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('drains queues in the order given', async () => {
+		const handled: string[] = [];
+		queue.defineJob('record', async (job) => {
+			handled.push(job.data);
+		});
+
+		await queue.dispatch('record', 'low-1', { queue: 'low' });
+		await queue.dispatch('record', 'high-1', { queue: 'high' });
+		await queue.dispatch('record', 'low-2', { queue: 'low' });
+		await queue.dispatch('record', 'high-2', { queue: 'high' });
+
+		const processed = await queue.work({ queues: ['high', 'low'], maxJobs: 4 });
+
+		expect(processed).toBe(4);
+		expect(handled).toEqual(['high-1', 'high-2', 'low-1', 'low-2']);
+	});
+
+	it('processes a single job with once, and returns when nothing is ready', async () => {
+		queue.defineJob('noop', async () => {});
+		await queue.dispatch('noop', {});
+		await queue.dispatch('noop', {});
+
+		expect(await queue.work({ once: true, concurrency: 3 })).toBe(1);
+		expect(await queue.work({ once: true })).toBe(1);
+		expect(await queue.work({ once: true })).toBe(0);
+	});
+
+	it('runs up to concurrency jobs at a time without passing maxJobs', async () => {
+		let running = 0;
+		let peak = 0;
+		queue.defineJob('parallel', async () => {
+			running++;
+			peak = Math.max(peak, running);
+			await sleep(10);
+			running--;
+		});
+		for (let i = 0; i < 5; i++) await queue.dispatch('parallel', i);
+
+		const processed = await queue.work({ concurrency: 2, maxJobs: 3 });
+
+		expect(processed).toBe(3);
+		expect(peak).toBe(2);
+		expect((await queue.getQueueStatus()).pending).toBe(2);
+	});
+
+	it('stops after maxTime', async () => {
+		const started = Date.now();
+		expect(await queue.work({ maxTime: 30, sleep: 5 })).toBe(0);
+		expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+	});
+
+	it('finishes in-flight jobs when the signal aborts', async () => {
+		const controller = new AbortController();
+		const finished: number[] = [];
+		queue.defineJob('long', async (job) => {
+			controller.abort();
+			await sleep(10);
+			finished.push(job.data);
+		});
+		await queue.dispatch('long', 1);
+		await queue.dispatch('long', 2);
+
+		const processed = await queue.work({ signal: controller.signal });
+
+		expect(processed).toBe(1);
+		expect(finished).toEqual([1]);
+	});
+});
+
+describe('failed jobs', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		queue.registerQueueDriver('failed-test', () => new MemoryQueueDriver());
+		queue.configureQueue({ driver: 'failed-test' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	async function failOnce(name: string, data: unknown = {}) {
+		await queue.dispatch(name, data, { attempts: 1, priority: 2 });
+		await queue.work({ once: true });
+	}
+
+	it('keeps jobs that used up their attempts with the error and stack', async () => {
+		queue.defineJob('broken', async () => {
+			throw new Error('smtp down');
+		});
+		await failOnce('broken', { to: 'ada@example.com' });
+
+		const [failed] = await queue.getFailedJobs();
+		expect(failed).toMatchObject({
+			name: 'broken',
+			data: { to: 'ada@example.com' },
+			attempts: 1,
+			priority: 2,
+			error: 'smtp down'
+		});
+		expect(failed.stack).toContain('Error: smtp down');
+		expect(await queue.getQueueStatus()).toMatchObject({ failed: 1, pending: 0 });
+	});
+
+	it('retries a failed job by id with its attempts reset', async () => {
+		let calls = 0;
+		queue.defineJob('recovers', async () => {
+			if (++calls === 1) throw new Error('first run fails');
+		});
+		await failOnce('recovers');
+		const [failed] = await queue.getFailedJobs();
+
+		const job = await queue.retryFailedJob(failed.id);
+		expect(job).toMatchObject({ id: failed.id, status: 'pending', attempts: 0, priority: 2 });
+		expect(await queue.getFailedJobs()).toEqual([]);
+
+		await queue.work({ once: true });
+		expect(calls).toBe(2);
+		expect(await queue.getQueueStatus()).toMatchObject({ completed: 1, failed: 0 });
+	});
+
+	it('retries every failed job', async () => {
+		queue.defineJob('always-fails', async () => {
+			throw new Error('nope');
+		});
+		await failOnce('always-fails');
+		await failOnce('always-fails');
+
+		expect(await queue.retryAllFailedJobs()).toBe(2);
+		expect(await queue.getQueueStatus()).toMatchObject({ pending: 2, failed: 0 });
+	});
+
+	it('forgets failed jobs', async () => {
+		queue.defineJob('discard', async () => {
+			throw new Error('nope');
+		});
+		await failOnce('discard');
+		const [failed] = await queue.getFailedJobs();
+
+		expect(await queue.forgetFailedJob(failed.id)).toBe(true);
+		expect(await queue.forgetFailedJob(failed.id)).toBe(false);
+		expect(await queue.retryFailedJob(failed.id)).toBeNull();
+	});
+});
+
+describe('chains and batches', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		queue.configureQueue({ driver: 'memory' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('runs chained jobs one after another', async () => {
+		const order: string[] = [];
+		queue.defineJob('chain:step', async (job) => {
+			order.push(`start ${job.data}`);
+			await sleep(5);
+			order.push(`end ${job.data}`);
+		});
+
+		await queue.chain([
+			{ name: 'chain:step', data: 'a' },
+			{ name: 'chain:step', data: 'b' },
+			{ name: 'chain:step', data: 'c' }
+		]);
+		await sleep(50);
+
+		expect(order).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+	});
+
+	it('stops the chain when a job fails', async () => {
+		const ran: string[] = [];
+		queue.defineJob('chain:ok', async (job) => {
+			ran.push(job.data);
+		});
+		queue.defineJob('chain:broken', async () => {
+			throw new Error('nope');
+		});
+
+		await queue.chain([
+			{ name: 'chain:ok', data: 'first' },
+			{ name: 'chain:broken', options: { attempts: 1 } },
+			{ name: 'chain:ok', data: 'never' }
+		]);
+		await sleep(10);
+
+		expect(ran).toEqual(['first']);
+		const [failed] = await queue.getFailedJobs();
+		expect(failed.chain).toEqual([{ name: 'chain:ok', data: 'never' }]);
+	});
+
+	it('rejects an empty chain', async () => {
+		await expect(queue.chain([])).rejects.toThrow('at least one job');
+	});
+
+	it('tracks batch progress and dispatches then/finally once every job is done', async () => {
+		const callbacks: Array<{ name: string; data: any }> = [];
+		queue.defineJob('batch:row', async () => {});
+		for (const name of ['batch:done', 'batch:failed', 'batch:finally']) {
+			queue.defineJob(name, async (job) => {
+				callbacks.push({ name, data: job.data });
+			});
+		}
+
+		const created = await queue
+			.batch(
+				[1, 2, 3, 4].map((row) => ({ name: 'batch:row', data: row })),
+				'Import'
+			)
+			.then('batch:done', { userId: 1 })
+			.catch('batch:failed')
+			.finally('batch:finally')
+			.dispatch();
+		expect(created).toMatchObject({ name: 'Import', totalJobs: 4, progress: 0, finished: false });
+
+		await sleep(10);
+
+		expect(await queue.findBatch(created.id)).toMatchObject({
+			pendingJobs: 0,
+			failedJobs: 0,
+			progress: 100,
+			finished: true
+		});
+		expect(callbacks.map((c) => c.name)).toEqual(['batch:done', 'batch:finally']);
+		expect(callbacks[0].data).toMatchObject({
+			batch: { id: created.id, progress: 100 },
+			data: { userId: 1 }
+		});
+	});
+
+	it('dispatches catch on the first failure and skips then', async () => {
+		const callbacks: string[] = [];
+		queue.defineJob('batch:maybe', async (job) => {
+			if (job.data % 2 === 0) throw new Error(`row ${job.data} invalid`);
+		});
+		for (const name of ['batch:done', 'batch:failed', 'batch:finally']) {
+			queue.defineJob(name, async () => {
+				callbacks.push(name);
+			});
+		}
+
+		const created = await queue
+			.batch(
+				[1, 2, 3, 4].map((row) => ({ name: 'batch:maybe', data: row, options: { attempts: 1 } }))
+			)
+			.then('batch:done')
+			.catch('batch:failed')
+			.finally('batch:finally')
+			.dispatch();
+		await sleep(10);
+
+		const found = await queue.findBatch(created.id);
+		expect(found).toMatchObject({ failedJobs: 2, progress: 100, finished: true });
+		expect(found?.failedJobIds).toHaveLength(2);
+		expect(callbacks).toEqual(['batch:failed', 'batch:finally']);
+	});
+
+	it('reports progress while jobs are still pending', async () => {
+		// A custom memory driver is not processed inline, so jobs wait for a worker
+		queue.registerQueueDriver('batch-test', () => new MemoryQueueDriver());
+		queue.configureQueue({ driver: 'batch-test' });
+		queue.defineJob('batch:slow', async () => {});
+
+		const created = await queue
+			.batch([{ name: 'batch:slow' }, { name: 'batch:slow' }, { name: 'batch:slow' }])
+			.dispatch();
+		await queue.work({ once: true });
+
+		expect(await queue.findBatch(created.id)).toMatchObject({
+			pendingJobs: 2,
+			progress: 33,
+			finished: false
+		});
+	});
+
+	it('finishes an empty batch straight away', async () => {
+		const callbacks: string[] = [];
+		queue.defineJob('batch:finally', async () => {
+			callbacks.push('finally');
+		});
+
+		const created = await queue.batch([]).finally('batch:finally').dispatch();
+		await sleep(0);
+
+		expect(created).toMatchObject({ progress: 100, finished: true });
+		expect(callbacks).toEqual(['finally']);
+	});
+
+	it('refuses function callbacks so awaiting an undispatched batch fails loudly', async () => {
+		await expect(queue.batch([{ name: 'batch:row' }]) as unknown).rejects.toThrow(
+			'Call dispatch()'
+		);
+	});
+});
+
+describe('typed jobs', () => {
+	const users = pgTable('users', {
+		id: integer('id').primaryKey(),
+		email: varchar('email', { length: 255 })
+	});
+	class User extends Model {
+		static table = users;
+	}
+	User.register('QueueTestUser');
+
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		queue.registerQueueDriver('typed-test', () => new MemoryQueueDriver());
+		queue.configureQueue({ driver: 'typed-test' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('returns a dispatcher that validates the payload', async () => {
+		const handled: Array<{ to: string; count: number }> = [];
+		const notify = queue.defineJob({
+			name: 'typed:notify',
+			schema: z.object({ to: z.string().email(), count: z.number().int().default(1) }),
+			handle: async (job) => {
+				handled.push(job.data);
+			}
+		});
+
+		const job = await notify.dispatch({ to: 'ada@example.com' });
+		await expect(notify.dispatch({ to: 'not-an-email' })).rejects.toThrow(JobValidationError);
+		await expect(notify.dispatch({ to: 'not-an-email' })).rejects.toThrow(
+			"Invalid payload for job 'typed:notify': to:"
+		);
+		await queue.work({ once: true });
+
+		expect(job).toMatchObject({ name: 'typed:notify', data: { to: 'ada@example.com' } });
+		expect(handled).toEqual([{ to: 'ada@example.com', count: 1 }]);
+		expect(await queue.getQueueStatus()).toMatchObject({ pending: 0, completed: 1 });
+	});
+
+	it('fails without retrying when the stored payload no longer validates', async () => {
+		const handle = vi.fn(async () => {});
+		queue.defineJob({ name: 'typed:strict', schema: z.object({ id: z.number() }), handle });
+
+		// Queued by an older deploy with a different payload shape
+		await queue.dispatch('typed:strict', { id: '42' }, { attempts: 5 });
+		await queue.work({ once: true });
+
+		const [failed] = await queue.getFailedJobs();
+		expect(handle).not.toHaveBeenCalled();
+		expect(failed).toMatchObject({ name: 'typed:strict', attempts: 1 });
+		expect(failed.error).toContain('id: Invalid input: expected number');
+	});
+
+	it('stores models by primary key and loads them for the handler', async () => {
+		const fresh = new User({ id: 7, email: 'new@example.com' });
+		const find = vi.spyOn(User, 'find').mockResolvedValue(fresh as any);
+		const seen: unknown[] = [];
+		const welcome = queue.defineJob({
+			name: 'typed:welcome',
+			schema: z.object({ user: z.instanceof(User), users: z.array(z.instanceof(User)) }),
+			handle: async (job) => {
+				seen.push(job.data.user, job.data.users[0]);
+			}
+		});
+
+		const user = new User({ id: 7, email: 'old@example.com' });
+		const job = await welcome.dispatch({ user, users: [user] });
+		expect(job?.data).toEqual({
+			user: { __omniModel: 'QueueTestUser', key: 7 },
+			users: [{ __omniModel: 'QueueTestUser', key: 7 }]
+		});
+
+		await queue.work({ once: true });
+
+		expect(find).toHaveBeenCalledWith(7);
+		expect(seen).toEqual([fresh, fresh]);
+	});
+
+	it('fails the job when a referenced model has been deleted', async () => {
+		vi.spyOn(User, 'find').mockResolvedValue(null as any);
+		const handle = vi.fn(async () => {});
+		queue.defineJob('typed:gone', handle);
+
+		await queue.dispatch('typed:gone', { user: new User({ id: 9 }) }, { attempts: 3 });
+		await queue.work({ once: true });
+
+		const [failed] = await queue.getFailedJobs();
+		expect(handle).not.toHaveBeenCalled();
+		expect(failed.error).toBe('📋 [Queue] QueueTestUser 9 no longer exists');
+	});
+
+	it('refuses models that are not registered', async () => {
+		class Unregistered extends User {}
+
+		await expect(
+			queue.dispatch('typed:gone', { user: new Unregistered({ id: 1 }) })
+		).rejects.toThrow('Unregistered must be registered');
+	});
+});
+
+describe('unique and rate-limited jobs', () => {
+	beforeEach(async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		cache.configureCache({ driver: 'memory' });
+		await cache.flush();
+		queue.registerQueueDriver('unique-test', () => new MemoryQueueDriver());
+		queue.configureQueue({ driver: 'unique-test', rateLimits: {} });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('skips duplicates of a pending unique job until it finishes', async () => {
+		const sent: unknown[] = [];
+		queue.defineJob('send-email', async (job) => {
+			sent.push(job.data);
+		});
+		const data = { to: 'ada@example.com', form: 'contact' };
+
+		const first = await queue.dispatch('send-email', data, { uniqueFor: 60_000 });
+		const duplicate = await queue.dispatch('send-email', { ...data }, { uniqueFor: 60_000 });
+		const other = await queue.dispatch(
+			'send-email',
+			{ ...data, to: 'bob@example.com' },
+			{ uniqueFor: 60_000 }
+		);
+
+		expect(first).not.toBeNull();
+		expect(duplicate).toBeNull();
+		expect(other).not.toBeNull();
+
+		await queue.work({ maxJobs: 2 });
+		expect(sent).toHaveLength(2);
+		expect(await queue.dispatch('send-email', data, { uniqueFor: 60_000 })).not.toBeNull();
+	});
+
+	it('types only unique dispatches as possibly skipped', async () => {
+		queue.defineJob('typed', async () => {});
+
+		expectTypeOf(queue.dispatch('typed', {})).resolves.toEqualTypeOf<Job<{}>>();
+		expectTypeOf(queue.dispatch('typed', {}, { queue: 'default' })).resolves.toEqualTypeOf<
+			Job<{}>
+		>();
+		expectTypeOf(
+			queue.dispatch('typed', {}, { uniqueKey: 'x' })
+		).resolves.toEqualTypeOf<Job<{}> | null>();
+		expectTypeOf(queue.chain([{ name: 'typed' }])).resolves.toEqualTypeOf<Job>();
+		expectTypeOf(
+			queue.chain([{ name: 'typed', options: { uniqueFor: 1000 } }])
+		).resolves.toEqualTypeOf<Job | null>();
+		await sleep(10);
+	});
+
+	it('matches duplicates by uniqueKey regardless of data', async () => {
+		queue.defineJob('rebuild-search', async () => {});
+
+		await queue.dispatch('rebuild-search', { reason: 'import' }, { uniqueKey: 'products' });
+		expect(
+			await queue.dispatch('rebuild-search', { reason: 'edit' }, { uniqueKey: 'products' })
+		).toBeNull();
+		expect(await queue.dispatch('rebuild-search', {}, { uniqueKey: 'posts' })).not.toBeNull();
+	});
+
+	it('hashes unique keys too long for the unique_key column', async () => {
+		queue.defineJob('rebuild-search', async () => {});
+		const key = 'products:'.repeat(40);
+
+		const job = await queue.dispatch('rebuild-search', {}, { uniqueKey: key });
+		expect(job?.uniqueKey).toMatch(/^sha1:[0-9a-f]{40}$/);
+		expect(await queue.dispatch('rebuild-search', {}, { uniqueKey: key })).toBeNull();
+
+		await queue.work({ once: true });
+		expect(await queue.dispatch('rebuild-search', {}, { uniqueKey: key })).not.toBeNull();
+	});
+
+	it('releases the unique lock when the job fails permanently', async () => {
+		queue.defineJob('flaky-unique', async () => {
+			throw new Error('nope');
+		});
+
+		await queue.dispatch('flaky-unique', {}, { uniqueKey: 'x', attempts: 1 });
+		await queue.work({ once: true });
+
+		expect(await queue.dispatch('flaky-unique', {}, { uniqueKey: 'x' })).not.toBeNull();
+	});
+
+	it('lets duplicates through once uniqueFor expires', async () => {
+		vi.useFakeTimers({ now: new Date(2026, 0, 1), toFake: ['Date'] });
+		try {
+			queue.defineJob('digest', async () => {});
+			await queue.dispatch('digest', 1, { uniqueFor: 5_000 });
+			expect(await queue.dispatch('digest', 1, { uniqueFor: 5_000 })).toBeNull();
+
+			vi.setSystemTime(new Date(2026, 0, 1, 0, 0, 6));
+			expect(await queue.dispatch('digest', 1, { uniqueFor: 5_000 })).not.toBeNull();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('expires uniqueKey locks after an hour by default', async () => {
+		vi.useFakeTimers({ now: new Date(2026, 0, 1), toFake: ['Date'] });
+		try {
+			queue.defineJob('rebuild-search', async () => {});
+			await queue.dispatch('rebuild-search', {}, { uniqueKey: 'products' });
+			expect(await queue.dispatch('rebuild-search', {}, { uniqueKey: 'products' })).toBeNull();
+
+			vi.setSystemTime(new Date(2026, 0, 1, 1, 0, 1));
+			expect(await queue.dispatch('rebuild-search', {}, { uniqueKey: 'products' })).not.toBeNull();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('requires a shared cache when other processes run the jobs', async () => {
+		queue.configureQueue({
+			driver: 'database',
+			rateLimits: { 'send-webhook': { max: 1, per: 60_000 } }
+		});
+
+		await expect(queue.dispatch('persisted', {}, { uniqueKey: 'x' })).rejects.toThrow(
+			"Unique jobs need a cache shared with the workers, but the cache uses the process-local 'memory' driver"
+		);
+		await expect(queue.work({ once: true })).rejects.toThrow('Rate limits need a cache shared');
+	});
+
+	it('holds back jobs over the rate limit without using an attempt', async () => {
+		queue.configureQueue({
+			driver: 'unique-test',
+			rateLimits: { 'send-webhook': { max: 2, per: 60_000 } }
+		});
+		let runs = 0;
+		queue.defineJob('send-webhook', async () => {
+			runs++;
+		});
+		for (let i = 0; i < 5; i++) await queue.dispatch('send-webhook', i, { attempts: 1 });
+
+		for (let i = 0; i < 5; i++) await queue.runNextJob();
+
+		expect(runs).toBe(2);
+		expect(await queue.getQueueStatus()).toMatchObject({ completed: 2, pending: 3, failed: 0 });
+		const held = await queue.runNextJob();
+		expect(held).toBeNull();
+	});
+
+	it('spreads held-back jobs over later windows', async () => {
+		queue.configureQueue({
+			driver: 'unique-test',
+			rateLimits: { 'send-webhook': { max: 2, per: 1000 } }
+		});
+		queue.defineJob('send-webhook', async () => {});
+		const driver = new MemoryQueueDriver();
+		queue.registerQueueDriver('unique-test', () => driver);
+		for (let i = 0; i < 6; i++) await queue.dispatch('send-webhook', i);
+
+		const jobs: Job[] = [];
+		for (let i = 0; i < 6; i++) jobs.push((await queue.runNextJob())!);
+
+		const held = jobs.filter((job) => job.status === 'pending');
+		const windows = held.map((job) => Math.floor(job.availableAt.getTime() / 1000));
+		expect(held).toHaveLength(4);
+		expect(held.every((job) => job.attempts === 0)).toBe(true);
+		expect(new Set(windows).size).toBe(2);
+	});
+
+	it('leaves other job names unlimited', async () => {
+		queue.configureQueue({
+			driver: 'unique-test',
+			rateLimits: { 'send-webhook': { max: 1, per: 60_000 } }
+		});
+		let runs = 0;
+		queue.defineJob('resize-image', async () => {
+			runs++;
+		});
+		for (let i = 0; i < 3; i++) await queue.dispatch('resize-image', i);
+
+		await queue.work({ maxJobs: 3 });
+		expect(runs).toBe(3);
+	});
+});
+
+describe('database driver', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		client.statements.length = 0;
+		client.results.length = 0;
+		queue.configureQueue({ driver: 'database', retryAfter: 60_000 });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('stores dispatched jobs in the jobs table without running them', async () => {
+		const handler = vi.fn(async () => {});
+		queue.defineJob('persisted', handler);
+
+		const job = await queue.dispatch(
+			'persisted',
+			{ id: 7 },
+			{ queue: 'emails', delay: 1000, priority: 3, attempts: 5, backoff: 250, timeout: 2000 }
+		);
+		await sleep(0);
+
+		const [insert] = client.statements;
+		expect(insert.query).toMatch(/^insert into "jobs"/);
+		expect(insert.params).toEqual(
+			expect.arrayContaining([job?.id, 'persisted', 'emails', '{"id":7}', 5, 3, '250', 2000])
+		);
+		expect(job!.availableAt.getTime() - job!.createdAt.getTime()).toBe(1000);
+		expect(handler).not.toHaveBeenCalled();
+	});
+
+	it('stores the unique key so workers can release it', async () => {
+		cache.registerCacheStore('shared', () => new cache.MemoryStore());
+		cache.configureCache({ driver: 'shared' });
+		const job = await queue
+			.dispatch('persisted', { id: 8 }, { uniqueKey: 'order-8' })
+			.finally(() => cache.configureCache({ driver: 'memory' }));
+
+		const [{ query, params }] = client.statements;
+		expect(query).toContain('"unique_key"');
+		expect(params).toContain('persisted:order-8');
+		expect(job?.uniqueKey).toBe('persisted:order-8');
+	});
+
+	it('reserves with FOR UPDATE SKIP LOCKED ordered by priority', async () => {
+		const driver = queue.getQueueDriver();
+		await driver.reserve('emails');
+
+		const [{ query, params }] = client.statements;
+		expect(query).toMatch(
+			/^update "jobs" set "status" = \$1, "attempts" = "jobs"\."attempts" \+ 1/
+		);
+		expect(query).toContain('order by "jobs"."priority" desc, "jobs"."available_at" asc');
+		expect(query).toContain('limit $');
+		expect(query).toContain('for update skip locked');
+		expect(query).toContain('returning');
+		expect(params).toEqual(expect.arrayContaining(['processing', 'emails', 60_000]));
+	});
+
+	it('runs reserved jobs and records the outcome', async () => {
+		const handled: unknown[] = [];
+		queue.defineJob('persisted', async (job) => {
+			handled.push(job.data);
+		});
+
+		const now = new Date();
+		// Columns in table order, as postgres-js returns them from .values()
+		client.results.push([
+			[
+				'6d3f1c2e-9a51-4f0e-8c1e-2b7d8e4a1f00',
+				'persisted',
+				'default',
+				{ id: 7 },
+				'processing',
+				1,
+				3,
+				0,
+				null,
+				null,
+				null,
+				now.toISOString(),
+				now.toISOString(),
+				null,
+				null,
+				null,
+				now.toISOString(),
+				null
+			]
+		]);
+
+		const job = await queue.runNextJob();
+
+		expect(handled).toEqual([{ id: 7 }]);
+		expect(job).toMatchObject({ status: 'completed', attempts: 1 });
+		const remove = client.statements[1];
+		expect(remove.query).toMatch(/^delete from "jobs" where "jobs"\."id" = \$1/);
+		expect(remove.params).toEqual([job?.id]);
+	});
+
+	it('moves failed jobs into failed_jobs in one transaction', async () => {
+		const driver = queue.getQueueDriver();
+		const job = makeJob({ status: 'failed', attempts: 3, error: 'boom', failedAt: new Date() });
+
+		await driver.fail(job, 'Error: boom\n    at handler');
+
+		expect(client.statements.map((s) => s.query.split(' (')[0])).toEqual([
+			'begin',
+			'insert into "failed_jobs"',
+			'delete from "jobs" where "jobs"."id" = $1',
+			'commit'
+		]);
+		expect(client.statements[1].params).toEqual(
+			expect.arrayContaining([job.id, 'boom', 'Error: boom\n    at handler'])
+		);
+	});
+
+	it('requeues a failed job and removes it from failed_jobs', async () => {
+		const now = new Date().toISOString();
+		client.results.push([
+			[
+				'6d3f1c2e-9a51-4f0e-8c1e-2b7d8e4a1f00',
+				'persisted',
+				'emails',
+				{ id: 7 },
+				3,
+				3,
+				1,
+				null,
+				null,
+				'boom',
+				null,
+				null,
+				null,
+				now,
+				now
+			]
+		]);
+
+		const job = await queue.retryFailedJob('6d3f1c2e-9a51-4f0e-8c1e-2b7d8e4a1f00');
+
+		expect(job).toMatchObject({ queue: 'emails', attempts: 0, status: 'pending', priority: 1 });
+		const queries = client.statements.map((s) => s.query);
+		expect(queries[1]).toMatch(
+			/^delete from "failed_jobs" where "failed_jobs"\."id" = \$1 returning/
+		);
+		expect(queries[2]).toMatch(/^insert into "jobs"/);
+	});
+
+	it('updates batch counters atomically when a job fails', async () => {
+		const batchId = '0b3f9f3e-4c3a-4d5e-9f61-7d2b1c9a8e11';
+		const driver = queue.getQueueDriver();
+
+		await driver.recordBatchJob(batchId, 'job-1', true);
+
+		const [{ query, params }] = client.statements;
+		expect(query).toMatch(
+			/^update "job_batches" set "pending_jobs" = "job_batches"\."pending_jobs" - 1/
+		);
+		expect(query).toContain('"failed_jobs" = "job_batches"."failed_jobs" + 1');
+		expect(query).toContain('"failed_job_ids" = "job_batches"."failed_job_ids" || $');
+		expect(query).toContain('returning');
+		expect(params).toEqual(expect.arrayContaining(['["job-1"]', batchId]));
+	});
+
+	it('resolves null when no job is ready', async () => {
+		expect(await queue.runNextJob('emails')).toBeNull();
+	});
+
+	it('counts jobs by status', async () => {
+		client.results.push(
+			[
+				['pending', 4],
+				['completed', 9]
+			],
+			[[1]]
+		);
+
+		expect(await queue.getQueueStatus()).toEqual({
+			pending: 4,
+			processing: 0,
+			completed: 9,
+			failed: 1
+		});
+	});
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as cache from '../../cache/index.js';
+import * as queue from '../../queue/index.js';
+import * as schedule from '../../schedule/index.js';
+import { CronExpression, InvalidCronExpressionError } from '../../schedule/index.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('CronExpression', () => {
+	it('matches fields, ranges, steps and lists', () => {
+		const cron = new CronExpression('*/15 9-17 * * 1-5');
+
+		expect(cron.matches(new Date(2026, 2, 2, 9, 30))).toBe(true); // Monday
+		expect(cron.matches(new Date(2026, 2, 2, 9, 31))).toBe(false);
+		expect(cron.matches(new Date(2026, 2, 2, 18, 0))).toBe(false);
+		expect(cron.matches(new Date(2026, 2, 1, 10, 0))).toBe(false); // Sunday
+	});
+
+	it('accepts names, shortcuts and 7 for Sunday', () => {
+		expect(new CronExpression('0 0 * JAN SUN').matches(new Date(2026, 0, 4, 0, 0))).toBe(true);
+		expect(new CronExpression('0 0 * * 7').matches(new Date(2026, 0, 4, 0, 0))).toBe(true);
+		expect(new CronExpression('@daily').matches(new Date(2026, 5, 9, 0, 0))).toBe(true);
+		expect(new CronExpression('@hourly').matches(new Date(2026, 5, 9, 4, 1))).toBe(false);
+	});
+
+	it('matches either day field when both are restricted', () => {
+		const cron = new CronExpression('0 0 13 * 5');
+
+		expect(cron.matches(new Date(2026, 1, 13, 0, 0))).toBe(true); // Friday the 13th
+		expect(cron.matches(new Date(2026, 2, 13, 0, 0))).toBe(true); // Friday
+		expect(cron.matches(new Date(2026, 2, 6, 0, 0))).toBe(true); // Friday
+		expect(cron.matches(new Date(2026, 2, 7, 0, 0))).toBe(false);
+	});
+
+	it('finds the next matching minute', () => {
+		const from = new Date(2026, 0, 1, 10, 7, 30);
+
+		expect(new CronExpression('*/5 * * * *').next(from)).toEqual(new Date(2026, 0, 1, 10, 10));
+		expect(new CronExpression('0 3 * * *').next(from)).toEqual(new Date(2026, 0, 2, 3, 0));
+		expect(new CronExpression('0 0 29 2 *').next(from)).toEqual(new Date(2028, 1, 29, 0, 0));
+	});
+
+	it('reads the expression in a timezone', () => {
+		const cron = new CronExpression('0 9 * * *');
+		const nineInTokyo = new Date('2026-06-01T00:00:00Z');
+
+		expect(cron.matches(nineInTokyo, 'Asia/Tokyo')).toBe(true);
+		expect(cron.matches(nineInTokyo, 'Europe/London')).toBe(false);
+		expect(cron.next(new Date('2026-06-01T00:00:00Z'), 'America/New_York')).toEqual(
+			new Date('2026-06-01T13:00:00Z')
+		);
+	});
+
+	it('skips whole days across DST changes', () => {
+		// New York springs forward on March 8 and falls back on November 1, 2026
+		expect(
+			new CronExpression('0 0 9 3 *').next(new Date('2026-03-08T05:00:00Z'), 'America/New_York')
+		).toEqual(new Date('2026-03-09T04:00:00Z'));
+		expect(
+			new CronExpression('30 0 2 11 *').next(new Date('2026-11-01T04:00:00Z'), 'America/New_York')
+		).toEqual(new Date('2026-11-02T05:30:00Z'));
+		// Havana skips its midnight, so March 8 starts at 01:00
+		expect(
+			new CronExpression('* * 8 3 *').next(new Date('2026-03-07T04:00:00Z'), 'America/Havana')
+		).toEqual(new Date('2026-03-08T05:00:00Z'));
+	});
+
+	it('rejects invalid expressions', () => {
+		expect(() => new CronExpression('* * *')).toThrow(InvalidCronExpressionError);
+		expect(() => new CronExpression('60 * * * *')).toThrow('minute must be between 0 and 59');
+		expect(() => new CronExpression('*/0 * * * *')).toThrow('bad step');
+		expect(() => new CronExpression('0 0 30 2 *').next(new Date())).toThrow('never matches');
+	});
+});
+
+describe('scheduled events', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		schedule.clearSchedule();
+		schedule.configureSchedule({ timezone: undefined });
+		cache.configureCache({ driver: 'memory' });
+		queue.configureQueue({ driver: 'memory' });
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('builds expressions from frequency helpers', () => {
+		expect(schedule.call('a', () => {}).everyFiveMinutes().expression).toBe('*/5 * * * *');
+		expect(schedule.call('b', () => {}).dailyAt('3:30').expression).toBe('30 3 * * *');
+		expect(schedule.call('c', () => {}).weeklyOn('monday', '8:00').expression).toBe('0 8 * * 1');
+		expect(schedule.call('d', () => {}).monthlyOn(15, '12:05').expression).toBe('5 12 15 * *');
+		expect(() => schedule.call('e', () => {}).dailyAt('25:00')).toThrow("a time like '13:30'");
+		expect(() => schedule.call('f', () => {}).timezone('Mars/Olympus')).toThrow('Unknown timezone');
+	});
+
+	it('runs only the tasks that are due', async () => {
+		const ran: string[] = [];
+		schedule.call('every-minute', () => ran.push('every-minute'));
+		schedule.call('at-three', () => ran.push('at-three')).dailyAt('3:00');
+
+		const results = await schedule.runDueEvents(new Date(2026, 0, 1, 3, 0));
+		await schedule.runDueEvents(new Date(2026, 0, 1, 3, 1));
+
+		expect(results).toEqual([
+			{ name: 'every-minute', status: 'ran' },
+			{ name: 'at-three', status: 'ran' }
+		]);
+		expect(ran).toEqual(['every-minute', 'at-three', 'every-minute']);
+	});
+
+	it('dispatches scheduled jobs to the queue', async () => {
+		const handled: unknown[] = [];
+		queue.defineJob('prune-sessions', async (job) => {
+			handled.push(job.data);
+		});
+		schedule.job('prune-sessions', { olderThan: 30 }).cron('0 3 * * *');
+
+		await schedule.runDueEvents(new Date(2026, 0, 1, 3, 0));
+		await sleep(0);
+
+		expect(handled).toEqual([{ olderThan: 30 }]);
+	});
+
+	it('uses the configured timezone unless the task sets its own', () => {
+		schedule.configureSchedule({ timezone: 'Asia/Tokyo' });
+		const tokyo = schedule.call('tokyo', () => {}).dailyAt('9:00');
+		const london = schedule
+			.call('london', () => {})
+			.dailyAt('9:00')
+			.timezone('Europe/London');
+
+		const now = new Date('2026-01-05T00:00:00Z');
+		expect(tokyo.isDue(now)).toBe(true);
+		expect(london.isDue(now)).toBe(false);
+		expect(london.nextRunDate(now)).toEqual(new Date('2026-01-05T09:00:00Z'));
+	});
+
+	it('reports failures without stopping other tasks', async () => {
+		schedule.call('broken', () => {
+			throw new Error('upstream down');
+		});
+		schedule.call('fine', () => {});
+
+		expect(await schedule.runDueEvents()).toEqual([
+			{ name: 'broken', status: 'failed', error: 'upstream down' },
+			{ name: 'fine', status: 'ran' }
+		]);
+	});
+
+	it('skips callbacks while the previous run holds the lock', async () => {
+		let release!: () => void;
+		let runs = 0;
+		schedule
+			.call('import', () => {
+				runs++;
+				return new Promise<void>((resolve) => (release = resolve));
+			})
+			.withoutOverlapping();
+
+		const first = schedule.runDueEvents();
+		await sleep(0);
+		expect(await schedule.runDueEvents()).toEqual([{ name: 'import', status: 'skipped' }]);
+
+		release();
+		expect(await first).toEqual([{ name: 'import', status: 'ran' }]);
+		const second = schedule.runDueEvents();
+		await sleep(0);
+		release();
+		expect(await second).toEqual([{ name: 'import', status: 'ran' }]);
+		expect(runs).toBe(2);
+	});
+
+	it('skips jobs until a worker finishes the previous one', async () => {
+		queue.registerQueueDriver('schedule-test', () => new queue.MemoryQueueDriver());
+		queue.configureQueue({ driver: 'schedule-test' });
+		queue.defineJob('sync', async () => {});
+		schedule.job('sync').everyFiveMinutes().withoutOverlapping();
+		const at = new Date(2026, 0, 1, 12, 0);
+
+		expect(await schedule.runDueEvents(at)).toEqual([{ name: 'sync', status: 'ran' }]);
+		expect(await schedule.runDueEvents(at)).toEqual([{ name: 'sync', status: 'skipped' }]);
+
+		await queue.work({ once: true });
+		expect(await schedule.runDueEvents(at)).toEqual([{ name: 'sync', status: 'ran' }]);
+	});
+});
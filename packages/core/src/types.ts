@@ -39,6 +39,13 @@ export interface OmniConfig {
 	 * Error reporting integration (e.g., Sentry) settings.
 	 */
 	errorReporting?: { enabled?: boolean; [key: string]: unknown };
+	/**
+	 * Mail settings for the dev server.
+	 */
+	mail?: {
+		/** Serve caught mail at `/__omni/mail` during `vite dev` (default true) */
+		devInbox?: boolean;
+	};
 }
 
 /**
@@ -11,6 +11,7 @@ import { generateDrizzleConfig } from './drizzle-config.js';
 import { runtime_directory } from '../utils/index.js';
 import { generateAuthConfig } from '../runtime/auth/generator.js';
 import { omniMigrationsPlugin } from './migrations.js';
+import { omniMailInboxPlugin } from './mail.js';
 import type { KitConfig } from '@sveltejs/kit';
 
 /**
@@ -43,6 +44,7 @@ export function omni(omniConfig: OmniConfig = {} as OmniConfig): Plugin[] {
 		plugin_auth_resolver(omniConfig),
 		plugin_omni_virtual_aliases(omniConfig),
 		plugin_auth_codegen(omniConfig),
+		omniMailInboxPlugin(omniConfig),
 		{
 			name: 'omni:migrations-wrapper',
 			async configResolved(resolvedConfig: ResolvedConfig) {
@@ -672,8 +674,18 @@ function applyExperimentalConfig(options: OmniSvelteConfig) {
  * export instead.
  */
 export function omniSvelte(options: OmniSvelteConfig = {} as OmniSvelteConfig) {
-	const { database, schema, auth, logging, cors, analytics, errorReporting, ...rest } = options;
-	const omniConfig: OmniConfig = { database, schema, auth, logging, cors, analytics, errorReporting };
+	const { database, schema, auth, logging, cors, analytics, errorReporting, mail, ...rest } =
+		options;
+	const omniConfig: OmniConfig = {
+		database,
+		schema,
+		auth,
+		logging,
+		cors,
+		analytics,
+		errorReporting,
+		mail
+	};
 	
 	const { svelteKitConfig, svelteCompilerConfig } = applyExperimentalConfig(rest as OmniSvelteConfig);
 
@@ -0,0 +1,71 @@
+import type { IncomingMessage } from 'node:http';
+import { Readable } from 'node:stream';
+import type { Plugin } from 'vite';
+import { MAIL_INBOX_PATH } from '../mail/inbox.js';
+import type { OmniConfig } from '../types.js';
+
+/**
+ * Dev-only plugin serving the mail inbox at `/__omni/mail`, where mail
+ * caught by the `memory` and `file` providers can be browsed and previewed
+ */
+export function omniMailInboxPlugin(omniConfig: OmniConfig): Plugin {
+	return {
+		name: 'omni:mail-inbox',
+		apply: 'serve',
+
+		configureServer(server) {
+			if (omniConfig.mail?.devInbox === false) return;
+
+			server.middlewares.use(async (req, res, next) => {
+				const url = req.url ?? '';
+				if (
+					url !== MAIL_INBOX_PATH &&
+					!url.startsWith(`${MAIL_INBOX_PATH}/`) &&
+					!url.startsWith(`${MAIL_INBOX_PATH}?`)
+				) {
+					return next();
+				}
+
+				try {
+					// Load through Vite so the inbox shares state with the app's mail module
+					const { handleMailInbox } = await server.ssrLoadModule('omni-svelte/mail');
+					const response: Response = await handleMailInbox(toRequest(req, url));
+
+					res.statusCode = response.status;
+					response.headers.forEach((value, name) => res.setHeader(name, value));
+					res.end(Buffer.from(await response.arrayBuffer()));
+				} catch (error) {
+					next(error);
+				}
+			});
+
+			const { port = 5173, https } = server.config.server;
+			server.httpServer?.once('listening', () => {
+				const protocol = https ? 'https' : 'http';
+				console.log(`📧 [Mail] Dev inbox at ${protocol}://localhost:${port}${MAIL_INBOX_PATH}`);
+			});
+		}
+	};
+}
+
+/**
+ * A fetch `Request` for a dev server request, with its headers and (for
+ * anything but GET/HEAD) its streamed body
+ */
+function toRequest(req: IncomingMessage, url: string): Request {
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(req.headers)) {
+		// HTTP/2 pseudo-headers like `:path` are not valid fetch header names
+		if (value === undefined || name.startsWith(':')) continue;
+		for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item);
+	}
+	const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+
+	return new Request(`http://localhost${url}`, {
+		method: req.method,
+		headers,
+		body: hasBody ? (Readable.toWeb(req) as ReadableStream<Uint8Array>) : undefined,
+		// Required by Node for streamed bodies, but missing from the DOM typings
+		duplex: 'half'
+	} as RequestInit);
+}